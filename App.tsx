@@ -1,10 +1,13 @@
 import React, { useState, useEffect, useCallback, lazy, Suspense } from 'react';
 
 import { Spinner } from '@phosphor-icons/react';
-import { AudioSource, AudioFile, TranscriptionState } from './types';
+import { AudioSource, AudioFile, AudioPreprocessingOptions, TranscriptExportVersion, TranscriptionProviderPreference, TranscriptionState } from './types';
 // import { transcribeWithGroq } from './services/groqService'; 
 import { isWebSpeechSupported } from './services/webSpeechService';
+import { loadMedia, restoreMedia } from './services/storageService';
 import { validateMediaFile } from './utils/mediaValidation';
+import { SubtitlePresetId } from './utils/subtitleLayout';
+import { takeSnapshot } from './utils/transcriptSnapshots';
 
 import ArchiveSidebar from './components/ArchiveSidebar';
 import GoogleFilePicker from './components/GoogleFilePicker';
@@ -23,6 +26,8 @@ import { useExports } from './src/hooks/useExports';
 import { useSessionUi } from './src/hooks/useSessionUi';
 import { useTabs } from './src/hooks/useTabs';
 import { useTranscriptionFlow } from './src/hooks/useTranscriptionFlow';
+import { useTranscriptionQueue } from './src/hooks/useTranscriptionQueue';
+import { useTranscriptImport } from './src/hooks/useTranscriptImport';
 
 
 
@@ -56,15 +61,6 @@ const App: React.FC = () => {
     }
   });
 
-  useDraftPersistence({
-    tabs,
-    setTabs,
-    activeTabId,
-    setActiveTabId,
-    activeTab,
-    setActiveTab
-  });
-
   // Data States
   const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
   const [micUrl, setMicUrl] = useState<string | null>(null);
@@ -75,6 +71,16 @@ const App: React.FC = () => {
   const [isSpeakerDetectEnabled, setIsSpeakerDetectEnabled] = useState(true);
   const [transcriptionMode, setTranscriptionMode] = useState<'verbatim' | 'polish'>('polish');
   const [isDeepThinking, setIsDeepThinking] = useState(false);
+  const [transcriptionProvider, setTranscriptionProvider] = useState<TranscriptionProviderPreference>('auto');
+  const [isWordTimingEnabled, setIsWordTimingEnabled] = useState(false);
+  const [audioPreprocessing, setAudioPreprocessing] = useState<AudioPreprocessingOptions>({
+    normalize: false,
+    speechFilter: false,
+    noiseGate: false,
+    removeSilence: false
+  });
+  const [subtitlePreset, setSubtitlePreset] = useState<SubtitlePresetId>('netflix');
+  const [exportVersion, setExportVersion] = useState<TranscriptExportVersion>('original');
 
   // Auth States
   const googleClientId = import.meta.env.VITE_GOOGLE_CLIENT_ID;
@@ -89,7 +95,16 @@ const App: React.FC = () => {
 
   // UI States
   const [showAiSidebar, setShowAiSidebar] = useState(false); // AI features sidebar
-  const { archiveItems, setArchiveItems } = useArchive();
+  const { archiveItems, setArchiveItems, isArchiveLoaded } = useArchive();
+
+  useDraftPersistence({
+    tabs,
+    setTabs,
+    activeTabId,
+    activeTab,
+    archiveItems,
+    isArchiveLoaded
+  });
   const [showArchiveSidebar, setShowArchiveSidebar] = useState(false);
   const [isPickerOpen, setIsPickerOpen] = useState(false);
   const [pickerCallback, setPickerCallback] = useState<((file: AudioFile) => void) | null>(null);
@@ -99,7 +114,10 @@ const App: React.FC = () => {
     progress,
     logLines,
     handleTranscribe,
-    handleBackgroundTranscribe,
+    executeTranscription,
+    describeArchiveItem,
+    cancelTranscription,
+    currentSettings,
     isReadyToTranscribe
   } = useTranscriptionFlow({
     activeTab,
@@ -110,29 +128,54 @@ const App: React.FC = () => {
     transcriptionMode,
     isSpeakerDetectEnabled,
     isDeepThinking,
+    transcriptionProvider,
+    isWordTimingEnabled,
+    audioPreprocessing,
     createTab,
     setTabs,
     setArchiveItems,
-    setShowArchiveSidebar,
     setContentType,
     setTranscription
   });
 
+  const { handleBackgroundTranscribe, queueControls } = useTranscriptionQueue({
+    archiveItems,
+    setArchiveItems,
+    isArchiveLoaded,
+    settings: currentSettings,
+    executeTranscription,
+    describeArchiveItem,
+    setShowArchiveSidebar
+  });
+
   const {
     handleSaveToDrive,
     handleExportTxt,
     handleExportDocx,
     handleExportSrt,
+    handleExportVtt,
     isSavingToDrive,
     driveSaved
   } = useExports({
     transcription,
     activeTabText: activeTabObj?.transcription.text,
+    activeTabWords: activeTabObj?.transcription.words,
+    activeTabTranslation: activeTabObj?.transcription.translation,
+    exportVersion,
+    activeTabMediaUrl: activeTabObj?.micUrl || activeTabObj?.uploadedFile?.previewUrl || null,
+    subtitlePreset,
     googleAccessToken,
     onRequireLogin: handleGoogleLogin,
-    onTokenInvalid: () => setGoogleAccessToken(null)
+    onTokenInvalid: () => setGoogleAccessToken(null),
+    onExported: (label, text) => setTabs(prev => prev.map(tab => (
+      tab.id === activeTabId
+        ? { ...tab, transcription: { ...tab.transcription, snapshots: takeSnapshot(tab.transcription.snapshots, text, label) } }
+        : tab
+    )))
   });
 
+  const { handleImportTranscript } = useTranscriptImport({ createTab });
+
   // --- Effects & Handlers ---
 
   // Prevent accidental browser close/refresh
@@ -267,6 +310,29 @@ const App: React.FC = () => {
     return null;
   }
 
+  // Closing a tab that is still transcribing stops the work in flight
+  const handleCloseTab = useCallback((id: string) => {
+    cancelTranscription(id);
+    closeTab(id);
+  }, [cancelTranscription, closeTab]);
+
+  // Re-runs transcription on the active tab's media (including media restored after a reload)
+  const handleRetranscribe = () => {
+    if (!activeTabObj) return;
+    const { uploadedFile: tabFile, recordedBlob: tabBlob, title, mediaId } = activeTabObj;
+    if (tabFile?.file) {
+      handleTranscribe({
+        source: AudioSource.FILE,
+        uploadedFile: { ...tabFile, previewUrl: URL.createObjectURL(tabFile.file) },
+        title,
+        mediaId,
+        forceFresh: true
+      });
+    } else if (tabBlob) {
+      handleTranscribe({ source: AudioSource.MICROPHONE, recordedBlob: tabBlob, micUrl: URL.createObjectURL(tabBlob), title, mediaId, forceFresh: true });
+    }
+  };
+
   // --- VIEWS ---
 
   const handleOpenInNewTab = (content: string, title?: string) => {
@@ -314,7 +380,7 @@ const App: React.FC = () => {
                 tabs={tabs} 
                 activeTabId={activeTabId} 
                 onTabSelect={setActiveTabId} 
-                onTabClose={closeTab}
+                onTabClose={handleCloseTab}
                 onNewTab={() => {
                    setActiveTabId(null);
                    setIsEditorMode(false);
@@ -348,7 +414,7 @@ const App: React.FC = () => {
             isDeepThinking={isDeepThinking}
             onCancel={() => {
               if (activeTabId) {
-                closeTab(activeTabId);
+                handleCloseTab(activeTabId);
               }
             }}
           />
@@ -380,9 +446,12 @@ const App: React.FC = () => {
               transcription={activeTabObj?.transcription || transcription}
               setTranscription={(val: React.SetStateAction<TranscriptionState>) => {
                 if (typeof val === 'function') {
-                  const currentTranscription = activeTabObj?.transcription || transcription;
-                  const nextTranscription = (val as (prev: TranscriptionState) => TranscriptionState)(currentTranscription);
-                  updateActiveTab({ transcription: nextTranscription });
+                  // Applied to the latest tab state, so several updates in one event all land
+                  setTabs(prev => prev.map(tab => (
+                    tab.id === activeTabId
+                      ? { ...tab, transcription: (val as (prev: TranscriptionState) => TranscriptionState)(tab.transcription) }
+                      : tab
+                  )));
                 } else {
                   updateActiveTab({ transcription: val });
                 }
@@ -402,6 +471,11 @@ const App: React.FC = () => {
               handleExportDocx={handleExportDocx}
               handleExportTxt={handleExportTxt}
               handleExportSrt={handleExportSrt}
+              handleExportVtt={handleExportVtt}
+              subtitlePreset={subtitlePreset}
+              setSubtitlePreset={setSubtitlePreset}
+              exportVersion={exportVersion}
+              setExportVersion={setExportVersion}
               googleAccessToken={googleAccessToken}
               googleClientId={googleClientId}
               driveScriptsLoaded={driveScriptsLoaded}
@@ -416,6 +490,7 @@ const App: React.FC = () => {
               isPickerOpen={isPickerOpen}
               handlePickDriveFile={handlePickDriveFile}
               onOpenInNewTab={handleOpenInNewTab}
+              onRetranscribe={activeTabObj?.uploadedFile?.file || activeTabObj?.recordedBlob ? handleRetranscribe : null}
             />
             </Suspense>
           </ErrorBoundary>
@@ -444,6 +519,12 @@ const App: React.FC = () => {
             setTranscriptionMode={setTranscriptionMode}
             isDeepThinking={isDeepThinking}
             setIsDeepThinking={setIsDeepThinking}
+            transcriptionProvider={transcriptionProvider}
+            setTranscriptionProvider={setTranscriptionProvider}
+            isWordTimingEnabled={isWordTimingEnabled}
+            setIsWordTimingEnabled={setIsWordTimingEnabled}
+            audioPreprocessing={audioPreprocessing}
+            setAudioPreprocessing={setAudioPreprocessing}
             isWebSpeechSupported={isWebSpeechSupported()}
             googleAccessToken={googleAccessToken}
             handleGoogleLogin={handleGoogleLogin}
@@ -474,6 +555,7 @@ const App: React.FC = () => {
             transcriptionError={activeTabObj?.transcription.error || transcription.error}
             setEditorMode={setIsEditorMode}
             onStartSmartEditor={() => handleOpenInNewTab('', 'New Document')}
+            onImportTranscript={handleImportTranscript}
             onNewSession={handleNewSession}
             hasDrafts={hasDrafts}
             onResumeDraft={handleResumeDraft}
@@ -488,29 +570,38 @@ const App: React.FC = () => {
         isOpen={showArchiveSidebar} 
         onClose={() => setShowArchiveSidebar(false)} 
         items={archiveItems}
-        onSelectItem={(item) => {
+        onSelectItem={async (item) => {
           // Open archive item in a new tab
           const existingTab = tabs.find(t => t.id === item.id);
           if (existingTab) {
             setActiveTabId(item.id);
           } else {
+            // Saved media comes back with fresh object URLs so playback and re-transcription work
+            const media = item.mediaId ? await loadMedia(item.mediaId).catch(() => null) : null;
             createTab({
               id: item.id,
               title: item.name,
-              transcription: { isLoading: false, text: item.text, error: null },
+              transcription: { isLoading: false, text: item.text, error: null, engine: item.engine, words: item.words },
               contentType: 'Media', // Default
+              ...(media ? restoreMedia(media) : {}),
+              mediaId: item.mediaId,
               isEditorMode: false,
             });
           }
           setShowArchiveSidebar(false);
         }}
         onDeleteItem={(id) => {
+          queueControls.cancelJob(id);
           const item = archiveItems.find(i => i.id === id);
           if (item?.audioUrl && item.audioUrl.startsWith('blob:')) {
             URL.revokeObjectURL(item.audioUrl);
           }
           setArchiveItems(prev => prev.filter(i => i.id !== id));
         }}
+        queueControls={queueControls}
+        onUpdateItem={(id, updates) => {
+          setArchiveItems(prev => prev.map(i => (i.id === id ? { ...i, ...updates } : i)));
+        }}
       />
 
       <GoogleFilePicker 
@@ -1,10 +1,30 @@
-import React from 'react';
+import React, { useDeferredValue, useMemo, useState } from 'react';
 import { 
   X, Clock, CheckCircle, WarningCircle, Spinner, 
   FileText, Trash, ArrowLineUpRight, HardDrive, 
-  DotsThreeVertical, FileAudio, FileVideo, Plus, ArrowsClockwise
+  ArrowsClockwise, MagnifyingGlass, Funnel, Tag, Folder,
+  Pause, Play, XCircle, HourglassMedium
 } from '@phosphor-icons/react';
-import { ArchiveItem } from '../types';
+import { ArchiveItem, ArchiveStatus, TranscriptionJobPriority } from '../types';
+import { getTranscriptionProvider } from '../services/transcriptionProviders';
+import {
+  ARCHIVE_DATE_RANGES,
+  ARCHIVE_DURATION_RANGES,
+  ARCHIVE_SORTS,
+  ArchiveDateRange,
+  ArchiveDurationRange,
+  ArchiveFilters,
+  ArchiveSort,
+  DEFAULT_ARCHIVE_FILTERS,
+  buildArchiveIndex,
+  filterArchiveItems,
+  getArchiveFacets,
+  getSearchSnippet,
+  searchArchive,
+  sortArchiveItems
+} from '../utils/archiveSearch';
+import { formatTranscriptTimestamp } from '../utils/timestampUtils';
+import { TranscriptionQueueControls, getQueueOrder } from '../src/hooks/useTranscriptionQueue';
 
 interface ArchiveSidebarProps {
   isOpen: boolean;
@@ -12,10 +32,145 @@ interface ArchiveSidebarProps {
   items: ArchiveItem[];
   onSelectItem: (item: ArchiveItem) => void;
   onDeleteItem: (id: string) => void;
+  onUpdateItem: (id: string, updates: Partial<ArchiveItem>) => void;
+  queueControls: TranscriptionQueueControls;
   onUploadFile?: (file: File) => void;
 }
 
-const ArchiveSidebar: React.FC<ArchiveSidebarProps> = ({ isOpen, onClose, items, onSelectItem, onDeleteItem, onUploadFile }) => {
+const STATUS_LABELS: Record<ArchiveStatus, string> = {
+  complete: 'Complete',
+  queued: 'Queued',
+  loading: 'In progress',
+  paused: 'Paused',
+  error: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const STATUS_STYLES: Record<ArchiveStatus, string> = {
+  complete: 'bg-emerald-100 text-emerald-600 dark:bg-emerald-900/20',
+  queued: 'bg-slate-100 text-slate-500 dark:bg-dark-border',
+  loading: 'bg-amber-100 text-amber-600 dark:bg-amber-900/20',
+  paused: 'bg-sky-100 text-sky-600 dark:bg-sky-900/20',
+  error: 'bg-red-100 text-red-600 dark:bg-red-900/20',
+  cancelled: 'bg-slate-100 text-slate-400 dark:bg-dark-border'
+};
+
+const PRIORITY_LABELS: Record<TranscriptionJobPriority, string> = {
+  high: 'High priority',
+  normal: 'Normal priority',
+  low: 'Low priority'
+};
+
+const StatusIcon: React.FC<{ status: ArchiveStatus }> = ({ status }) => {
+  switch (status) {
+    case 'loading': return <Spinner size={24} weight="bold" className="animate-spin" />;
+    case 'queued': return <HourglassMedium size={24} weight="duotone" />;
+    case 'paused': return <Pause size={24} weight="duotone" />;
+    case 'error': return <WarningCircle size={24} weight="duotone" />;
+    case 'cancelled': return <XCircle size={24} weight="duotone" />;
+    default: return <CheckCircle size={24} weight="duotone" />;
+  }
+};
+
+const jobButtonClassName = 'flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold text-slate-500 dark:text-dark-muted hover:bg-slate-100 dark:hover:bg-dark-border transition-all';
+
+const selectClassName = 'w-full px-2.5 py-1.5 rounded-lg bg-white dark:bg-dark-card border border-slate-200 dark:border-dark-border text-[11px] font-medium text-slate-600 dark:text-dark-text focus:outline-none focus:ring-2 focus:ring-primary/20';
+
+interface ItemOrganizerProps {
+  item: ArchiveItem;
+  folders: string[];
+  onUpdateItem: (id: string, updates: Partial<ArchiveItem>) => void;
+}
+
+/**
+ * Inline tag and folder editor for one archive item.
+ */
+const ItemOrganizer: React.FC<ItemOrganizerProps> = ({ item, folders, onUpdateItem }) => {
+  const [tagInput, setTagInput] = useState('');
+  const tags = item.tags || [];
+
+  const addTag = () => {
+    const tag = tagInput.trim().replace(/^#/, '');
+    setTagInput('');
+    if (!tag || tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) return;
+    onUpdateItem(item.id, { tags: [...tags, tag] });
+  };
+
+  const handleFolderChange = (value: string) => {
+    if (value === '__new__') {
+      const name = window.prompt('New folder name')?.trim();
+      if (name) onUpdateItem(item.id, { folder: name });
+      return;
+    }
+    onUpdateItem(item.id, { folder: value || null });
+  };
+
+  return (
+    <div className="mt-3 p-3 rounded-xl bg-slate-50 dark:bg-dark-card border border-slate-100 dark:border-dark-border space-y-2.5" onClick={(e) => e.stopPropagation()}>
+      <div className="flex flex-wrap items-center gap-1.5">
+        {tags.map(tag => (
+          <span key={tag} className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full bg-primary/10 text-primary dark:text-accent text-[10px] font-bold">
+            #{tag}
+            <button
+              onClick={() => onUpdateItem(item.id, { tags: tags.filter(existing => existing !== tag) })}
+              className="p-0.5 rounded-full hover:bg-primary/20"
+              title={`Remove tag ${tag}`}
+            >
+              <X size={8} weight="bold" />
+            </button>
+          </span>
+        ))}
+        <input
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault();
+              addTag();
+            }
+          }}
+          onBlur={addTag}
+          placeholder="Add tag..."
+          className="flex-1 min-w-[80px] bg-transparent text-[11px] text-slate-600 dark:text-dark-text placeholder:text-slate-400 focus:outline-none"
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <Folder size={12} weight="duotone" className="text-slate-400 shrink-0" />
+        <select value={item.folder || ''} onChange={(e) => handleFolderChange(e.target.value)} className={selectClassName}>
+          <option value="">No folder</option>
+          {folders.map(folder => <option key={folder} value={folder}>{folder}</option>)}
+          <option value="__new__">New folder...</option>
+        </select>
+      </div>
+    </div>
+  );
+};
+
+const ArchiveSidebar: React.FC<ArchiveSidebarProps> = ({ isOpen, onClose, items, onSelectItem, onDeleteItem, onUpdateItem, queueControls, onUploadFile }) => {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<ArchiveFilters>(DEFAULT_ARCHIVE_FILTERS);
+  const [sort, setSort] = useState<ArchiveSort>('relevance');
+  const [showFilters, setShowFilters] = useState(false);
+  const [organizingId, setOrganizingId] = useState<string | null>(null);
+  // Typing stays responsive while a large archive is searched
+  const deferredQuery = useDeferredValue(query);
+
+  const index = useMemo(() => buildArchiveIndex(items), [items]);
+  const facets = useMemo(() => getArchiveFacets(items), [items]);
+  const scores = useMemo(() => searchArchive(index, deferredQuery), [index, deferredQuery]);
+  const visibleItems = useMemo(() => {
+    const matched = scores ? items.filter(item => scores.has(item.id)) : items;
+    return sortArchiveItems(filterArchiveItems(matched, filters), sort, scores);
+  }, [filters, items, scores, sort]);
+
+  const queuePositions = useMemo(() => new Map(getQueueOrder(items).map((item, i) => [item.id, i + 1])), [items]);
+  const runningCount = items.filter(item => item.status === 'loading').length;
+
+  const activeFilterCount = (Object.keys(filters) as Array<keyof ArchiveFilters>)
+    .filter(key => filters[key] !== DEFAULT_ARCHIVE_FILTERS[key]).length;
+  const updateFilter = <K extends keyof ArchiveFilters>(key: K, value: ArchiveFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
 
   return (
     <>
@@ -41,7 +196,11 @@ const ArchiveSidebar: React.FC<ArchiveSidebarProps> = ({ isOpen, onClose, items,
               </div>
               <div>
                 <h3 className="text-lg font-bold text-slate-900 dark:text-white leading-tight">Sessions</h3>
-                <h3 className="text-[10px] text-slate-400 dark:text-dark-muted font-bold uppercase tracking-widest mt-0.5">Manage your workspace</h3>
+                <h3 className="text-[10px] text-slate-400 dark:text-dark-muted font-bold uppercase tracking-widest mt-0.5">
+                  {runningCount || queuePositions.size
+                    ? `${runningCount} running · ${queuePositions.size} queued`
+                    : 'Manage your workspace'}
+                </h3>
               </div>
             </div>
             <button 
@@ -52,11 +211,119 @@ const ArchiveSidebar: React.FC<ArchiveSidebarProps> = ({ isOpen, onClose, items,
             </button>
           </div>
 
+          {/* Search, Sort & Filters */}
+          {items.length > 0 && (
+            <div className="px-4 pt-4 pb-3 border-b border-slate-100 dark:border-dark-border space-y-3">
+              <div className="flex items-center gap-2">
+                <div className="relative flex-1">
+                  <MagnifyingGlass size={14} weight="bold" className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                  <input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search titles, transcripts, speakers..."
+                    className="w-full pl-8 pr-8 py-2 rounded-xl bg-slate-50 dark:bg-dark-bg border border-slate-200 dark:border-dark-border text-xs text-slate-700 dark:text-dark-text placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-primary/20"
+                  />
+                  {query && (
+                    <button
+                      onClick={() => setQuery('')}
+                      className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-md text-slate-400 hover:text-slate-600 dark:hover:text-white"
+                      title="Clear search"
+                    >
+                      <X size={12} weight="bold" />
+                    </button>
+                  )}
+                </div>
+                <button
+                  onClick={() => setShowFilters(prev => !prev)}
+                  className={`relative p-2 rounded-xl border transition-all ${
+                    showFilters || activeFilterCount > 0
+                      ? 'border-primary/30 bg-primary/10 text-primary dark:text-accent'
+                      : 'border-slate-200 dark:border-dark-border text-slate-400 hover:text-slate-600 dark:hover:text-white'
+                  }`}
+                  title="Filters"
+                >
+                  <Funnel size={14} weight="bold" />
+                  {activeFilterCount > 0 && (
+                    <span className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-primary text-white text-[9px] font-black flex items-center justify-center">
+                      {activeFilterCount}
+                    </span>
+                  )}
+                </button>
+              </div>
+
+              {/* Folders */}
+              {facets.folders.length > 0 && (
+                <div className="flex items-center gap-1.5 overflow-x-auto custom-scrollbar pb-0.5">
+                  {[{ value: null, label: 'All' }, { value: '', label: 'Unfiled' }, ...facets.folders.map(folder => ({ value: folder, label: folder }))].map(option => (
+                    <button
+                      key={option.value ?? '__all__'}
+                      onClick={() => updateFilter('folder', option.value)}
+                      className={`flex items-center gap-1 px-2.5 py-1 rounded-full text-[10px] font-bold whitespace-nowrap transition-all ${
+                        filters.folder === option.value
+                          ? 'bg-primary text-white'
+                          : 'bg-slate-100 dark:bg-dark-bg text-slate-500 dark:text-dark-muted hover:bg-slate-200 dark:hover:bg-dark-border'
+                      }`}
+                    >
+                      {option.value && <Folder size={10} weight="fill" />}
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {showFilters && (
+                <div className="grid grid-cols-2 gap-2">
+                  <select value={sort} onChange={(e) => setSort(e.target.value as ArchiveSort)} className={selectClassName} title="Sort">
+                    {(Object.keys(ARCHIVE_SORTS) as ArchiveSort[]).map(key => <option key={key} value={key}>{ARCHIVE_SORTS[key]}</option>)}
+                  </select>
+                  <select value={filters.status || ''} onChange={(e) => updateFilter('status', (e.target.value || null) as ArchiveStatus | null)} className={selectClassName} title="Status">
+                    <option value="">Any status</option>
+                    {(Object.keys(STATUS_LABELS) as ArchiveStatus[]).map(key => <option key={key} value={key}>{STATUS_LABELS[key]}</option>)}
+                  </select>
+                  <select value={filters.dateRange} onChange={(e) => updateFilter('dateRange', e.target.value as ArchiveDateRange)} className={selectClassName} title="Date">
+                    {(Object.keys(ARCHIVE_DATE_RANGES) as ArchiveDateRange[]).map(key => <option key={key} value={key}>{ARCHIVE_DATE_RANGES[key]}</option>)}
+                  </select>
+                  <select value={filters.duration} onChange={(e) => updateFilter('duration', e.target.value as ArchiveDurationRange)} className={selectClassName} title="Duration">
+                    {(Object.keys(ARCHIVE_DURATION_RANGES) as ArchiveDurationRange[]).map(key => <option key={key} value={key}>{ARCHIVE_DURATION_RANGES[key]}</option>)}
+                  </select>
+                  <select value={filters.contentType || ''} onChange={(e) => updateFilter('contentType', e.target.value || null)} className={selectClassName} title="Content type">
+                    <option value="">Any type</option>
+                    {facets.contentTypes.map(type => <option key={type} value={type}>{type}</option>)}
+                  </select>
+                  <select value={filters.tag || ''} onChange={(e) => updateFilter('tag', e.target.value || null)} className={selectClassName} title="Tag">
+                    <option value="">Any tag</option>
+                    {facets.tags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                  </select>
+                  {activeFilterCount > 0 && (
+                    <button
+                      onClick={() => setFilters(DEFAULT_ARCHIVE_FILTERS)}
+                      className="col-span-2 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest text-slate-500 hover:text-primary hover:bg-primary/5 transition-all"
+                    >
+                      Clear filters
+                    </button>
+                  )}
+                </div>
+              )}
 
+              {(scores || activeFilterCount > 0) && (
+                <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400 dark:text-dark-muted">
+                  {visibleItems.length} of {items.length} sessions
+                </p>
+              )}
+            </div>
+          )}
 
           {/* List */}
           <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
-            {items.length === 0 ? (
+            {items.length > 0 && visibleItems.length === 0 ? (
+              <div className="h-full flex flex-col items-center justify-center text-slate-400 opacity-60 text-center px-8">
+                <div className="w-16 h-16 rounded-[2rem] bg-slate-50 dark:bg-dark-bg flex items-center justify-center mb-6">
+                  <MagnifyingGlass size={28} weight="duotone" />
+                </div>
+                <p className="text-sm font-bold">No matching sessions</p>
+                <p className="text-xs mt-2">Try another search or clear the filters.</p>
+              </div>
+            ) : items.length === 0 ? (
               <div className="h-full flex flex-col items-center justify-center text-slate-400 opacity-60 text-center px-8">
                 <div className="w-16 h-16 rounded-[2rem] bg-slate-50 dark:bg-dark-bg flex items-center justify-center mb-6">
                   <FileText size={28} weight="duotone" />
@@ -66,20 +333,16 @@ const ArchiveSidebar: React.FC<ArchiveSidebarProps> = ({ isOpen, onClose, items,
               </div>
             ) : (
               <div className="space-y-3">
-                {items.map((item) => (
+                {visibleItems.map((item) => {
+                  const snippet = deferredQuery ? getSearchSnippet(item.text, deferredQuery) : null;
+                  return (
                   <div 
                     key={item.id}
                     className="group relative bg-white dark:bg-dark-bg border border-slate-100 dark:border-dark-border rounded-2xl p-4 hover:border-primary/30 dark:hover:border-primary/30 transition-all hover:shadow-lg dark:hover:shadow-primary/5"
                   >
                     <div className="flex items-start gap-4">
-                      <div className={`w-12 h-12 rounded-xl flex items-center justify-center shrink-0 ${
-                        item.status === 'loading' ? 'bg-amber-100 text-amber-600 dark:bg-amber-900/20' : 
-                        item.status === 'error' ? 'bg-red-100 text-red-600 dark:bg-red-900/20' : 
-                        'bg-emerald-100 text-emerald-600 dark:bg-emerald-900/20'
-                      }`}>
-                        {item.status === 'loading' ? <Spinner size={24} weight="bold" className="animate-spin" /> : 
-                         item.status === 'error' ? <WarningCircle size={24} weight="duotone" /> : 
-                         <CheckCircle size={24} weight="duotone" />}
+                      <div className={`w-12 h-12 rounded-xl flex items-center justify-center shrink-0 ${STATUS_STYLES[item.status] || STATUS_STYLES.complete}`}>
+                        <StatusIcon status={item.status} />
                       </div>
                       
                       <div className="flex-1 min-w-0 pr-8" onClick={() => item.status === 'complete' && onSelectItem(item)}>
@@ -88,15 +351,71 @@ const ArchiveSidebar: React.FC<ArchiveSidebarProps> = ({ isOpen, onClose, items,
                         </h4>
                         <div className="flex items-center gap-3 mt-1">
                           <span className="text-[10px] text-slate-400 dark:text-dark-muted font-medium">{item.date}</span>
+                          {item.status === 'complete' && item.engine && (
+                            <span className="text-[9px] font-bold uppercase tracking-tighter text-slate-400 dark:text-dark-muted">
+                              via {getTranscriptionProvider(item.engine)?.label || item.engine}
+                            </span>
+                          )}
                           {item.status === 'loading' && (
-                            <span className="text-[9px] font-black uppercase tracking-tighter text-amber-500 animate-pulse">Transcribing...</span>
+                            <span className="text-[9px] font-black uppercase tracking-tighter text-amber-500 animate-pulse">
+                              Transcribing{item.job?.totalChunks ? ` · ${item.job.completedChunks.length}/${item.job.totalChunks} parts` : '...'}
+                            </span>
+                          )}
+                          {item.status === 'queued' && (
+                            <span className="text-[9px] font-black uppercase tracking-tighter text-slate-400">Queued · #{queuePositions.get(item.id)}</span>
+                          )}
+                          {item.status === 'paused' && (
+                            <span className="text-[9px] font-black uppercase tracking-tighter text-sky-500">
+                              Paused{item.job?.totalChunks ? ` · ${item.job.completedChunks.length}/${item.job.totalChunks} parts done` : ''}
+                            </span>
+                          )}
+                          {item.status === 'cancelled' && (
+                            <span className="text-[9px] font-black uppercase tracking-tighter text-slate-400">Cancelled</span>
                           )}
                         </div>
+                        {item.status === 'loading' && item.job?.statusMessage && (
+                          <p className="mt-1 text-[10px] text-slate-400 dark:text-dark-muted truncate" title={item.job.statusMessage}>{item.job.statusMessage}</p>
+                        )}
+
+                        {(item.folder || item.contentType || item.durationSeconds || (item.tags && item.tags.length > 0)) && (
+                          <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                            {item.folder && (
+                              <span className="flex items-center gap-1 text-[9px] font-bold text-slate-500 dark:text-dark-muted">
+                                <Folder size={10} weight="fill" />
+                                {item.folder}
+                              </span>
+                            )}
+                            {item.contentType && (
+                              <span className="px-1.5 py-0.5 rounded bg-slate-100 dark:bg-dark-border text-[9px] font-bold text-slate-500 dark:text-dark-muted">{item.contentType}</span>
+                            )}
+                            {!!item.durationSeconds && (
+                              <span className="text-[9px] font-bold text-slate-400 dark:text-dark-muted">{formatTranscriptTimestamp(item.durationSeconds)}</span>
+                            )}
+                            {(item.tags || []).map(tag => (
+                              <button
+                                key={tag}
+                                onClick={(e) => { e.stopPropagation(); updateFilter('tag', tag); }}
+                                className="px-1.5 py-0.5 rounded-full bg-primary/10 text-[9px] font-bold text-primary dark:text-accent hover:bg-primary/20"
+                                title={`Show sessions tagged ${tag}`}
+                              >
+                                #{tag}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+
+                        {snippet && (
+                          <p className="mt-2 text-[11px] leading-relaxed text-slate-500 dark:text-dark-muted line-clamp-3">
+                            {snippet.map((part, i) => part.highlight
+                              ? <mark key={i} className="bg-amber-200/70 dark:bg-amber-500/30 text-inherit rounded px-0.5">{part.text}</mark>
+                              : <React.Fragment key={i}>{part.text}</React.Fragment>)}
+                          </p>
+                        )}
                         
-                        {item.status === 'loading' && (
+                        {(item.status === 'loading' || item.status === 'paused') && (
                            <div className="mt-3 w-full h-1 bg-slate-100 dark:bg-dark-border rounded-full overflow-hidden">
                               <div 
-                                className="h-full bg-amber-500 transition-all duration-500 ease-out"
+                                className={`h-full ${item.status === 'paused' ? 'bg-sky-400' : 'bg-amber-500'} transition-all duration-500 ease-out`}
                                 style={{ width: `${item.progress}%` }}
                               />
                            </div>
@@ -112,8 +431,19 @@ const ArchiveSidebar: React.FC<ArchiveSidebarProps> = ({ isOpen, onClose, items,
                         <Trash size={16} weight="duotone" />
                       </button>
 
-                      {/* Restart/Retry Button (Only on Error) */}
-                      {item.status === 'error' && (
+                      {/* Tags & Folder */}
+                      <button 
+                        onClick={(e) => { e.stopPropagation(); setOrganizingId(prev => (prev === item.id ? null : item.id)); }}
+                        className={`absolute top-4 ${item.status === 'error' && !item.job ? 'right-20' : 'right-12'} p-2 rounded-lg hover:text-primary hover:bg-primary/10 transition-all z-20 ${
+                          organizingId === item.id ? 'text-primary opacity-100' : 'text-slate-300 opacity-0 group-hover:opacity-100'
+                        }`}
+                        title="Tags & folder"
+                      >
+                        <Tag size={16} weight="duotone" />
+                      </button>
+
+                      {/* Restart/Retry Button (Only on Error, for items from before the queue) */}
+                      {item.status === 'error' && !item.job && (
                         <button 
                           onClick={(e) => { e.stopPropagation(); onSelectItem(item); }}
                           className="absolute top-4 right-12 p-2 rounded-lg text-slate-300 hover:text-primary hover:bg-primary/10 opacity-0 group-hover:opacity-100 transition-all z-20"
@@ -135,6 +465,48 @@ const ArchiveSidebar: React.FC<ArchiveSidebarProps> = ({ isOpen, onClose, items,
                       </div>
                     )}
 
+                    {/* Queue Controls */}
+                    {item.job && item.status !== 'complete' && (
+                      <div className="mt-3 flex flex-wrap items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                        {(item.status === 'queued' || item.status === 'loading') && (
+                          <button onClick={() => queueControls.pauseJob(item.id)} className={jobButtonClassName} title="Pause; finished parts are kept">
+                            <Pause size={12} weight="bold" /> Pause
+                          </button>
+                        )}
+                        {item.status === 'paused' && (
+                          <button onClick={() => queueControls.resumeJob(item.id)} className={jobButtonClassName}>
+                            <Play size={12} weight="bold" /> Resume
+                          </button>
+                        )}
+                        {(item.status === 'error' || item.status === 'cancelled') && (
+                          <button onClick={() => queueControls.retryJob(item.id)} className={jobButtonClassName}>
+                            <ArrowsClockwise size={12} weight="bold" /> Retry
+                          </button>
+                        )}
+                        {(item.status === 'queued' || item.status === 'loading' || item.status === 'paused') && (
+                          <button onClick={() => queueControls.cancelJob(item.id)} className={`${jobButtonClassName} hover:text-red-500`}>
+                            <XCircle size={12} weight="bold" /> Cancel
+                          </button>
+                        )}
+                        {(item.status === 'queued' || item.status === 'paused') && (
+                          <select
+                            value={item.job.priority}
+                            onChange={(e) => queueControls.setJobPriority(item.id, e.target.value as TranscriptionJobPriority)}
+                            className="ml-auto px-2 py-1 rounded-lg bg-transparent border border-slate-200 dark:border-dark-border text-[10px] font-bold text-slate-500 dark:text-dark-muted focus:outline-none"
+                            title="Queue priority"
+                          >
+                            {(Object.keys(PRIORITY_LABELS) as TranscriptionJobPriority[]).map(priority => (
+                              <option key={priority} value={priority}>{PRIORITY_LABELS[priority]}</option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                    )}
+
+                    {organizingId === item.id && (
+                      <ItemOrganizer item={item} folders={facets.folders} onUpdateItem={onUpdateItem} />
+                    )}
+
                     {item.status === 'complete' && (
                       <button 
                         onClick={() => onSelectItem(item)}
@@ -145,7 +517,8 @@ const ArchiveSidebar: React.FC<ArchiveSidebarProps> = ({ isOpen, onClose, items,
                       </button>
                     )}
                   </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </div>
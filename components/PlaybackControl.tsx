@@ -9,6 +9,8 @@ interface PlaybackControlProps {
   onTimeUpdate?: (currentTime: number) => void;
   seekToTime?: number;
   keyMoments?: Array<{ time: number; label: string }>;
+  /** Who speaks when, drawn on the progress bar in each speaker's colour */
+  speakerSpans?: Array<{ start: number; end: number; label: string; color: string }>;
 }
 
 const PlaybackControl: React.FC<PlaybackControlProps> = ({ 
@@ -17,7 +19,8 @@ const PlaybackControl: React.FC<PlaybackControlProps> = ({
   minimal = false, 
   onTimeUpdate,
   seekToTime,
-  keyMoments = []
+  keyMoments = [],
+  speakerSpans = []
 }) => {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -198,6 +201,25 @@ const PlaybackControl: React.FC<PlaybackControlProps> = ({
                ></div>
           </div>
 
+          {/* Speaker Track */}
+          {duration > 0 && speakerSpans.length > 0 && (
+            <div className="relative h-1 w-full rounded-full overflow-hidden bg-slate-100/50 dark:bg-white/5">
+              {speakerSpans.map((span, i) => (
+                <div
+                  key={i}
+                  title={span.label}
+                  className="absolute inset-y-0"
+                  style={{
+                    left: `${(Math.min(span.start, duration) / duration) * 100}%`,
+                    width: `${((Math.min(span.end, duration) - Math.min(span.start, duration)) / duration) * 100}%`,
+                    backgroundColor: span.color,
+                    opacity: currentTime >= span.start && currentTime < span.end ? 1 : 0.55
+                  }}
+                />
+              ))}
+            </div>
+          )}
+
           <input
             type="range"
             min="0"
@@ -10,13 +10,21 @@ import {
   Spinner, VideoCamera, TextHOne, TextHTwo, TextHThree, Palette, 
   Eraser, DotsThree, ArrowRight, Microphone, UploadSimple, Stop, 
   Play, Pause, WarningCircle, MagicWand, Timer, Warning, CaretUp, ArrowLeft,
-  Plus, List, Repeat, ArrowsOutSimple, ArrowsInSimple, Scissors, Funnel, ChatCenteredText, DownloadSimple, DotsSixVertical, Users, ArrowSquareOut, GoogleLogo
+  Plus, List, Repeat, ArrowsOutSimple, ArrowsInSimple, Scissors, Funnel, ChatCenteredText, DownloadSimple, DotsSixVertical, Users, ArrowSquareOut, GoogleLogo, Translate, Columns, UserSwitch, ListChecks, ClockCounterClockwise
 } from '@phosphor-icons/react';
 import { detectDialect } from '../utils/transcriptionUtils';
 import PlaybackControl from './PlaybackControl';
+import VersionHistory from './VersionHistory';
 import { generateTxt, generateDoc, generateDocx, generateSrt } from '../utils/exportUtils';
-import { summarizeText, enhanceFormatting, analyzeVideoContent, extractKeyMoments, findDiscussionBounds, stripPleasantries, refineSpeakers } from '../services/geminiService';
-import { AudioFile } from '../types';
+import { summarizeText, translateTranscript, enhanceFormatting, analyzeVideoContent, extractKeyMoments, findDiscussionBounds, stripPleasantries, refineSpeakers } from '../services/geminiService';
+import { alignTranslation, getSpeakerLabel, getTurnOffsets, hasCurrentWordTimings, isLowConfidence, isValidSpeakerLabel, mapSpeakerLabels, parseTranscript, reassignPassage, relabelSegments, removeSpeakerLabels, renameSpeaker } from '../utils/transcriptModel';
+import { SPEAKER_COLORS, carrySpeakerProfiles, getSpeakerColor, getSpeakerStats, renameSpeakerProfile } from '../utils/speakerProfiles';
+import { REVIEW_FLAG_LABELS, ReviewFlag, applyCorrection, findReviewFlags } from '../utils/reviewFlags';
+import { applyAcceptedChanges, diffTexts, setChangeStatus } from '../utils/trackedChanges';
+import { takeSnapshot } from '../utils/transcriptSnapshots';
+import { formatTranscriptTimestamp } from '../utils/timestampUtils';
+import { formatTime, getMediaDuration } from '../utils/audioUtils';
+import { AudioFile, SpeakerProfile, SuggestedEdits, TranscriptReview, TranscriptSnapshot, TranscriptSegment, TranscriptTranslation, TranscriptWord } from '../types';
 
 interface TranscriptionEditorProps {
   initialText: string;
@@ -44,9 +52,35 @@ interface TranscriptionEditorProps {
   useDeepThinking?: boolean;
   onOpenInNewTab?: (content: string, title?: string) => void;
   liveRecordingTrigger?: number;
+  /** Word timings for the transcript, used for karaoke highlighting and confidence flags */
+  words?: TranscriptWord[];
+  /** Translation shown beside the transcript, segment by segment */
+  translation?: TranscriptTranslation;
+  onTranslationChange?: (translation: TranscriptTranslation | null) => void;
+  /** Speaker colours and confirmed names from the speaker panel */
+  speakerProfiles?: Record<string, SpeakerProfile>;
+  onSpeakerProfilesChange?: (profiles: Record<string, SpeakerProfile>) => void;
+  /** Review mode progress, kept with the tab */
+  review?: TranscriptReview;
+  onReviewChange?: (review: TranscriptReview) => void;
+  /** AI edits (Smart Fix, Strip Pleasantries, Refine Speakers) waiting to be accepted or rejected */
+  suggestions?: SuggestedEdits;
+  onSuggestionsChange?: (suggestions: SuggestedEdits | null) => void;
+  /** Saved versions of the transcript, for comparing and restoring */
+  snapshots?: TranscriptSnapshot[];
+  onSnapshotsChange?: (snapshots: TranscriptSnapshot[]) => void;
 }
 
-type ActiveMenu = 'formatting' | 'tools' | 'export' | 'search' | 'ai-features' | null;
+const TRANSLATION_LANGUAGES = [
+  'English', 'French', 'Spanish', 'Portuguese', 'German', 'Arabic', 'Chinese',
+  'Swahili', 'Hausa', 'Yoruba', 'Igbo', 'Twi', 'Nigerian Pidgin'
+];
+
+type ActiveMenu = 'formatting' | 'tools' | 'export' | 'search' | 'ai-features' | 'speaker' | null;
+
+// Dropped into the editor DOM around a selection to find it again in the markdown
+const SELECTION_START = '\uE000';
+const SELECTION_END = '\uE001';
 
 const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({ 
   initialText, 
@@ -72,7 +106,18 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
   isSaving = false,
   driveSaved = false,
   onOpenInNewTab,
-  liveRecordingTrigger
+  liveRecordingTrigger,
+  words,
+  translation,
+  onTranslationChange,
+  speakerProfiles,
+  onSpeakerProfilesChange,
+  review,
+  onReviewChange,
+  suggestions,
+  onSuggestionsChange,
+  snapshots,
+  onSnapshotsChange
 }) => {
 
   // --- State ---
@@ -94,6 +139,30 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
   const [hasDialect, setHasDialect] = useState(false);
   const [analysis, setAnalysis] = useState<any>(null);
   const [isToolsExpanded, setIsToolsExpanded] = useState(true);
+
+  // Translation State
+  const [translationLanguage, setTranslationLanguage] = useState(translation?.language || 'English');
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [translationStatus, setTranslationStatus] = useState<string | null>(null);
+  const [showTranslation, setShowTranslation] = useState(true);
+
+  // Speaker Panel State
+  const [showSpeakerPanel, setShowSpeakerPanel] = useState(false);
+  const [editingSpeaker, setEditingSpeaker] = useState<string | null>(null);
+  const [speakerNameDraft, setSpeakerNameDraft] = useState('');
+  const [colorPickerFor, setColorPickerFor] = useState<string | null>(null);
+  const [splittingSpeaker, setSplittingSpeaker] = useState<string | null>(null);
+  const [splitSelection, setSplitSelection] = useState<number[]>([]);
+  const [splitName, setSplitName] = useState('');
+  const [mediaDuration, setMediaDuration] = useState<number | null>(null);
+  const [passageSelection, setPassageSelection] = useState<{ text: string; from: number; to: number } | null>(null);
+  const [newSpeakerName, setNewSpeakerName] = useState('');
+
+  // Review mode
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [reviewIndex, setReviewIndex] = useState(0);
+  const [correctionDraft, setCorrectionDraft] = useState<string | null>(null);
+  const [showVersions, setShowVersions] = useState(false);
   
   // Search State
   const [searchMatches, setSearchMatches] = useState<{index: number, length: number}[]>([]);
@@ -186,20 +255,64 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
 
   // Dragging logic is handled by framer-motion
 
-  const segments = React.useMemo(() => {
-      if (isEditing || !text) return [];
-      const segs: { time: number; index: number }[] = [];
-      const regex = /\[(\d{1,2}):(\d{2})(?::(\d{2}))?\]/g;
-      let match;
-      while ((match = regex.exec(text)) !== null) {
-          const hours = match[3] ? parseInt(match[1]) : 0;
-          const minutes = match[3] ? parseInt(match[2]) : parseInt(match[1]);
-          const seconds = match[3] ? parseInt(match[3]) : parseInt(match[2]);
-          const timeInSeconds = hours * 3600 + minutes * 60 + seconds;
-          segs.push({ time: timeInSeconds, index: match.index });
-      }
-      return segs;
-  }, [isEditing, text]);
+  const transcriptModel = React.useMemo(() => parseTranscript(isEditing ? '' : text, { words }), [isEditing, text, words]);
+
+  const segments = React.useMemo(
+      () => transcriptModel.segments.filter((seg): seg is TranscriptSegment & { start: number } => seg.start !== null),
+      [transcriptModel]
+  );
+
+  const translationModel = React.useMemo(() => (translation ? parseTranscript(translation.text) : null), [translation]);
+  const isSplitView = !!translationModel && showTranslation && !isEditing;
+  const isTranslationStale = !!translation && translation.sourceText !== text;
+
+  useEffect(() => {
+      let cancelled = false;
+      setMediaDuration(null);
+      if (audioUrl) getMediaDuration(audioUrl).then(duration => { if (!cancelled) setMediaDuration(duration); });
+      return () => { cancelled = true; };
+  }, [audioUrl]);
+
+  const speakerStats = React.useMemo(() => getSpeakerStats(transcriptModel, mediaDuration), [transcriptModel, mediaDuration]);
+  const speakerColors = React.useMemo(
+      () => new Map(transcriptModel.speakers.map((speaker, index) => [speaker.id, getSpeakerColor(speakerProfiles, speaker.label, index)])),
+      [transcriptModel, speakerProfiles]
+  );
+  const speakerSpans = React.useMemo(
+      () => transcriptModel.segments.flatMap(segment => {
+          if (segment.start === null || !segment.speakerId) return [];
+          const end = segment.end ?? segment.words?.[segment.words.length - 1]?.end ?? mediaDuration;
+          if (end === null || end <= segment.start) return [];
+          return [{
+            start: segment.start,
+            end,
+            label: getSpeakerLabel(transcriptModel, segment.speakerId) || '',
+            color: speakerColors.get(segment.speakerId) || SPEAKER_COLORS[0]
+          }];
+      }),
+      [transcriptModel, speakerColors, mediaDuration]
+  );
+
+  // Suggestions only line up with the text they were made for (plus the ones accepted since)
+  const activeSuggestions = React.useMemo(
+      () => (suggestions && applyAcceptedChanges(suggestions) === text ? suggestions : null),
+      [suggestions, text]
+  );
+  const pendingChangeIds = React.useMemo(
+      () => activeSuggestions?.changes.filter(change => change.status === 'pending').map(change => change.id) || [],
+      [activeSuggestions]
+  );
+
+  const reviewFlags = React.useMemo(
+      () => findReviewFlags(isEditing ? '' : text, words, activeSuggestions),
+      [isEditing, text, words, activeSuggestions]
+  );
+  const resolvedFlags = React.useMemo(() => new Set(review?.resolved || []), [review]);
+  const pendingFlags = React.useMemo(() => reviewFlags.filter(flag => !resolvedFlags.has(flag.key)), [reviewFlags, resolvedFlags]);
+  const currentFlag: ReviewFlag | null = isReviewing && !isEditing ? pendingFlags[Math.min(reviewIndex, pendingFlags.length - 1)] || null : null;
+  // Flags fixed by changing the text no longer appear, so they are counted separately
+  const reviewDone = reviewFlags.length - pendingFlags.length + (review?.applied || 0);
+  const reviewTotal = reviewFlags.length + (review?.applied || 0);
 
 
   // Auto-scroll to active segment in Read mode
@@ -208,7 +321,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
     
     let currentIdx = -1;
     for (let i = 0; i < segments.length; i++) {
-        if (playbackTime >= segments[i].time) currentIdx = i;
+        if (playbackTime >= segments[i].start) currentIdx = i;
         else break;
     }
     
@@ -300,7 +413,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
     html = html.replace(/__(.*?)__/g, '<b>$1</b>');
     html = html.replace(/\*(.*?)\*/g, '<i>$1</i>');
     html = html.replace(/_(\S.*?\S)_/g, '<i>$1</i>');
-    html = html.replace(/~~(.*?)~~/g, '<s class="interactive-strike" title="Click to remove">$1</s>');
+    html = html.replace(/~~(.*?)~~/g, '<s>$1</s>');
     
     // Inject Search Highlights
     if (searchTerm && searchTerm.length > 0) {
@@ -409,7 +522,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
       }
   }, [isEditing, searchTerm, currentMatchIndex]);
 
-  // Handle click on Strike-through elements to delete them
+  // Timestamp chips seek the player in edit mode
   useEffect(() => {
      const handleEditorClick = (e: MouseEvent) => {
         const target = e.target as HTMLElement;
@@ -431,20 +544,6 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
                     if (onSeek) onSeek(timeInSeconds);
                 }
             }
-            return;
-        }
-
-        if (target.tagName === 'S' || target.closest('s')) {
-           const sTag = target.tagName === 'S' ? target : target.closest('s');
-           if (sTag) {
-              sTag.remove(); // Remove element from DOM
-              // Update state
-              if (contentEditableRef.current) {
-                 const newMd = htmlToMarkdown(contentEditableRef.current.innerHTML);
-                 setText(newMd);
-                 onTextChange(newMd);
-              }
-           }
         }
      };
      
@@ -510,6 +609,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
 
   const handleApplyEnhancement = () => {
       if (!editedSummary) return;
+      saveSnapshot(`Before applying ${summaryTitle}`);
       lastSentTextRef.current = editedSummary;
       setText(editedSummary);
       onTextChange(editedSummary);
@@ -526,6 +626,58 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
       setTimeout(() => setToast(null), 3000);
   };
 
+  // --- Versions ---
+
+  const saveSnapshot = (name: string, automatic: boolean = true) => {
+      if (text) onSnapshotsChange?.(takeSnapshot(snapshots, text, name, automatic));
+  };
+
+  // The transcript as it first reached the editor, so later passes can be compared with it
+  useEffect(() => {
+      if (!snapshots && initialText) onSnapshotsChange?.(takeSnapshot([], initialText, "Original transcript"));
+  }, [initialText, snapshots, onSnapshotsChange]);
+
+  const handleRestoreSnapshot = (snapshot: TranscriptSnapshot) => {
+      onSnapshotsChange?.(takeSnapshot(snapshots, text, `Before restoring “${snapshot.name}”`));
+      updateText(snapshot.text);
+      setShowVersions(false);
+      setToast({ message: `Restored “${snapshot.name}”`, type: 'info' });
+      setTimeout(() => setToast(null), 3000);
+  };
+
+  // --- Suggested Edits ---
+
+  /** Compares an AI rewrite with the transcript and offers the differences as changes to accept or reject. */
+  const suggestEdits = (source: string, revised: string) => {
+      setShowSummarySidebar(false);
+      const changes = diffTexts(text, revised);
+      if (changes.length === 0) {
+          setToast({ message: `${source} found nothing to change.`, type: 'info' });
+          setTimeout(() => setToast(null), 3000);
+          return;
+      }
+      if (!onSuggestionsChange) {
+          updateText(revised);
+          return;
+      }
+      onSuggestionsChange({ source, baseText: text, changes });
+      onEditingChange(false);
+  };
+
+  const resolveSuggestions = (ids: string[], status: 'accepted' | 'rejected') => {
+      if (!activeSuggestions || !onSuggestionsChange) return;
+      const next = setChangeStatus(activeSuggestions, ids, status);
+      const newText = applyAcceptedChanges(next);
+      if (newText !== text) {
+          if (next.source === "Refine Speakers" && speakerProfiles && onSpeakerProfilesChange) {
+              // Colours follow the speakers to the names the AI gave them
+              onSpeakerProfilesChange(carrySpeakerProfiles(speakerProfiles, mapSpeakerLabels(parseTranscript(text), parseTranscript(newText))));
+          }
+          updateText(newText);
+      }
+      onSuggestionsChange(next.changes.some(change => change.status === 'pending') ? next : null);
+  };
+
   const handleExportAI = async (format: 'txt' | 'docx') => {
     if (!editedSummary) return;
     const filename = `AI_Analysis_${new Date().toISOString().slice(0, 10)}`;
@@ -647,11 +799,122 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
   };
 
   const handleRemoveSpeakers = () => {
-      const newText = text.replace(/(^|\n)(\*\*|__)?(?:Speaker \d+|[A-Z][a-z]+(?: [A-Z][a-z]+)?):(\*\*|__)?/g, '$1').replace(/  +/g, ' ');
-      updateText(newText);
+      updateText(removeSpeakerLabels(text));
       setActiveMenu(null);
   };
 
+  // --- Speakers ---
+
+  const checkSpeakerLabel = (label: string) => {
+      if (isValidSpeakerLabel(label)) return true;
+      setToast({ message: "Speaker names start with a capital letter and have at most four words.", type: 'warning' });
+      setTimeout(() => setToast(null), 4000);
+      return false;
+  };
+
+  /** Renames a speaker everywhere; renaming to another speaker's name merges the two. */
+  const handleRenameSpeaker = (from: string, to: string) => {
+      const label = to.trim();
+      setEditingSpeaker(null);
+      if (!label || label === from || !checkSpeakerLabel(label)) return;
+      const fromIndex = transcriptModel.speakers.findIndex(speaker => speaker.label === from);
+      const targetIndex = transcriptModel.speakers.findIndex(speaker => speaker.label === label);
+      const color = targetIndex !== -1
+        ? getSpeakerColor(speakerProfiles, label, targetIndex)
+        : getSpeakerColor(speakerProfiles, from, fromIndex);
+      updateText(renameSpeaker(text, from, label));
+      onSpeakerProfilesChange?.(renameSpeakerProfile(speakerProfiles || {}, from, label, color));
+  };
+
+  /**
+   * Finds the editor selection in the markdown by marking its ends in the DOM
+   * and converting back. Offsets refer to the returned text.
+   */
+  const getSelectedPassage = () => {
+      const editor = contentEditableRef.current;
+      const selection = window.getSelection();
+      if (!editor || !selection || selection.rangeCount === 0 || selection.isCollapsed) return null;
+      const range = selection.getRangeAt(0);
+      if (!editor.contains(range.commonAncestorContainer)) return null;
+
+      const startMarker = document.createTextNode(SELECTION_START);
+      const endMarker = document.createTextNode(SELECTION_END);
+      const endRange = range.cloneRange();
+      endRange.collapse(false);
+      endRange.insertNode(endMarker);
+      const startRange = range.cloneRange();
+      startRange.collapse(true);
+      startRange.insertNode(startMarker);
+      const marked = htmlToMarkdown(editor.innerHTML);
+      startMarker.remove();
+      endMarker.remove();
+      editor.normalize();
+
+      const from = marked.indexOf(SELECTION_START);
+      const to = marked.indexOf(SELECTION_END);
+      if (from === -1 || to === -1 || to < from) return null;
+      return { text: marked.replace(SELECTION_START, '').replace(SELECTION_END, ''), from, to: to - 1 };
+  };
+
+  const handleOpenSpeakerMenu = () => {
+      if (activeMenu === 'speaker') {
+          setActiveMenu(null);
+          return;
+      }
+      const passage = getSelectedPassage();
+      if (!passage) {
+          setToast({ message: "Select the words spoken by another speaker first.", type: 'info' });
+          setTimeout(() => setToast(null), 3000);
+          return;
+      }
+      setPassageSelection(passage);
+      setNewSpeakerName('');
+      setActiveMenu('speaker');
+  };
+
+  /** Moves the selected words into a new turn for `label`, splitting the turn around them. */
+  const handleReassignPassage = (label: string) => {
+      const name = label.trim();
+      if (!passageSelection || !name || !checkSpeakerLabel(name)) return;
+      try {
+          updateText(reassignPassage(passageSelection.text, passageSelection.from, passageSelection.to, name, { playbackTime, words }));
+          setPassageSelection(null);
+          setActiveMenu(null);
+      } catch (e) {
+          setToast({ message: e instanceof Error ? e.message : String(e), type: 'warning' });
+          setTimeout(() => setToast(null), 4000);
+      }
+  };
+
+  const handleStartSplit = (label: string) => {
+      const labels = new Set(transcriptModel.speakers.map(speaker => speaker.label));
+      let next = transcriptModel.speakers.length + 1;
+      while (labels.has(`Speaker ${next}`)) next += 1;
+      setSplittingSpeaker(splittingSpeaker === label ? null : label);
+      setSplitSelection([]);
+      setSplitName(`Speaker ${next}`);
+  };
+
+  /** Moves the selected turns of a speaker to another (new or existing) speaker. */
+  const handleSplitSpeaker = () => {
+      const label = splitName.trim();
+      if (!splittingSpeaker || splitSelection.length === 0 || !checkSpeakerLabel(label)) return;
+      updateText(relabelSegments(text, new Map(splitSelection.map(index => [index, label]))));
+      if (!transcriptModel.speakers.some(speaker => speaker.label === label)) {
+          onSpeakerProfilesChange?.({
+            ...(speakerProfiles || {}),
+            [label]: { color: SPEAKER_COLORS[transcriptModel.speakers.length % SPEAKER_COLORS.length], confirmed: true }
+          });
+      }
+      setSplittingSpeaker(null);
+      setSplitSelection([]);
+  };
+
+  const handleSpeakerColor = (label: string, color: string) => {
+      onSpeakerProfilesChange?.({ ...(speakerProfiles || {}), [label]: { ...speakerProfiles?.[label], color } });
+      setColorPickerFor(null);
+  };
+
   const handleCompactText = () => {
      const newText = text.replace(/\n\s*\n/g, '\n');
      updateText(newText);
@@ -755,6 +1018,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
   };
 
   const handleSummarize = async () => {
+    saveSnapshot("Before Summary");
     setSummaryTitle("Summary");
     setShowSummarySidebar(true);
     setIsSummarizing(true);
@@ -771,8 +1035,27 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
     }
   };
 
+  const handleTranslate = async () => {
+    if (!onTranslationChange) return;
+    saveSnapshot(`Before translating to ${translationLanguage}`);
+    setIsTranslating(true);
+    setTranslationStatus(null);
+    try {
+      const result = await translateTranscript(text, translationLanguage, useDeepThinking, message => setTranslationStatus(message));
+      onTranslationChange({ language: translationLanguage, text: result, sourceText: text });
+      setShowTranslation(true);
+    } catch (e) {
+      setToast({ message: handleAiError(e, "Translate Transcript"), type: 'error' });
+      setTimeout(() => setToast(null), 5000);
+    } finally {
+      setIsTranslating(false);
+      setTranslationStatus(null);
+    }
+  };
+
   const handleAnalyzeVideo = async () => {
     if (!originalFile) return;
+    saveSnapshot("Before Visual Analysis");
     setSummaryTitle("Visual Analysis");
     setShowSummarySidebar(true);
     setIsSummarizing(true);
@@ -790,6 +1073,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
   };
 
   const handleEnhance = async () => {
+      saveSnapshot("Before Smart Fix");
       setSummaryTitle("Smart Fix");
       setShowSummarySidebar(true);
       setIsSummarizing(true);
@@ -798,8 +1082,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
       setEditedSummary('');
       try {
           const result = await enhanceFormatting(text, contentType || "General", useDeepThinking);
-          setSummary(result);
-          setEditedSummary(result);
+          suggestEdits("Smart Fix", result);
       } catch (e: any) {
           setSummary(handleAiError(e, "Enhance Text"));
       } finally {
@@ -809,6 +1092,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
   };
 
   const handleKeyMoments = async () => {
+    saveSnapshot("Before Key Moments");
     setSummaryTitle("Key Moments");
     setShowSummarySidebar(true);
     setIsSummarizing(true);
@@ -826,6 +1110,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
   };
 
   const handleFindBounds = async () => {
+    saveSnapshot("Before Identify Core");
     setSummaryTitle("Identify Core");
     setShowSummarySidebar(true);
     setIsSummarizing(true);
@@ -843,6 +1128,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
   };
 
   const handleStripPleasantries = async () => {
+    saveSnapshot("Before Strip Pleasantries");
     setSummaryTitle("Strip Pleasantries");
     setShowSummarySidebar(true);
     setIsSummarizing(true);
@@ -850,8 +1136,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
     setEditedSummary('');
     try {
       const result = await stripPleasantries(text, useDeepThinking);
-      setSummary(result);
-      setEditedSummary(result);
+      suggestEdits("Strip Pleasantries", result);
     } catch (e: any) {
       setSummary(handleAiError(e, "Filter Pleasantries"));
     } finally {
@@ -860,15 +1145,18 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
   };
 
   const handleRefineSpeakers = async () => {
+    saveSnapshot("Before Refine Speakers");
     setSummaryTitle("Refine Speakers");
     setShowSummarySidebar(true);
     setIsSummarizing(true);
     setSummary(null);
     setEditedSummary('');
     try {
-      const result = await refineSpeakers(text, useDeepThinking);
-      setSummary(result);
-      setEditedSummary(result);
+      const confirmedLabels = Object.entries(speakerProfiles || {})
+        .filter(([, profile]) => profile.confirmed)
+        .map(([label]) => label);
+      const result = await refineSpeakers(text, useDeepThinking, confirmedLabels);
+      suggestEdits("Refine Speakers", result);
     } catch (e: any) {
       setSummary(handleAiError(e, "Refine Speaker Labels"));
     } finally {
@@ -893,7 +1181,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
         if (format === 'txt') generateTxt(text, filename);
         if (format === 'doc') generateDoc(text, filename);
         if (format === 'docx') await generateDocx(text, filename);
-        if (format === 'srt') generateSrt(text, filename);
+        if (format === 'srt') generateSrt(text, filename, { words });
         setActiveMenu(null);
     } catch (e) {
         setToast({ message: `Failed to export as ${format.toUpperCase()}`, type: 'error' });
@@ -909,74 +1197,174 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
 
   // --- Rendering ---
 
+  const seekPlayback = React.useCallback((seconds: number) => {
+      setSeekToTime(seconds);
+      // Clear seekToTime shortly after to allow triggering again with same value
+      setTimeout(() => setSeekToTime(undefined), 100);
+      onSeek?.(seconds);
+  }, [onSeek]);
+
   const highlightedText = React.useMemo(() => {
       if (!text) return null;
       let currentSegmentIndex = -1;
       for (let i = 0; i < segments.length; i++) {
-          if (playbackTime >= segments[i].time) currentSegmentIndex = i;
+          if (playbackTime >= segments[i].start) currentSegmentIndex = i;
           else break;
       }
       if (segments.length === 0) {
-          return (
+          const original = (
             <div className="prose prose-lg prose-slate dark:prose-invert max-w-none text-slate-900 dark:text-white">
               <ReactMarkdown>{text}</ReactMarkdown>
             </div>
           );
+          if (!isSplitView || !translation) return original;
+          return (
+            <div className="grid grid-cols-2 gap-8">
+              {original}
+              <div className="prose prose-lg prose-slate dark:prose-invert max-w-none text-slate-600 dark:text-slate-400">
+                <ReactMarkdown>{translation.text}</ReactMarkdown>
+              </div>
+            </div>
+          );
       }
 
-      const nodes: React.ReactNode[] = [];
-      for (let i = 0; i < segments.length; i++) {
-          const seg = segments[i];
-          const nextSeg = segments[i + 1];
-          const endIdx = nextSeg ? nextSeg.index : text.length;
+      const translatedSegments = new Map<string, TranscriptSegment | null>();
+      const extraTranslations: TranscriptSegment[] = [];
+      if (isSplitView && translationModel) {
+          alignTranslation(transcriptModel, translationModel).forEach(pair => {
+              if (pair.original) translatedSegments.set(pair.original.id, pair.translation);
+              else if (pair.translation) extraTranslations.push(pair.translation);
+          });
+      }
+      const renderTranslation = (segment: TranscriptSegment | null | undefined, isActive: boolean) => (
+        <div
+          className={`rounded-xl p-4 my-1 border-l-4 transition-all duration-300 ${
+            isActive ? 'bg-primary/5 border-primary/40' : 'border-transparent'
+          }`}
+        >
+          {segment?.text ? (
+            <ReactMarkdown className="prose prose-lg prose-slate dark:prose-invert max-w-none text-slate-600 dark:text-slate-400 leading-relaxed">
+              {segment.text}
+            </ReactMarkdown>
+          ) : (
+            <p className="text-xs italic text-slate-400 dark:text-dark-muted">Not translated</p>
+          )}
+        </div>
+      );
 
-          if (i === 0 && seg.index > 0) {
-              nodes.push(
-                <div key="pre" className="opacity-50 mb-4 text-slate-900 dark:text-white">
+      const nodes: React.ReactNode[] = [];
+      if (transcriptModel.preamble) {
+          const preamble = (
+            <div key="pre" className="opacity-50 mb-4 text-slate-900 dark:text-white">
+              <ReactMarkdown className="prose prose-lg prose-slate dark:prose-invert">
+                {transcriptModel.preamble}
+              </ReactMarkdown>
+            </div>
+          );
+          nodes.push(
+            isSplitView ? (
+              <div key="pre" className="grid grid-cols-2 gap-8">
+                {preamble}
+                <div className="opacity-50 mb-4">
                   <ReactMarkdown className="prose prose-lg prose-slate dark:prose-invert">
-                    {text.substring(0, seg.index)}
+                    {translationModel?.preamble || ''}
                   </ReactMarkdown>
                 </div>
-              );
-          }
+              </div>
+            ) : preamble
+          );
+      }
 
-          const segmentText = text.substring(seg.index, endIdx);
-          const isActive = i === currentSegmentIndex;
+      // Turns are shown from their own source lines, so the reader sees the document as written
+      const turnOffsets = getTurnOffsets(text);
+      transcriptModel.segments.forEach((seg, segmentIndex) => {
+          const turn = turnOffsets[segmentIndex];
+          const isReviewSegment = currentFlag?.segmentIndex === segmentIndex;
+          const timedIndex = seg.start !== null ? segments.indexOf(seg as TranscriptSegment & { start: number }) : -1;
+          const isActive = timedIndex !== -1 && timedIndex === currentSegmentIndex;
+          const speakerColor = seg.speakerId ? speakerColors.get(seg.speakerId) : undefined;
 
-          nodes.push(
+          const segmentNode = (
             <div
-              key={i}
-              id={`seg-${i}`}
-              onClick={() => onSeek?.(seg.time)}
-              className={`transition-all duration-300 rounded-xl p-4 my-1 border-l-4 cursor-pointer group ${
+              key={seg.id}
+              id={timedIndex !== -1 ? `seg-${timedIndex}` : undefined}
+              data-segment={segmentIndex}
+              onClick={() => seg.start !== null && seekPlayback(seg.start)}
+              className={`transition-all duration-300 rounded-xl p-4 my-1 border-l-4 ${seg.start !== null ? 'cursor-pointer' : ''} ${isReviewSegment ? 'ring-2 ring-amber-400/60' : ''} group ${
                 isActive
                   ? 'bg-primary/5 border-primary shadow-sm'
                   : 'bg-transparent border-transparent hover:bg-slate-50 dark:hover:bg-white/5'
               }`}
+              style={!isActive && speakerColor ? { borderLeftColor: `${speakerColor}80` } : undefined}
             >
-              <ReactMarkdown
-                className="prose prose-lg prose-slate dark:prose-invert max-w-none pointer-events-none"
-                components={{
-                  p: ({node, ...props}: any) => (
-                    <p
-                      className={`mb-0 leading-relaxed ${
-                        isActive ? 'text-slate-900 dark:text-white font-medium' : 'text-slate-700 dark:text-slate-300'
-                      }`}
-                      {...props}
-                    />
-                  ),
-                  strong: ({node, ...props}: any) => (
-                    <span className="font-bold text-primary dark:text-accent" {...props} />
-                  )
-                }}
-              >
-                {segmentText}
-              </ReactMarkdown>
+              {hasCurrentWordTimings(seg) ? (
+                <p
+                  className={`prose prose-lg prose-slate dark:prose-invert max-w-none mb-0 leading-relaxed ${
+                    isActive ? 'text-slate-900 dark:text-white font-medium' : 'text-slate-700 dark:text-slate-300'
+                  }`}
+                >
+                  <span className="font-bold text-primary dark:text-accent mr-1" style={speakerColor ? { color: speakerColor } : undefined}>{text.slice(turn.lineStart, turn.bodyStart).replace(/\*\*|__/g, '').trim()}</span>
+                  {seg.words!.map((word, wordIndex) => {
+                      const isSpoken = isActive && playbackTime >= word.start && playbackTime < word.end;
+                      const isUnsure = isLowConfidence(word);
+                      const isReviewWord = isReviewSegment && currentFlag?.kind === 'low-confidence' && currentFlag.time === word.start;
+                      return (
+                        <React.Fragment key={wordIndex}>
+                          <span
+                            onClick={(e) => { e.stopPropagation(); seekPlayback(word.start); }}
+                            title={isUnsure ? `Low confidence (${Math.round((word.confidence || 0) * 100)}%)` : undefined}
+                            className={`rounded transition-colors duration-150 ${
+                              isSpoken ? 'bg-primary/20 text-primary dark:text-accent' : 'hover:bg-slate-100 dark:hover:bg-white/10'
+                            } ${isUnsure ? 'underline decoration-dotted decoration-amber-500 underline-offset-4' : ''} ${isReviewWord ? 'bg-amber-200/70 dark:bg-amber-500/30' : ''}`}
+                          >
+                            {word.text}
+                          </span>{' '}
+                        </React.Fragment>
+                      );
+                  })}
+                </p>
+              ) : (
+                <ReactMarkdown
+                  className="prose prose-lg prose-slate dark:prose-invert max-w-none pointer-events-none"
+                  components={{
+                    p: ({node, ...props}: any) => (
+                      <p
+                        className={`mb-0 leading-relaxed ${
+                          isActive ? 'text-slate-900 dark:text-white font-medium' : 'text-slate-700 dark:text-slate-300'
+                        }`}
+                        {...props}
+                      />
+                    ),
+                    strong: ({node, ...props}: any) => (
+                      <span className="font-bold text-primary dark:text-accent" {...props} />
+                    )
+                  }}
+                >
+                  {text.slice(turn.lineStart, turn.end).trim()}
+                </ReactMarkdown>
+              )}
             </div>
           );
-      }
+
+          nodes.push(
+            isSplitView ? (
+              <div key={seg.id} className="grid grid-cols-2 gap-8 items-start">
+                {segmentNode}
+                {renderTranslation(translatedSegments.get(seg.id), isActive)}
+              </div>
+            ) : segmentNode
+          );
+      });
+      extraTranslations.forEach(segment => {
+          nodes.push(
+            <div key={`extra-${segment.id}`} className="grid grid-cols-2 gap-8 items-start">
+              <div />
+              {renderTranslation(segment, false)}
+            </div>
+          );
+      });
       return <div>{nodes}</div>;
-  }, [segments, text, playbackTime, onSeek]);
+  }, [segments, transcriptModel, text, playbackTime, seekPlayback, isSplitView, translation, translationModel, speakerColors, currentFlag]);
 
 
   // Auto-scroll logic
@@ -984,7 +1372,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
      if (!isEditing) {
          let currentSegmentIndex = -1;
          for (let i = 0; i < segments.length; i++) {
-             if (playbackTime >= segments[i].time) currentSegmentIndex = i;
+             if (playbackTime >= segments[i].start) currentSegmentIndex = i;
              else break;
          }
          if (currentSegmentIndex >= 0) {
@@ -996,6 +1384,85 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
      }
   }, [playbackTime, isEditing, segments]);
 
+  // --- Review Mode ---
+
+  const resolveFlag = (flag: ReviewFlag) => {
+      onReviewChange?.({ resolved: [...(review?.resolved || []), flag.key], applied: review?.applied || 0 });
+  };
+
+  const applyFlagChange = (newText: string) => {
+      updateText(newText);
+      onReviewChange?.({ resolved: review?.resolved || [], applied: (review?.applied || 0) + 1 });
+  };
+
+  /** Accepting keeps a flagged word (or applies an AI suggestion); rejecting asks for a correction (or drops the suggestion). */
+  const handleReviewDecision = (decision: 'accept' | 'reject') => {
+      if (!currentFlag) return;
+      if (currentFlag.changeId) {
+          resolveSuggestions([currentFlag.changeId], decision === 'accept' ? 'accepted' : 'rejected');
+          onReviewChange?.({ resolved: review?.resolved || [], applied: (review?.applied || 0) + 1 });
+      } else if (decision === 'reject') {
+          setCorrectionDraft(currentFlag.text);
+      } else {
+          resolveFlag(currentFlag);
+      }
+  };
+
+  const handleApplyCorrection = () => {
+      if (!currentFlag || correctionDraft === null) return;
+      const newText = applyCorrection(text, currentFlag, correctionDraft);
+      setCorrectionDraft(null);
+      if (newText === null) resolveFlag(currentFlag);
+      else applyFlagChange(newText);
+  };
+
+  const moveReview = (step: number) => {
+      if (pendingFlags.length === 0) return;
+      setCorrectionDraft(null);
+      setReviewIndex(index => (Math.min(index, pendingFlags.length - 1) + step + pendingFlags.length) % pendingFlags.length);
+  };
+
+  const playFlag = (flag: ReviewFlag) => {
+      // A little before a single word, so it is heard in context
+      if (flag.time !== null) seekPlayback(flag.kind === 'low-confidence' ? Math.max(0, flag.time - 1) : flag.time);
+  };
+
+  const exitReview = () => {
+      setIsReviewing(false);
+      setCorrectionDraft(null);
+  };
+
+  useEffect(() => {
+      if (!currentFlag || currentFlag.segmentIndex === -1) return;
+      document.querySelector(`[data-segment="${currentFlag.segmentIndex}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [currentFlag?.key, currentFlag?.segmentIndex]);
+
+  // Keyboard review: A accept, R reject, Space play, J/K or arrows to move, Esc to leave
+  const reviewKeysRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  reviewKeysRef.current = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'escape') exitReview();
+      else if (!currentFlag) return;
+      else if (key === 'a') handleReviewDecision('accept');
+      else if (key === 'r') handleReviewDecision('reject');
+      else if (key === ' ' || key === 'p') playFlag(currentFlag);
+      else if (key === 'j' || key === 'arrowdown' || key === 'arrowright') moveReview(1);
+      else if (key === 'k' || key === 'arrowup' || key === 'arrowleft') moveReview(-1);
+      else return;
+      e.preventDefault();
+  };
+
+  useEffect(() => {
+      if (!isReviewing || isEditing) return;
+      // The handler is read through a ref so it always sees the current text and history
+      const handleKeyDown = (e: KeyboardEvent) => reviewKeysRef.current(e);
+      document.addEventListener('keydown', handleKeyDown);
+      return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isReviewing, isEditing]);
+
   const isVideoFile = originalFile?.file?.type.startsWith('video/');
 
   return (
@@ -1056,6 +1523,9 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
                 {/* Undo/Redo */}
                 <button onClick={handleUndo} disabled={historyIndex === 0} className="w-8 h-8 rounded-2xl flex items-center justify-center text-slate-400 hover:text-primary hover:bg-slate-100 dark:hover:bg-dark-bg disabled:opacity-30 disabled:hover:text-slate-400 disabled:hover:bg-transparent transition-all" title="Undo"><ArrowArcLeft size={16} weight="bold"/></button>
                 <button onClick={handleRedo} disabled={historyIndex === history.length - 1} className="w-8 h-8 rounded-2xl flex items-center justify-center text-slate-400 hover:text-primary hover:bg-slate-100 dark:hover:bg-dark-bg disabled:opacity-30 disabled:hover:text-slate-400 disabled:hover:bg-transparent transition-all" title="Redo"><ArrowArcRight size={16} weight="bold"/></button>
+                {onSnapshotsChange && (
+                  <button onClick={() => setShowVersions(true)} className="w-8 h-8 rounded-2xl flex items-center justify-center text-slate-400 hover:text-primary hover:bg-slate-100 dark:hover:bg-dark-bg transition-all" title="Version history"><ClockCounterClockwise size={16} weight="bold"/></button>
+                )}
 
                 <div className="w-px h-5 bg-slate-200 dark:bg-dark-border mx-1"></div>
 
@@ -1131,6 +1601,61 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
 
                 <div className="w-px h-5 bg-slate-200 dark:bg-dark-border mx-1"></div>
 
+                {/* Reassign Speaker */}
+                <div className="relative">
+                    <button
+                      onMouseDown={e => e.preventDefault()}
+                      onClick={handleOpenSpeakerMenu}
+                      className={`flex items-center gap-1 px-3 py-1.5 rounded-2xl text-xs font-semibold transition-all ${activeMenu === 'speaker' ? 'bg-primary/10 text-primary' : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-dark-bg'}`}
+                      title="Move the selected words to another speaker"
+                    >
+                       <UserSwitch size={16} weight="duotone" />
+                       <CaretDown size={12} weight="bold" className={`transition-transform ${activeMenu === 'speaker' ? 'rotate-180' : ''}`}/>
+                    </button>
+                    {activeMenu === 'speaker' && passageSelection && (
+                        <div className="absolute top-full left-0 mt-2 bg-white dark:bg-dark-card rounded-2xl shadow-xl border border-slate-100 dark:border-dark-border z-50 p-2 w-64 animate-in fade-in slide-in-from-top-2">
+                            <p className="px-2.5 py-1.5 text-[10px] font-bold text-slate-400 dark:text-dark-muted uppercase tracking-wider">Move Selection To</p>
+                            <p className="px-2.5 pb-2 text-[11px] italic text-slate-500 dark:text-slate-400 line-clamp-2">
+                              "{passageSelection.text.slice(passageSelection.from, passageSelection.to).trim()}"
+                            </p>
+                            {parseTranscript(passageSelection.text).speakers.map((speaker, index) => (
+                              <button
+                                key={speaker.id}
+                                onClick={() => handleReassignPassage(speaker.label)}
+                                className="w-full flex items-center gap-2.5 px-2.5 py-2 text-left text-xs font-semibold text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-dark-bg rounded-lg transition-colors"
+                              >
+                                <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: getSpeakerColor(speakerProfiles, speaker.label, index) }} />
+                                <span className="truncate">{speaker.label}</span>
+                              </button>
+                            ))}
+                            <div className="flex items-center gap-1.5 mt-1 pt-2 border-t border-slate-100 dark:border-dark-border">
+                              <input
+                                value={newSpeakerName}
+                                onChange={e => setNewSpeakerName(e.target.value)}
+                                onKeyDown={e => { if (e.key === 'Enter') handleReassignPassage(newSpeakerName); }}
+                                placeholder="New speaker..."
+                                className="flex-1 min-w-0 text-xs px-2.5 py-1.5 rounded-lg border border-slate-200 dark:border-dark-border bg-slate-50 dark:bg-dark-bg focus:ring-2 focus:ring-primary/20 focus:border-primary outline-none transition-all font-medium"
+                              />
+                              <button
+                                onClick={() => handleReassignPassage(newSpeakerName)}
+                                disabled={!newSpeakerName.trim()}
+                                className="p-1.5 rounded-lg bg-primary text-white hover:bg-primary/90 disabled:opacity-50 transition-all"
+                                title="Move to new speaker"
+                              >
+                                <ArrowRight size={14} weight="bold" />
+                              </button>
+                            </div>
+                            <p className="px-2.5 pt-2 text-[10px] text-slate-400 dark:text-dark-muted">
+                              {playbackTime > 0
+                                ? `Timed from the playback position (${formatTranscriptTimestamp(Math.floor(playbackTime))}) when it falls in this turn.`
+                                : 'Timed from the words around the selection.'}
+                            </p>
+                        </div>
+                    )}
+                </div>
+
+                <div className="w-px h-5 bg-slate-200 dark:bg-dark-border mx-1"></div>
+
                 {/* Search */}
                 <div className="relative">
                     <button onClick={() => toggleMenu('search')} className={`w-8 h-8 rounded-2xl flex items-center justify-center transition-all ${activeMenu === 'search' ? 'bg-primary/10 text-primary' : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-dark-bg'}`} title="Find & Replace">
@@ -1143,12 +1668,7 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
                                 <p className="px-1 text-[10px] font-bold text-slate-400 dark:text-dark-muted uppercase tracking-wider mb-2">Detected Speakers/Characters</p>
                                 <div className="flex flex-wrap gap-1.5 max-h-24 overflow-y-auto custom-scrollbar p-1">
                                     {(() => {
-                                        // Extract speaker names from patterns like "Speaker A:", "Speaker 1:", "John:", etc.
-                                        // Updated regex to match more patterns including "Speaker A:", "Speaker B:", etc.
-                                        const speakerMatches = text.match(/(?:^|\n)\s*([A-Z][A-Za-z0-9\s]*?):/gm) || [];
-                                        const speakers = Array.from(new Set(
-                                            speakerMatches.map(match => match.replace(/^[\n\s]+/, '').replace(':', '').trim())
-                                        )).slice(0, 8);
+                                        const speakers = parseTranscript(text).speakers.map(speaker => speaker.label).slice(0, 8);
                                         
                                         if (speakers.length === 0) {
                                             return <p className="text-[10px] text-slate-400 italic px-1">No speakers/characters detected</p>;
@@ -1222,8 +1742,399 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
         <div className="flex-1 overflow-y-auto bg-slate-100 dark:bg-[#202124] custom-scrollbar">
           <div className="py-8 px-4">
             {/* The "Page" */}
-            <div id="printable-content" className="max-w-[816px] mx-auto bg-white dark:bg-dark-card rounded-xl shadow-sm border border-slate-200 dark:border-dark-border min-h-[1056px] p-12 sm:p-16">
+            <div id="printable-content" className={`${isSplitView ? 'max-w-[1280px]' : 'max-w-[816px]'} mx-auto bg-white dark:bg-dark-card rounded-xl shadow-sm border border-slate-200 dark:border-dark-border min-h-[1056px] p-12 sm:p-16 transition-[max-width] duration-300`}>
                
+               {/* Speaker Panel */}
+               {!isEditing && speakerStats.length > 0 && (
+                 <div className="mb-6">
+                    <button
+                      onClick={() => setShowSpeakerPanel(!showSpeakerPanel)}
+                      className={`inline-flex items-center gap-2 px-2.5 py-1 rounded-full border text-[10px] font-bold uppercase tracking-wider transition-colors ${
+                        showSpeakerPanel
+                          ? 'bg-primary/10 border-primary/20 text-primary dark:text-accent'
+                          : 'bg-slate-50 dark:bg-white/5 border-slate-200 dark:border-white/10 text-slate-500 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10'
+                      }`}
+                    >
+                       <Users size={12} weight="bold" />
+                       {speakerStats.length} {speakerStats.length === 1 ? 'Speaker' : 'Speakers'}
+                       <span className="flex -space-x-1">
+                         {speakerStats.slice(0, 6).map(({ speaker }) => (
+                           <span key={speaker.id} className="w-2.5 h-2.5 rounded-full ring-2 ring-white dark:ring-dark-card" style={{ backgroundColor: speakerColors.get(speaker.id) }} />
+                         ))}
+                       </span>
+                       <CaretDown size={10} weight="bold" className={`transition-transform ${showSpeakerPanel ? 'rotate-180' : ''}`} />
+                    </button>
+
+                    {showSpeakerPanel && (() => {
+                      const totalTalk = speakerStats.reduce((sum, stat) => sum + stat.talkSeconds, 0);
+                      return (
+                        <div className="mt-3 rounded-2xl border border-slate-200 dark:border-white/10 bg-slate-50/60 dark:bg-white/[0.03] p-2 space-y-1 animate-in fade-in slide-in-from-top-2">
+                          {speakerStats.map(({ speaker, turns, talkSeconds }) => {
+                            const color = speakerColors.get(speaker.id) || SPEAKER_COLORS[0];
+                            const share = totalTalk > 0 ? talkSeconds / totalTalk : 0;
+                            const otherSpeakers = speakerStats.filter(stat => stat.speaker.id !== speaker.id);
+                            return (
+                              <div key={speaker.id}>
+                                <div className="flex items-center gap-3 p-2 rounded-xl hover:bg-white dark:hover:bg-white/5 transition-colors">
+                                  <button
+                                    onClick={() => setColorPickerFor(colorPickerFor === speaker.label ? null : speaker.label)}
+                                    className="w-5 h-5 rounded-full shrink-0 ring-2 ring-white dark:ring-dark-card shadow-sm hover:scale-110 transition-transform"
+                                    style={{ backgroundColor: color }}
+                                    title="Change colour"
+                                  />
+                                  <div className="flex-1 min-w-0">
+                                    {editingSpeaker === speaker.label ? (
+                                      <input
+                                        autoFocus
+                                        value={speakerNameDraft}
+                                        onChange={e => setSpeakerNameDraft(e.target.value)}
+                                        onBlur={() => handleRenameSpeaker(speaker.label, speakerNameDraft)}
+                                        onKeyDown={e => {
+                                          if (e.key === 'Enter') e.currentTarget.blur();
+                                          if (e.key === 'Escape') setEditingSpeaker(null);
+                                        }}
+                                        className="w-full text-xs font-bold px-2 py-1 rounded-lg border border-primary/40 bg-white dark:bg-dark-bg text-slate-800 dark:text-white outline-none focus:ring-2 focus:ring-primary/20"
+                                      />
+                                    ) : (
+                                      <button
+                                        onClick={() => { setEditingSpeaker(speaker.label); setSpeakerNameDraft(speaker.label); }}
+                                        className="group/name flex items-center gap-1.5 text-xs font-bold text-slate-800 dark:text-white hover:text-primary dark:hover:text-accent transition-colors"
+                                        title="Rename everywhere"
+                                      >
+                                        <span className="truncate">{speaker.label}</span>
+                                        <PencilSimple size={11} weight="bold" className="opacity-0 group-hover/name:opacity-60 transition-opacity" />
+                                      </button>
+                                    )}
+                                    <div className="flex items-center gap-2 mt-1">
+                                      <div className="flex-1 h-1 rounded-full bg-slate-200/70 dark:bg-white/10 overflow-hidden">
+                                        <div className="h-full rounded-full" style={{ width: `${share * 100}%`, backgroundColor: color }} />
+                                      </div>
+                                      <span className="text-[10px] font-medium text-slate-400 dark:text-dark-muted whitespace-nowrap">
+                                        {turns} {turns === 1 ? 'turn' : 'turns'} · {formatTime(talkSeconds)}{totalTalk > 0 ? ` · ${Math.round(share * 100)}%` : ''}
+                                      </span>
+                                    </div>
+                                  </div>
+                                  {otherSpeakers.length > 0 && (
+                                    <select
+                                      value=""
+                                      onChange={e => e.target.value && handleRenameSpeaker(speaker.label, e.target.value)}
+                                      className="text-[10px] font-bold px-2 py-1.5 rounded-lg border border-slate-200 dark:border-white/10 bg-white dark:bg-dark-bg text-slate-500 dark:text-slate-300 outline-none"
+                                      title="Merge this speaker's turns into another speaker"
+                                    >
+                                      <option value="">Merge into…</option>
+                                      {otherSpeakers.map(other => (
+                                        <option key={other.speaker.id} value={other.speaker.label}>{other.speaker.label}</option>
+                                      ))}
+                                    </select>
+                                  )}
+                                  {turns > 1 && (
+                                    <button
+                                      onClick={() => handleStartSplit(speaker.label)}
+                                      className={`p-1.5 rounded-lg transition-colors ${splittingSpeaker === speaker.label ? 'bg-primary/10 text-primary' : 'text-slate-400 hover:text-primary hover:bg-slate-100 dark:hover:bg-white/10'}`}
+                                      title="Split: move some turns to another speaker"
+                                    >
+                                      <Scissors size={14} weight="bold" />
+                                    </button>
+                                  )}
+                                </div>
+
+                                {colorPickerFor === speaker.label && (
+                                  <div className="flex items-center gap-1.5 pl-10 pb-2">
+                                    {SPEAKER_COLORS.map(option => (
+                                      <button
+                                        key={option}
+                                        onClick={() => handleSpeakerColor(speaker.label, option)}
+                                        className={`w-5 h-5 rounded-full transition-transform hover:scale-110 ${option === color ? 'ring-2 ring-offset-2 ring-slate-400 dark:ring-offset-dark-card' : ''}`}
+                                        style={{ backgroundColor: option }}
+                                      />
+                                    ))}
+                                  </div>
+                                )}
+
+                                {splittingSpeaker === speaker.label && (
+                                  <div className="ml-10 mb-2 rounded-xl border border-slate-200 dark:border-white/10 bg-white dark:bg-dark-bg p-2">
+                                    <p className="px-1 pb-1.5 text-[10px] font-bold uppercase tracking-wider text-slate-400">Pick the turns to move</p>
+                                    <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-0.5">
+                                      {transcriptModel.segments.map((segment, index) => {
+                                        if (segment.speakerId !== speaker.id) return null;
+                                        const checked = splitSelection.includes(index);
+                                        return (
+                                          <label key={segment.id} className="flex items-start gap-2 px-1.5 py-1 rounded-lg text-xs text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-white/5 cursor-pointer">
+                                            <input
+                                              type="checkbox"
+                                              checked={checked}
+                                              onChange={() => setSplitSelection(checked ? splitSelection.filter(item => item !== index) : [...splitSelection, index])}
+                                              className="mt-0.5 accent-primary"
+                                            />
+                                            {segment.start !== null && (
+                                              <span className="font-mono text-[10px] text-slate-400 mt-0.5">{formatTranscriptTimestamp(segment.start)}</span>
+                                            )}
+                                            <span className="line-clamp-1">{segment.text}</span>
+                                          </label>
+                                        );
+                                      })}
+                                    </div>
+                                    <div className="flex items-center gap-2 mt-2">
+                                      <input
+                                        value={splitName}
+                                        onChange={e => setSplitName(e.target.value)}
+                                        list="speaker-labels"
+                                        className="flex-1 min-w-0 text-xs font-semibold px-2 py-1.5 rounded-lg border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-dark-card outline-none focus:ring-2 focus:ring-primary/20"
+                                        title="New or existing speaker"
+                                      />
+                                      <datalist id="speaker-labels">
+                                        {otherSpeakers.map(other => <option key={other.speaker.id} value={other.speaker.label} />)}
+                                      </datalist>
+                                      <button
+                                        onClick={() => setSplittingSpeaker(null)}
+                                        className="px-2.5 py-1.5 rounded-lg text-[11px] font-semibold text-slate-500 hover:bg-slate-100 dark:hover:bg-white/10"
+                                      >
+                                        Cancel
+                                      </button>
+                                      <button
+                                        onClick={handleSplitSpeaker}
+                                        disabled={splitSelection.length === 0 || !splitName.trim()}
+                                        className="px-2.5 py-1.5 rounded-lg text-[11px] font-semibold bg-primary text-white hover:bg-primary/90 disabled:opacity-50"
+                                      >
+                                        Move {splitSelection.length || ''} {splitSelection.length === 1 ? 'turn' : 'turns'}
+                                      </button>
+                                    </div>
+                                  </div>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      );
+                    })()}
+                 </div>
+               )}
+
+               {/* Translation Bar */}
+               {translation && !isEditing && (
+                 <div className="mb-6 flex flex-wrap items-center gap-2">
+                    <div className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-slate-50 dark:bg-white/5 border border-slate-200 dark:border-white/10 text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-300">
+                       <Translate size={12} weight="bold" />
+                       {translation.language}
+                    </div>
+                    {isTranslationStale && (
+                      <button
+                        onClick={handleTranslate}
+                        disabled={isTranslating}
+                        className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-amber-50 dark:bg-amber-500/10 border border-amber-200 dark:border-amber-500/30 text-[10px] font-bold uppercase tracking-wider text-amber-700 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-500/20 transition-colors disabled:opacity-60"
+                        title="The transcript was edited after it was translated"
+                      >
+                         {isTranslating ? <Spinner size={12} weight="bold" className="animate-spin" /> : <ArrowsClockwise size={12} weight="bold" />}
+                         {isTranslating ? (translationStatus || 'Translating...') : 'Out of date · Re-translate'}
+                      </button>
+                    )}
+                    <div className="ml-auto flex items-center gap-1">
+                      <button
+                        onClick={() => setShowTranslation(!showTranslation)}
+                        className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors ${
+                          showTranslation ? 'bg-primary/10 text-primary dark:text-accent' : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-white/5'
+                        }`}
+                      >
+                         <Columns size={12} weight="bold" />
+                         Side by Side
+                      </button>
+                      {onTranslationChange && (
+                        <button
+                          onClick={() => onTranslationChange(null)}
+                          className="p-1.5 rounded-full text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors"
+                          title="Remove translation"
+                        >
+                           <X size={12} weight="bold" />
+                        </button>
+                      )}
+                    </div>
+                 </div>
+               )}
+
+               {/* Suggested Edits */}
+               {suggestions && (
+                 activeSuggestions ? (
+                   <div className="mb-6 flex flex-wrap items-center gap-2">
+                      <div className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-primary/5 border border-primary/10 text-[10px] font-bold uppercase tracking-wider text-primary dark:text-accent">
+                         <MagicWand size={12} weight="bold" />
+                         {activeSuggestions.source} · {pendingChangeIds.length} {pendingChangeIds.length === 1 ? 'change' : 'changes'} to review
+                      </div>
+                      {isEditing && (
+                        <button
+                          onClick={() => onEditingChange(false)}
+                          className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider text-slate-500 hover:bg-slate-100 dark:hover:bg-white/5 transition-colors"
+                        >
+                           <Eye size={12} weight="bold" />
+                           Show Changes
+                        </button>
+                      )}
+                      <div className="ml-auto flex items-center gap-1">
+                        <button
+                          onClick={() => resolveSuggestions(pendingChangeIds, 'accepted')}
+                          className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-emerald-50 dark:bg-emerald-500/10 text-[10px] font-bold uppercase tracking-wider text-emerald-700 dark:text-emerald-300 hover:bg-emerald-100 dark:hover:bg-emerald-500/20 transition-colors"
+                        >
+                           <Checks size={12} weight="bold" />
+                           Accept All
+                        </button>
+                        <button
+                          onClick={() => resolveSuggestions(pendingChangeIds, 'rejected')}
+                          className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-red-50 dark:bg-red-500/10 text-[10px] font-bold uppercase tracking-wider text-red-600 dark:text-red-300 hover:bg-red-100 dark:hover:bg-red-500/20 transition-colors"
+                        >
+                           <X size={12} weight="bold" />
+                           Reject All
+                        </button>
+                      </div>
+                   </div>
+                 ) : (
+                   <div className="mb-6 flex items-center gap-2 px-3 py-2 rounded-xl bg-amber-50 dark:bg-amber-500/10 border border-amber-200 dark:border-amber-500/30 text-xs text-amber-700 dark:text-amber-300">
+                      <Warning size={14} weight="bold" />
+                      The transcript was edited after {suggestions.source} made its suggestions, so they no longer line up.
+                      <button
+                        onClick={() => onSuggestionsChange?.(null)}
+                        className="ml-auto px-2.5 py-1 rounded-lg font-bold hover:bg-amber-100 dark:hover:bg-amber-500/20 transition-colors"
+                      >
+                        Discard
+                      </button>
+                   </div>
+                 )
+               )}
+
+               {/* Review Mode & Versions */}
+               {!isEditing && !isReviewing && (reviewTotal > 0 || onSnapshotsChange) && (
+                   <div className="mb-6 flex flex-wrap items-center gap-2">
+                      {reviewTotal > 0 && (
+                      <button
+                        onClick={() => { setIsReviewing(true); setReviewIndex(0); }}
+                        className="inline-flex items-center gap-2 px-2.5 py-1 rounded-full border bg-slate-50 dark:bg-white/5 border-slate-200 dark:border-white/10 text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10 transition-colors"
+                        title="Step through low-confidence words, unclear audio, Pidgin terms and AI suggestions"
+                      >
+                         <ListChecks size={12} weight="bold" />
+                         {pendingFlags.length > 0 ? `Review · ${pendingFlags.length} to check` : 'Reviewed'}
+                         <span className="w-12 h-1 rounded-full bg-slate-200 dark:bg-white/10 overflow-hidden">
+                           <span className="block h-full bg-emerald-500" style={{ width: `${(reviewDone / reviewTotal) * 100}%` }} />
+                         </span>
+                         {reviewDone}/{reviewTotal}
+                      </button>
+                      )}
+                      {onSnapshotsChange && (
+                        <button
+                          onClick={() => setShowVersions(true)}
+                          className="inline-flex items-center gap-2 px-2.5 py-1 rounded-full border bg-slate-50 dark:bg-white/5 border-slate-200 dark:border-white/10 text-[10px] font-bold uppercase tracking-wider text-slate-500 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-white/10 transition-colors"
+                          title="Compare and restore saved versions"
+                        >
+                           <ClockCounterClockwise size={12} weight="bold" />
+                           {snapshots?.length ? `${snapshots.length} ${snapshots.length === 1 ? 'Version' : 'Versions'}` : 'Versions'}
+                        </button>
+                      )}
+                   </div>
+               )}
+               {!isEditing && isReviewing && (() => {
+                   if (!currentFlag) {
+                     return (
+                       <div className="sticky top-0 z-10 mb-6 flex items-center gap-3 p-3 rounded-xl bg-emerald-50 dark:bg-emerald-500/10 border border-emerald-200 dark:border-emerald-500/30 text-sm text-emerald-700 dark:text-emerald-300">
+                          <Checks size={16} weight="bold" />
+                          All {reviewTotal} flags reviewed.
+                          <button onClick={exitReview} className="ml-auto px-2.5 py-1 rounded-lg text-xs font-bold hover:bg-emerald-100 dark:hover:bg-emerald-500/20 transition-colors">
+                            Done
+                          </button>
+                       </div>
+                     );
+                   }
+                   const isEdit = currentFlag.kind === 'suggestion';
+                   const plain = (value: string) => value.replace(/\*\*|~~/g, '');
+                   const lineStart = text.lastIndexOf('\n', currentFlag.start - 1) + 1;
+                   const lineEnd = text.indexOf('\n', currentFlag.end);
+                   const beforeStart = Math.max(lineStart, currentFlag.start - 80);
+                   const afterEnd = Math.min(lineEnd === -1 ? text.length : lineEnd, currentFlag.end + 80);
+                   const position = Math.min(reviewIndex, pendingFlags.length - 1);
+                   return (
+                     <div className="sticky top-0 z-10 mb-6 p-4 rounded-xl bg-white/95 dark:bg-dark-card/95 backdrop-blur-sm border border-amber-200 dark:border-amber-500/30 shadow-sm">
+                        <div className="flex items-center gap-2 mb-2 text-[10px] font-bold uppercase tracking-wider">
+                           <span className="px-2 py-0.5 rounded-full bg-amber-50 dark:bg-amber-500/10 text-amber-700 dark:text-amber-300">
+                             {REVIEW_FLAG_LABELS[currentFlag.kind]}
+                             {currentFlag.confidence !== undefined && ` · ${Math.round(currentFlag.confidence * 100)}%`}
+                           </span>
+                           {currentFlag.time !== null && <span className="text-slate-400 font-mono">{formatTime(currentFlag.time)}</span>}
+                           <span className="ml-auto text-slate-400">
+                             {position + 1} of {pendingFlags.length} left · {reviewDone}/{reviewTotal} resolved
+                           </span>
+                        </div>
+                        <p className="text-sm leading-relaxed text-slate-600 dark:text-slate-300 mb-3">
+                          {beforeStart > lineStart && '…'}{plain(text.slice(beforeStart, currentFlag.start))}
+                          {isEdit ? (
+                            <>
+                              {currentFlag.text && <del className="px-0.5 rounded bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-300">{currentFlag.text}</del>}
+                              {currentFlag.replacement && <ins className="px-0.5 rounded no-underline bg-emerald-100 dark:bg-emerald-500/20 text-emerald-700 dark:text-emerald-300">{currentFlag.replacement}</ins>}
+                            </>
+                          ) : (
+                            <mark className="px-0.5 rounded bg-amber-200/70 dark:bg-amber-500/30 text-slate-900 dark:text-white">
+                              {currentFlag.text}
+                            </mark>
+                          )}
+                          {plain(text.slice(currentFlag.end, afterEnd))}{afterEnd < (lineEnd === -1 ? text.length : lineEnd) && '…'}
+                        </p>
+                        {correctionDraft !== null ? (
+                          <div className="flex items-center gap-2">
+                             <input
+                               autoFocus
+                               value={correctionDraft}
+                               onChange={(e) => setCorrectionDraft(e.target.value)}
+                               onKeyDown={(e) => {
+                                 if (e.key === 'Enter') handleApplyCorrection();
+                                 if (e.key === 'Escape') setCorrectionDraft(null);
+                               }}
+                               placeholder="Corrected text (empty to remove)"
+                               className="flex-1 px-3 py-1.5 rounded-lg bg-slate-50 dark:bg-white/5 border border-slate-200 dark:border-white/10 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary/30"
+                             />
+                             <button onClick={handleApplyCorrection} className="px-3 py-1.5 rounded-lg bg-primary text-white text-xs font-bold hover:bg-primary/90 transition-colors">
+                               Apply
+                             </button>
+                             <button onClick={() => setCorrectionDraft(null)} className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100 dark:hover:bg-white/5 transition-colors">
+                               Cancel
+                             </button>
+                          </div>
+                        ) : (
+                          <div className="flex flex-wrap items-center gap-1.5">
+                             <button onClick={() => moveReview(-1)} className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-white/5 transition-colors" title="Previous (K)">
+                               <CaretUp size={14} weight="bold" />
+                             </button>
+                             <button onClick={() => moveReview(1)} className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-white/5 transition-colors" title="Next (J)">
+                               <CaretDown size={14} weight="bold" />
+                             </button>
+                             <button
+                               onClick={() => handleReviewDecision('accept')}
+                               className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-emerald-50 dark:bg-emerald-500/10 text-emerald-700 dark:text-emerald-300 text-xs font-bold hover:bg-emerald-100 dark:hover:bg-emerald-500/20 transition-colors"
+                               title={isEdit ? 'Apply the suggestion (A)' : 'The text is right (A)'}
+                             >
+                               <Check size={12} weight="bold" /> {isEdit ? 'Apply' : 'Accept'}
+                               <kbd className="ml-1 text-[9px] opacity-60">A</kbd>
+                             </button>
+                             <button
+                               onClick={() => handleReviewDecision('reject')}
+                               className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-300 text-xs font-bold hover:bg-red-100 dark:hover:bg-red-500/20 transition-colors"
+                               title={isEdit ? 'Drop the suggestion (R)' : 'Correct the text (R)'}
+                             >
+                               <X size={12} weight="bold" /> {isEdit ? 'Drop' : 'Correct'}
+                               <kbd className="ml-1 text-[9px] opacity-60">R</kbd>
+                             </button>
+                             {currentFlag.time !== null && audioUrl && (
+                               <button
+                                 onClick={() => playFlag(currentFlag)}
+                                 className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-slate-600 dark:text-slate-300 text-xs font-bold hover:bg-slate-100 dark:hover:bg-white/5 transition-colors"
+                                 title="Jump to the audio (Space)"
+                               >
+                                 <Play size={12} weight="fill" /> Listen
+                               </button>
+                             )}
+                             <button onClick={exitReview} className="ml-auto px-2.5 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100 dark:hover:bg-white/5 transition-colors" title="Leave review (Esc)">
+                               Exit Review
+                             </button>
+                          </div>
+                        )}
+                     </div>
+                   );
+               })()}
+
                {/* Content Type Badge */}
                {contentType && (
                  <div className="mb-6 flex justify-start">
@@ -1248,7 +2159,47 @@ const TranscriptionEditor: React.FC<TranscriptionEditorProps> = ({
                      />
                   ) : (
                       <div key="read-mode" className="read-mode-content prose prose-lg prose-slate dark:prose-invert max-w-none">
-                         {highlightedText}
+                         {activeSuggestions ? (() => {
+                           // The suggested edits inline: removed text struck through, added text highlighted
+                           const { baseText, changes } = activeSuggestions;
+                           const nodes: React.ReactNode[] = [];
+                           let cursor = 0;
+                           changes.forEach(change => {
+                             nodes.push(baseText.slice(cursor, change.start));
+                             cursor = change.end;
+                             const original = baseText.slice(change.start, change.end);
+                             if (change.status !== 'pending') {
+                               nodes.push(change.status === 'accepted' ? change.insert : original);
+                               return;
+                             }
+                             nodes.push(
+                               <span key={change.id} className={`group/change relative rounded ${currentFlag?.changeId === change.id ? 'ring-2 ring-amber-400/60' : ''}`}>
+                                 {original && <del className="rounded px-0.5 bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-300 decoration-red-400">{original}</del>}
+                                 {change.insert && <ins className="rounded px-0.5 no-underline bg-emerald-50 dark:bg-emerald-500/10 text-emerald-700 dark:text-emerald-300">{change.insert}</ins>}
+                                 <span className="absolute left-0 top-full z-10 hidden group-hover/change:flex pt-2">
+                                   <span className="flex items-center gap-1 p-1 rounded-lg bg-white dark:bg-dark-card border border-slate-200 dark:border-dark-border shadow-lg">
+                                     <button
+                                       onClick={() => resolveSuggestions([change.id], 'accepted')}
+                                       className="p-1.5 rounded-md text-emerald-600 hover:bg-emerald-50 dark:hover:bg-emerald-500/10 transition-colors"
+                                       title="Accept change"
+                                     >
+                                       <Check size={12} weight="bold" />
+                                     </button>
+                                     <button
+                                       onClick={() => resolveSuggestions([change.id], 'rejected')}
+                                       className="p-1.5 rounded-md text-red-500 hover:bg-red-50 dark:hover:bg-red-500/10 transition-colors"
+                                       title="Reject change"
+                                     >
+                                       <X size={12} weight="bold" />
+                                     </button>
+                                   </span>
+                                 </span>
+                               </span>
+                             );
+                           });
+                           nodes.push(baseText.slice(cursor));
+                           return <div className="whitespace-pre-wrap text-base leading-8 text-slate-800 dark:text-slate-200">{nodes}</div>;
+                         })() : highlightedText}
 
                       </div>
                   )}
@@ -1537,6 +2488,41 @@ className={`flex items-center gap-2 p-2.5 rounded-xl border transition-all ${
                      </button>
                    </div>
                 </div>
+
+                {/* Translation Section */}
+                {onTranslationChange && (
+                <div>
+                   <p className="px-1 text-[9px] font-bold text-slate-400 uppercase tracking-widest mb-2 mt-4">Translation</p>
+                   <div className="flex items-center gap-2">
+                     <select
+                       value={translationLanguage}
+                       onChange={e => setTranslationLanguage(e.target.value)}
+                       disabled={isTranslating}
+                       className="flex-1 min-w-0 text-[11px] font-bold px-2.5 py-2.5 rounded-xl border border-slate-100 dark:border-dark-border bg-slate-50 dark:bg-dark-bg text-slate-600 dark:text-slate-300 outline-none focus:ring-2 focus:ring-primary/20"
+                     >
+                       {TRANSLATION_LANGUAGES.map(language => (
+                         <option key={language} value={language}>{language}</option>
+                       ))}
+                     </select>
+                     <button
+                       onClick={handleTranslate}
+                       disabled={isTranslating}
+                       className="flex items-center gap-2 px-3 py-2.5 rounded-xl border bg-teal-500 text-white border-teal-500 shadow-lg shadow-teal-500/20 hover:bg-teal-600 transition-all disabled:opacity-60"
+                     >
+                       {isTranslating ? <Spinner size={16} weight="bold" className="animate-spin" /> : <Translate size={16} weight="duotone" />}
+                       <span className="text-[11px] font-bold">{isTranslating ? 'Translating' : 'Translate'}</span>
+                     </button>
+                   </div>
+                   {isTranslating && translationStatus && (
+                     <p className="px-1 mt-2 text-[10px] text-slate-400 dark:text-dark-muted">{translationStatus}</p>
+                   )}
+                   {!isTranslating && (
+                     <p className="px-1 mt-2 text-[10px] text-slate-400 dark:text-dark-muted">
+                       Shown beside the transcript, turn by turn. Timestamps and speakers are kept.
+                     </p>
+                   )}
+                </div>
+                )}
               </React.Fragment>
             );
           })()}
@@ -1821,15 +2807,6 @@ className={`flex items-center gap-2 p-2.5 rounded-xl border transition-all ${
                                 />
                              )}
                           </div>
-                          {summaryTitle === "Smart Fix" && (
-                              <button 
-                                  onClick={handleApplyEnhancement}
-                                  className="w-full mt-4 bg-gradient-to-r from-primary to-purple-600 hover:from-primary/90 hover:to-purple-600/90 text-white font-bold py-3 rounded-xl text-sm flex items-center justify-center gap-2  transition-all active:scale-[0.98] flex-shrink-0"
-                              >
-                                  <Sparkle size={16} weight="fill" />
-                                  Apply to Document
-                              </button>
-                          )}
                         </>
                     ) : null}
                 </div>
@@ -1837,6 +2814,18 @@ className={`flex items-center gap-2 p-2.5 rounded-xl border transition-all ${
         )}
       </AnimatePresence>
 
+      {/* Version History */}
+      {showVersions && (
+        <VersionHistory
+          snapshots={snapshots || []}
+          currentText={text}
+          onSave={(name) => saveSnapshot(name, false)}
+          onRestore={handleRestoreSnapshot}
+          onDelete={(id) => onSnapshotsChange?.((snapshots || []).filter(snapshot => snapshot.id !== id))}
+          onClose={() => setShowVersions(false)}
+        />
+      )}
+
       {/* Toast Notification */}
       {toast && (
         <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[9999] animate-in fade-in slide-in-from-top-4 duration-300">
@@ -1870,6 +2859,7 @@ className={`flex items-center gap-2 p-2.5 rounded-xl border transition-all ${
                 audioUrl={audioUrl} 
                 onTimeUpdate={setPlaybackTime} 
                 seekToTime={seekToTime}
+                speakerSpans={speakerSpans}
               />
            </div>
         </div>
@@ -1889,21 +2879,6 @@ className={`flex items-center gap-2 p-2.5 rounded-xl border transition-all ${
         .custom-scrollbar::-webkit-scrollbar-thumb { background-color: #cbd5e1; border-radius: 20px; }
         .dark .custom-scrollbar::-webkit-scrollbar-thumb { background-color: #333; }
 
-        /* Interactive Strikethrough */
-        .interactive-strike { 
-            text-decoration: line-through; 
-            text-decoration-color: #ef4444; 
-            text-decoration-thickness: 2px;
-            color: #ef4444; 
-            opacity: 0.7;
-            cursor: pointer; 
-            transition: all 0.2s;
-        }
-        .interactive-strike:hover {
-            opacity: 1;
-            background-color: rgba(239, 68, 68, 0.1);
-        }
-        
         /* Heading Styles */
         h1 { font-size: 1.75em; font-weight: 700; margin-top: 0.8em; margin-bottom: 0.4em; color: #0f172a; line-height: 1.3; }
         h2 { font-size: 1.4em; font-weight: 600; margin-top: 1em; margin-bottom: 0.4em; color: #1e293b; line-height: 1.35; }
@@ -0,0 +1,230 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, ClockCounterClockwise, ArrowCounterClockwise, Trash, Columns, TextAlignLeft, BookmarkSimple, GitDiff } from '@phosphor-icons/react';
+import { TranscriptSnapshot } from '../types';
+import { diffTexts } from '../utils/trackedChanges';
+
+interface VersionHistoryProps {
+  snapshots: TranscriptSnapshot[];
+  currentText: string;
+  onSave: (name: string) => void;
+  onRestore: (snapshot: TranscriptSnapshot) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const countWords = (value: string) => (value.match(/\S+/g) || []).length;
+
+const formatSnapshotDate = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Saved versions of a tab's transcript: a list to restore from, and a
+ * word-level comparison of any two versions, inline or side by side.
+ */
+const VersionHistory: React.FC<VersionHistoryProps> = ({ snapshots, currentText, onSave, onRestore, onDelete, onClose }) => {
+  const [name, setName] = useState('');
+  const [fromId, setFromId] = useState(snapshots[0]?.id || CURRENT);
+  const [toId, setToId] = useState(CURRENT);
+  const [isSideBySide, setIsSideBySide] = useState(false);
+
+  const getText = (id: string) => (id === CURRENT ? currentText : snapshots.find(snapshot => snapshot.id === id)?.text ?? currentText);
+  const fromText = getText(fromId);
+  const toText = getText(toId);
+  const changes = useMemo(() => diffTexts(fromText, toText), [fromText, toText]);
+  const removedWords = changes.reduce((sum, change) => sum + countWords(fromText.slice(change.start, change.end)), 0);
+  const addedWords = changes.reduce((sum, change) => sum + countWords(change.insert), 0);
+
+  const options = [
+    ...snapshots.map(snapshot => ({ id: snapshot.id, label: `${snapshot.name} · ${formatSnapshotDate(snapshot.createdAt)}` })),
+    { id: CURRENT, label: 'Current text' }
+  ];
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+
+  const renderInline = () => {
+    const nodes: React.ReactNode[] = [];
+    let cursor = 0;
+    changes.forEach(change => {
+      nodes.push(fromText.slice(cursor, change.start));
+      cursor = change.end;
+      nodes.push(
+        <React.Fragment key={change.id}>
+          {change.end > change.start && <del className="rounded px-0.5 bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-300">{fromText.slice(change.start, change.end)}</del>}
+          {change.insert && <ins className="rounded px-0.5 no-underline bg-emerald-50 dark:bg-emerald-500/10 text-emerald-700 dark:text-emerald-300">{change.insert}</ins>}
+        </React.Fragment>
+      );
+    });
+    nodes.push(fromText.slice(cursor));
+    return nodes;
+  };
+
+  /** One side of the comparison: the text with its own part of each change highlighted. */
+  const renderSide = (side: 'from' | 'to') => {
+    const nodes: React.ReactNode[] = [];
+    const text = side === 'from' ? fromText : toText;
+    let cursor = 0;
+    let shift = 0;
+    changes.forEach(change => {
+      const start = side === 'from' ? change.start : change.start + shift;
+      const end = side === 'from' ? change.end : start + change.insert.length;
+      shift += change.insert.length - (change.end - change.start);
+      nodes.push(text.slice(cursor, start));
+      cursor = end;
+      if (end > start) {
+        nodes.push(
+          side === 'from'
+            ? <del key={change.id} className="rounded px-0.5 bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-300">{text.slice(start, end)}</del>
+            : <ins key={change.id} className="rounded px-0.5 no-underline bg-emerald-50 dark:bg-emerald-500/10 text-emerald-700 dark:text-emerald-300">{text.slice(start, end)}</ins>
+        );
+      }
+    });
+    nodes.push(text.slice(cursor));
+    return nodes;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.97 }}
+        animate={{ opacity: 1, scale: 1 }}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-6xl h-[85vh] flex rounded-2xl overflow-hidden bg-white dark:bg-dark-card border border-slate-200 dark:border-dark-border shadow-2xl"
+      >
+        {/* Versions */}
+        <div className="w-72 flex-none flex flex-col border-r border-slate-200 dark:border-dark-border bg-slate-50 dark:bg-dark-bg">
+          <div className="p-4 border-b border-slate-200 dark:border-dark-border">
+            <h3 className="flex items-center gap-2 text-sm font-bold text-slate-800 dark:text-dark-text mb-3">
+              <ClockCounterClockwise size={16} weight="bold" className="text-primary dark:text-accent" />
+              Version History
+            </h3>
+            <div className="flex items-center gap-1.5">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                placeholder="Name this version"
+                className="flex-1 min-w-0 px-2.5 py-1.5 rounded-lg bg-white dark:bg-dark-card border border-slate-200 dark:border-dark-border text-xs text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary/30"
+              />
+              <button
+                onClick={handleSave}
+                disabled={!name.trim()}
+                className="p-2 rounded-lg bg-primary text-white hover:bg-primary/90 disabled:opacity-40 transition-colors"
+                title="Save a snapshot of the current text"
+              >
+                <BookmarkSimple size={14} weight="bold" />
+              </button>
+            </div>
+          </div>
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+            {snapshots.length === 0 && (
+              <p className="px-2 py-4 text-xs text-slate-400 text-center">Versions are saved before AI actions and on export.</p>
+            )}
+            {[...snapshots].reverse().map(snapshot => (
+              <div
+                key={snapshot.id}
+                className={`group p-2.5 rounded-xl border transition-colors ${
+                  fromId === snapshot.id || toId === snapshot.id
+                    ? 'bg-white dark:bg-dark-card border-primary/30'
+                    : 'border-transparent hover:bg-white dark:hover:bg-dark-card'
+                }`}
+              >
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-xs truncate ${snapshot.automatic ? 'text-slate-600 dark:text-slate-300' : 'font-bold text-slate-900 dark:text-white'}`}>{snapshot.name}</p>
+                    <p className="text-[10px] text-slate-400">{formatSnapshotDate(snapshot.createdAt)} · {countWords(snapshot.text)} words</p>
+                  </div>
+                  <button
+                    onClick={() => onDelete(snapshot.id)}
+                    className="p-1 rounded text-slate-300 opacity-0 group-hover:opacity-100 hover:text-red-500 transition-all"
+                    title="Delete version"
+                  >
+                    <Trash size={12} weight="bold" />
+                  </button>
+                </div>
+                <div className="flex items-center gap-1 mt-2">
+                  <button
+                    onClick={() => { setFromId(snapshot.id); setToId(CURRENT); }}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold text-slate-500 hover:bg-slate-100 dark:hover:bg-white/5 transition-colors"
+                  >
+                    <GitDiff size={11} weight="bold" /> Compare
+                  </button>
+                  <button
+                    onClick={() => onRestore(snapshot)}
+                    disabled={snapshot.text === currentText}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold text-primary dark:text-accent hover:bg-primary/5 disabled:opacity-40 transition-colors"
+                  >
+                    <ArrowCounterClockwise size={11} weight="bold" /> Restore
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Comparison */}
+        <div className="flex-1 min-w-0 flex flex-col">
+          <div className="flex flex-wrap items-center gap-2 p-4 border-b border-slate-200 dark:border-dark-border">
+            <select
+              value={fromId}
+              onChange={(e) => setFromId(e.target.value)}
+              className="max-w-[240px] text-xs px-2.5 py-1.5 rounded-lg border border-slate-200 dark:border-dark-border bg-white dark:bg-dark-bg text-slate-700 dark:text-slate-200 outline-none"
+            >
+              {options.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+            </select>
+            <span className="text-xs text-slate-400">→</span>
+            <select
+              value={toId}
+              onChange={(e) => setToId(e.target.value)}
+              className="max-w-[240px] text-xs px-2.5 py-1.5 rounded-lg border border-slate-200 dark:border-dark-border bg-white dark:bg-dark-bg text-slate-700 dark:text-slate-200 outline-none"
+            >
+              {options.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+            </select>
+            <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">
+              <span className="text-red-500">−{removedWords}</span> / <span className="text-emerald-600">+{addedWords}</span> words
+            </span>
+            <div className="ml-auto flex items-center gap-1">
+              <button
+                onClick={() => setIsSideBySide(false)}
+                className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors ${
+                  !isSideBySide ? 'bg-primary/10 text-primary dark:text-accent' : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-white/5'
+                }`}
+              >
+                <TextAlignLeft size={12} weight="bold" /> Inline
+              </button>
+              <button
+                onClick={() => setIsSideBySide(true)}
+                className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors ${
+                  isSideBySide ? 'bg-primary/10 text-primary dark:text-accent' : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-white/5'
+                }`}
+              >
+                <Columns size={12} weight="bold" /> Side by Side
+              </button>
+              <button onClick={onClose} className="ml-2 p-1.5 rounded-lg text-slate-400 hover:bg-slate-100 dark:hover:bg-white/5 transition-colors">
+                <X size={16} weight="bold" />
+              </button>
+            </div>
+          </div>
+          {changes.length === 0 ? (
+            <div className="flex-1 flex items-center justify-center text-sm text-slate-400">These versions are the same.</div>
+          ) : isSideBySide ? (
+            <div className="flex-1 min-h-0 grid grid-cols-2 divide-x divide-slate-200 dark:divide-dark-border">
+              <div className="overflow-y-auto custom-scrollbar p-6 whitespace-pre-wrap text-sm leading-7 text-slate-700 dark:text-slate-300">{renderSide('from')}</div>
+              <div className="overflow-y-auto custom-scrollbar p-6 whitespace-pre-wrap text-sm leading-7 text-slate-700 dark:text-slate-300">{renderSide('to')}</div>
+            </div>
+          ) : (
+            <div className="flex-1 overflow-y-auto custom-scrollbar p-6 whitespace-pre-wrap text-sm leading-7 text-slate-700 dark:text-slate-300">{renderInline()}</div>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+export default VersionHistory;
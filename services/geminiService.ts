@@ -1,6 +1,13 @@
 import { blobToBase64 } from "../utils/audioUtils";
 import { logger } from "../utils/logger";
-import { AI_MODELS, FALLBACK_CONFIG } from "../src/config/aiModels";
+import { AI_MODELS, FALLBACK_CONFIG, PROXY_RATE_LIMITS } from "../src/config/aiModels";
+import { TranscriptWord } from "../types";
+import { buildTimedMarkdown, parseTranscript, serializeTranscript } from "../utils/transcriptModel";
+import { TranscriptionCancelledError, bindXhrToSignal, isAbortError, sleep, throwIfAborted } from "../utils/abortUtils";
+import { createRateLimiter } from "../utils/concurrency";
+import { hashBlob, sha256Hex } from "../utils/hashing";
+import { getArrayField, getNumberField, getStringField } from "../utils/jsonGuards";
+import { deleteGeminiUpload, loadGeminiUpload, saveGeminiUpload } from "./storageService";
 
 // Explicit MIME type mapping to ensure API compatibility
 const MIME_TYPE_MAP: Record<string, string> = {
@@ -25,6 +32,13 @@ const MIME_TYPE_MAP: Record<string, string> = {
 
 const USE_SERVER_PROXY = import.meta.env.VITE_GEMINI_USE_PROXY === 'true';
 
+// One budget per proxy endpoint, shared by every job and chunk in flight
+const proxyLimiters = {
+  generate: createRateLimiter(PROXY_RATE_LIMITS.GENERATE, PROXY_RATE_LIMITS.WINDOW_MS),
+  uploadInit: createRateLimiter(PROXY_RATE_LIMITS.UPLOAD_INIT, PROXY_RATE_LIMITS.WINDOW_MS),
+  poll: createRateLimiter(PROXY_RATE_LIMITS.POLL, PROXY_RATE_LIMITS.WINDOW_MS)
+};
+
 const getMimeTypeFromExtension = (filename: string): string | null => {
 
   const ext = filename.split('.').pop()?.toLowerCase();
@@ -48,21 +62,27 @@ const getActiveApiKey = (attempt: number): string => {
 /**
  * Generic wrapper for Gemini AI Generation requests with manual XHR for maximum stability.
  * This bypasses the SDK's internal fetch() to prevent "Failed to fetch" errors.
+ * Aborting `signal` cancels the request in flight and any pending retry cooldown.
  */
 async function executeGaiRequest(
   payload: any,
   model: string,
   onStatus?: StatusCallback,
   attempt: number = 0,
-  timeoutMs: number = 300000
+  timeoutMs: number = 300000,
+  signal?: AbortSignal
 ): Promise<any> {
   const apiKey = getActiveApiKey(attempt);
   const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
 
   try {
+      throwIfAborted(signal);
       if (USE_SERVER_PROXY) {
+        await proxyLimiters.generate.acquire(signal);
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+        const onAbort = () => controller.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
 
         try {
           const response = await fetch('/api/gemini', {
@@ -84,6 +104,7 @@ async function executeGaiRequest(
           return data;
         } finally {
           clearTimeout(timeoutId);
+          signal?.removeEventListener('abort', onAbort);
         }
       }
 
@@ -114,10 +135,12 @@ async function executeGaiRequest(
       xhr.onerror = () => reject(new Error("Network connection lost during AI generation."));
       xhr.ontimeout = () => reject(new Error(`AI generation timed out (${Math.round(timeoutMs / 60000)} minutes). Please try again.`));
       xhr.timeout = timeoutMs;
+      bindXhrToSignal(xhr, signal, reject);
 
       xhr.send(JSON.stringify(payload));
     });
   } catch (error: any) {
+    if (signal?.aborted) throw new TranscriptionCancelledError();
     logger.error(`AI Request Attempt ${attempt + 1} Failed`, { model, error: error.message });
 
     const msg = error.message?.toLowerCase() || "";
@@ -134,13 +157,13 @@ async function executeGaiRequest(
       if (isRateLimited && import.meta.env.VITE_GEMINI_USE_PROXY === 'true') {
         const minutes = isLastDitch ? 3 : 2;
         onStatus?.(`Cooling down for ${minutes} minutes...`, 60);
-        await new Promise(r => setTimeout(r, minutes * 60 * 1000));
+        await sleep(minutes * 60 * 1000, signal);
       } else {
         const delay = Math.pow(2, attempt) * 1000;
-        await new Promise(r => setTimeout(r, delay));
+        await sleep(delay, signal);
       }
 
-      return executeGaiRequest(payload, model, onStatus, attempt + 1, timeoutMs);
+      return executeGaiRequest(payload, model, onStatus, attempt + 1, timeoutMs, signal);
     }
     throw error;
 
@@ -150,15 +173,64 @@ async function executeGaiRequest(
 
 export type StatusCallback = (message: string, progress?: number) => void;
 
+/** The part of the Files API metadata the upload flow reads. */
+interface GeminiFileState {
+  name?: string;
+  state?: 'STATE_UNSPECIFIED' | 'PROCESSING' | 'ACTIVE' | 'FAILED';
+}
+
+/**
+ * Reads an uploaded file's metadata; `state` is ACTIVE once it can be used in a request.
+ */
+const fetchGeminiFileState = async (pollPath: string, attempt: number, signal?: AbortSignal): Promise<GeminiFileState> => {
+  if (USE_SERVER_PROXY) {
+    await proxyLimiters.poll.acquire(signal);
+    const response = await fetch('/api/gemini-poll', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fileName: pollPath }),
+      signal
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Polling failed with status: ${response.status} ${text}`);
+    }
+
+    return response.json();
+  }
+
+  return new Promise<GeminiFileState>((resolve, reject) => {
+    const pollUrl = `https://generativelanguage.googleapis.com/v1beta/${pollPath}?key=${getActiveApiKey(attempt)}`;
+    const xhr = new XMLHttpRequest();
+    xhr.open('GET', pollUrl);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        try { resolve(JSON.parse(xhr.responseText)); }
+        catch (e) { reject(new Error("Failed to parse server status.")); }
+      } else {
+        reject(new Error(`Polling failed with status: ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Network link lost during server processing..."));
+    xhr.ontimeout = () => reject(new Error("Status polling timed out (30 seconds)."));
+    xhr.timeout = 30000; // 30 seconds for polling
+    bindXhrToSignal(xhr, signal, reject);
+    xhr.send();
+  });
+};
+
 /**
  * Helper to upload large files to Gemini API with XHR for better stability and progress tracking.
+ * Resolves with the file URI and the attempt whose API key made the upload.
  */
 const uploadFileToGemini = async (
   mediaFile: File | Blob, 
   mimeType: string, 
   onStatus?: StatusCallback,
-  attempt: number = 0
-): Promise<string> => {
+  attempt: number = 0,
+  signal?: AbortSignal
+): Promise<{ fileUri: string; attempt: number }> => {
   const apiKey = getActiveApiKey(attempt);
   const uploadUrl = `https://generativelanguage.googleapis.com/upload/v1beta/files?key=${apiKey}`;
   const displayName = mediaFile instanceof File ? mediaFile.name : 'uploaded_media';
@@ -169,7 +241,9 @@ const uploadFileToGemini = async (
     // 1. Initial request to get the resumable session URL using XHR for maximum stability
     let sessionUrl: string;
     try {
+      throwIfAborted(signal);
       if (USE_SERVER_PROXY) {
+        await proxyLimiters.uploadInit.acquire(signal);
         const response = await fetch('/api/gemini-upload-init', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
@@ -177,11 +251,12 @@ const uploadFileToGemini = async (
             displayName,
             mimeType,
             size: mediaFile.size
-          })
+          }),
+          signal
         });
 
         if (response.status === 429) {
-          return uploadFileToGemini(mediaFile, mimeType, onStatus, attempt + 1);
+          return uploadFileToGemini(mediaFile, mimeType, onStatus, attempt + 1, signal);
         }
 
         if (!response.ok) {
@@ -220,17 +295,19 @@ const uploadFileToGemini = async (
           xhr.onerror = () => reject(new Error("Network connection failed during upload initialization."));
           xhr.ontimeout = () => reject(new Error("Upload initialization timed out (30 seconds)."));
           xhr.timeout = 30000; // 30 seconds for init
+          bindXhrToSignal(xhr, signal, reject);
           xhr.send(JSON.stringify({ file: { display_name: displayName, mime_type: mimeType } }));
         });
       }
     } catch (e: any) {
-      if (e.isRateLimit) return uploadFileToGemini(mediaFile, mimeType, onStatus, attempt + 1);
+      if (e.isRateLimit) return uploadFileToGemini(mediaFile, mimeType, onStatus, attempt + 1, signal);
       throw e;
     }
 
 
 
     // 2. Perform the actual upload using XHR for better progress and reliability
+    throwIfAborted(signal);
     const fileInfo = await new Promise<any>((resolve, reject) => {
       const xhr = new XMLHttpRequest();
       xhr.open('POST', sessionUrl);
@@ -260,6 +337,7 @@ const uploadFileToGemini = async (
       xhr.onerror = () => reject(new Error("Network error during upload (XHR)."));
       xhr.ontimeout = () => reject(new Error("File upload timed out (30 minutes)."));
       xhr.timeout = 1800000; // 30 minutes for upload (support up to 2GB)
+      bindXhrToSignal(xhr, signal, reject);
       xhr.send(mediaFile);
     });
 
@@ -281,53 +359,23 @@ const uploadFileToGemini = async (
     const pollPath = fileName.startsWith('files/') ? fileName : `files/${fileName}`;
     
     while (retries < MAX_POLL_RETRIES) {
+      throwIfAborted(signal);
       try {
-        const pollData = USE_SERVER_PROXY
-          ? await (async () => {
-              const response = await fetch('/api/gemini-poll', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ fileName: pollPath })
-              });
-
-              if (!response.ok) {
-                const text = await response.text();
-                throw new Error(`Polling failed with status: ${response.status} ${text}`);
-              }
-
-              return response.json();
-            })()
-          : await new Promise<any>((resolve, reject) => {
-              const pollUrl = `https://generativelanguage.googleapis.com/v1beta/${pollPath}?key=${getActiveApiKey(attempt)}`;
-              const xhr = new XMLHttpRequest();
-              xhr.open('GET', pollUrl);
-              xhr.onload = () => {
-                if (xhr.status >= 200 && xhr.status < 300) {
-                  try { resolve(JSON.parse(xhr.responseText)); }
-                  catch (e) { reject(new Error("Failed to parse server status.")); }
-                } else {
-                  reject(new Error(`Polling failed with status: ${xhr.status}`));
-                }
-              };
-              xhr.onerror = () => reject(new Error("Network link lost during server processing..."));
-              xhr.ontimeout = () => reject(new Error("Status polling timed out (30 seconds)."));
-              xhr.timeout = 30000; // 30 seconds for polling
-              xhr.send();
-            });
-
+        const pollData = await fetchGeminiFileState(pollPath, attempt, signal);
         
-        if (pollData.state === 'ACTIVE') return fileUri;
+        if (pollData.state === 'ACTIVE') return { fileUri, attempt };
         if (pollData.state === 'FAILED') throw new Error("File processing failed on server.");
       } catch (pollErr: any) {
         // If it's a network error or timeout during polling, we don't want to crash. 
         // We just log it and let the loop retry.
+        if (signal?.aborted) throw new TranscriptionCancelledError();
         logger.warn(`Polling attempt ${retries + 1} encountered an issue: ${pollErr.message}. Retrying...`);
         if (pollErr.message.includes("failed on server")) throw pollErr; 
       }
       
       // Dynamic delay: Start fast, slow down to 4s for long-running processes
       const delay = retries < 10 ? 2000 : 4000;
-      await new Promise(r => setTimeout(r, delay));
+      await sleep(delay, signal);
       
       retries++;
       // Visual progress capped at 99% for polling
@@ -336,16 +384,137 @@ const uploadFileToGemini = async (
     }
     throw new Error("Polling timeout: File took too long to process on server. (Max 15 minutes reached)");
   } catch (error: any) {
+    if (signal?.aborted) throw new TranscriptionCancelledError();
     logger.error("Upload process failed", error);
     if ((error.message.includes('429') || error.message.includes('fetch')) && attempt < 1) {
-      return uploadFileToGemini(mediaFile, mimeType, onStatus, attempt + 1);
+      return uploadFileToGemini(mediaFile, mimeType, onStatus, attempt + 1, signal);
     }
     throw error;
   }
 };
 
+// Gemini keeps uploaded files for 48 hours; reuse stops an hour short of that
+const UPLOAD_REUSE_MS = 47 * 60 * 60 * 1000;
+
+// Uploads belong to the project of the key (or proxy) that made them
+const getUploadOwner = async (attempt: number) =>
+  USE_SERVER_PROXY ? 'proxy' : (await sha256Hex(getActiveApiKey(attempt) || '')).slice(0, 12);
+
+// One attempt per distinct key an upload can have been made with
+const getUploadKeyAttempts = () =>
+  !USE_SERVER_PROXY && getActiveApiKey(FALLBACK_CONFIG.SWITCH_TO_BACKUP_KEY_ATTEMPT) !== getActiveApiKey(0)
+    ? [0, FALLBACK_CONFIG.SWITCH_TO_BACKUP_KEY_ATTEMPT]
+    : [0];
+
+/**
+ * Uploads media once per content: an earlier upload of the same bytes is reused
+ * while Gemini still reports it ACTIVE, so re-transcribing does not upload again.
+ */
+const uploadOrReuseGeminiFile = async (
+  mediaFile: File | Blob,
+  mimeType: string,
+  onStatus?: StatusCallback,
+  signal?: AbortSignal
+): Promise<string> => {
+  const contentKey = await hashBlob(mediaFile).then(hash => `${hash}:${mimeType}`).catch(() => null);
+  if (contentKey) {
+    for (const keyAttempt of getUploadKeyAttempts()) {
+      const stored = await getUploadOwner(keyAttempt)
+        .then(owner => loadGeminiUpload(`${contentKey}:${owner}`))
+        .catch(() => null);
+      if (!stored) continue;
+      try {
+        // Poll with the key that made the upload; other projects cannot see the file
+        const fileName = stored.fileUri.slice(stored.fileUri.indexOf('files/'));
+        const fileState = await fetchGeminiFileState(fileName, keyAttempt, signal);
+        if (fileState.state === 'ACTIVE') {
+          onStatus?.('Reusing the earlier upload of this media...', 50);
+          return stored.fileUri;
+        }
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+      }
+      await deleteGeminiUpload(stored.key).catch(() => undefined);
+    }
+  }
+
+  const { fileUri, attempt } = await uploadFileToGemini(mediaFile, mimeType, onStatus, 0, signal);
+  if (contentKey) {
+    getUploadOwner(attempt)
+      .then(owner => saveGeminiUpload({ key: `${contentKey}:${owner}`, fileUri, expiresAt: new Date(Date.now() + UPLOAD_REUSE_MS).toISOString() }))
+      .catch(error => logger.warn('Could not remember Gemini upload', { error: error.message }));
+  }
+  return fileUri;
+};
+
+// Structured output schema for word-timed transcription
+const WORD_TIMED_SCHEMA = {
+  type: "OBJECT",
+  properties: {
+    turns: {
+      type: "ARRAY",
+      items: {
+        type: "OBJECT",
+        properties: {
+          speaker: { type: "STRING" },
+          words: {
+            type: "ARRAY",
+            items: {
+              type: "OBJECT",
+              properties: {
+                text: { type: "STRING" },
+                start: { type: "NUMBER" },
+                end: { type: "NUMBER" },
+                confidence: { type: "NUMBER" }
+              },
+              required: ["text", "start", "end"]
+            }
+          }
+        },
+        required: ["words"]
+      }
+    }
+  },
+  required: ["turns"]
+};
+
+/**
+ * Converts the JSON returned in word-timestamp mode into transcript markdown plus a flat word list.
+ */
+export const parseWordTimedResponse = (raw: string): { text: string; words: TranscriptWord[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch (e) {
+    throw new Error("Failed to parse word timings from AI response.");
+  }
+
+  const turns = getArrayField(data, 'turns').map(turn => ({
+    speaker: getStringField(turn, 'speaker')?.trim() || null,
+    words: getArrayField(turn, 'words').flatMap((word): TranscriptWord[] => {
+      const text = getStringField(word, 'text');
+      const start = getNumberField(word, 'start');
+      if (text === undefined || start === undefined) return [];
+      const end = getNumberField(word, 'end');
+      const confidence = getNumberField(word, 'confidence');
+      return [{
+        text,
+        start,
+        end: end !== undefined && end >= start ? end : start,
+        ...(confidence !== undefined ? { confidence: Math.max(0, Math.min(1, confidence)) } : {})
+      }];
+    })
+  }));
+
+  const words = turns.flatMap(turn => turn.words);
+  if (words.length === 0) throw new Error("No transcription generated (Empty response). Gemini returned no words.");
+  return { text: buildTimedMarkdown(turns), words };
+};
+
 /**
  * Transcribes audio or video using Gemini models.
+ * With `wordTimestamps` the raw structured JSON is returned; read it with `parseWordTimedResponse`.
+ * Aborting `signal` stops the upload, the request and any retry, and rejects with TranscriptionCancelledError.
  */
 export const transcribeAudio = async (
   mediaFile: File | Blob, 
@@ -353,8 +522,11 @@ export const transcribeAudio = async (
   autoEdit: boolean = false, 
   detectSpeakers: boolean = true,
   useSmartModel: boolean = true,
-  onStatus?: StatusCallback
+  onStatus?: StatusCallback,
+  wordTimestamps: boolean = false,
+  signal?: AbortSignal
 ): Promise<string> => {
+  throwIfAborted(signal);
   onStatus?.("Preparing Media for AI Engine...", 2);
 
   // --- 1. PREPARE CONTENT (Upload ONCE) ---
@@ -383,7 +555,7 @@ export const transcribeAudio = async (
     } else {
       // Upload logic handles its own errors
       // This happens BEFORE the retry loop, so we don't re-upload on 429/503
-      const fileUri = await uploadFileToGemini(mediaFile, finalMimeType, onStatus);
+      const fileUri = await uploadOrReuseGeminiFile(mediaFile, finalMimeType, onStatus, signal);
       contentPart = {
         fileData: {
           mimeType: finalMimeType,
@@ -392,6 +564,7 @@ export const transcribeAudio = async (
       };
     }
   } catch (prepError: any) {
+    if (isAbortError(prepError)) throw prepError;
     logger.error("Media Preparation Failed", prepError);
     throw new Error(`Media Upload Failed: ${prepError.message}`);
   }
@@ -462,8 +635,21 @@ export const transcribeAudio = async (
         Output only the transcription. No preamble.
       `;
 
+      // WORD-TIMED PROMPT (structured JSON output)
+      const wordTimedPrompt = `
+        Start now. Transcribe the audio file ${autoEdit ? 'using "Intelligent Verbatim" standards (remove stutters and non-meaningful fillers)' : 'exactly as spoken (100% Verbatim)'}.
+
+        RULES:
+        1. ${speakerInstruction}
+        2. Transcribe Pidgin English and dialects EXACTLY as spoken. Do not translate or "correct" them.
+        3. Group words into speaker turns. ${detectSpeakers ? 'Set "speaker" on every turn.' : 'Leave "speaker" empty.'}
+        4. For EVERY word give "start" and "end" in seconds from the start of the file (decimals allowed) and "confidence" from 0 to 1.
+        5. Keep punctuation attached to its word. Do not use markdown.
+      `;
+
       onStatus?.(`Generating transcription with ${modelName}...`, 60);
 
+      throwIfAborted(signal);
       const fakeProgressTimer = setInterval(() => {
          const msgs = ["Decoding audio structure...", "Aligning timestamps...", "Transcribing speech segments...", "Verifying speaker identity..."];
          onStatus?.(msgs[Math.floor(Math.random() * msgs.length)]);
@@ -473,15 +659,20 @@ export const transcribeAudio = async (
         contents: [{
           parts: [
             contentPart,
-            { text: autoEdit ? autoEditPrompt : rawPrompt }
+            { text: wordTimestamps ? wordTimedPrompt : autoEdit ? autoEditPrompt : rawPrompt }
           ]
-        }]
+        }],
+        ...(wordTimestamps ? {
+          generationConfig: { responseMimeType: "application/json", responseSchema: WORD_TIMED_SCHEMA }
+        } : {})
       };
- 
-       const response = await executeGaiRequest(payload, modelName, onStatus, attempt, 600000);
 
-      
-      clearInterval(fakeProgressTimer);
+      let response: any;
+      try {
+        response = await executeGaiRequest(payload, modelName, onStatus, attempt, 600000, signal);
+      } finally {
+        clearInterval(fakeProgressTimer);
+      }
 
        if (response.text) {
            onStatus?.("Transcription complete.", 100);
@@ -490,6 +681,7 @@ export const transcribeAudio = async (
        throw new Error("No transcription generated (Empty response). Gemini returned no text.");
 
     } catch (error: any) {
+      if (isAbortError(error) || signal?.aborted) throw new TranscriptionCancelledError();
       logger.error(`Transcription Attempt ${attempt + 1} Failed`, { model: currentModel, error: error.message });
       
       const errorMsg = error.message?.toLowerCase() || "";
@@ -509,7 +701,7 @@ export const transcribeAudio = async (
       // 1. High Demand / Rate Limit -> Switch to High-Availability Model (Fast)
       if (isRateLimited) {
          onStatus?.("High demand detected. Rerouting to high-availability engine...", 70);
-         await new Promise(r => setTimeout(r, 2000));
+         await sleep(2000, signal);
          return executeGeneration(attempt + 1, FALLBACK_MODEL);
       }
 
@@ -517,7 +709,7 @@ export const transcribeAudio = async (
       if ((isNetwork || isServer)) {
          const delay = (attempt + 1) * FALLBACK_CONFIG.RETRY_DELAY_MS;
          onStatus?.(`Re-establishing secure connection (Attempt ${attempt + 1})...`, 60);
-         await new Promise(r => setTimeout(r, delay));
+         await sleep(delay, signal);
          
          // If we've retried the same model too many times, switch to fast model
          if (attempt > FALLBACK_CONFIG.SWITCH_TO_FAST_MODEL_ATTEMPT) {
@@ -529,12 +721,12 @@ export const transcribeAudio = async (
       // 3. Last Resort -> Switch Key + Flash (Explicit Strategy)
       if (attempt >= FALLBACK_CONFIG.SWITCH_TO_BACKUP_KEY_ATTEMPT) {
          onStatus?.(`Switching to backup engine... (Attempt ${attempt + 1}/${maxRetries})`, 60);
-         await new Promise(r => setTimeout(r, 2000));
+         await sleep(2000, signal);
          return executeGeneration(attempt + 1, FALLBACK_MODEL);
       }
       
       // Default retry
-      await new Promise(r => setTimeout(r, 2000));
+      await sleep(2000, signal);
       return executeGeneration(attempt + 1, FALLBACK_MODEL);
     }
   };
@@ -542,6 +734,7 @@ export const transcribeAudio = async (
   try {
     return await executeGeneration();
   } catch (error: any) {
+    if (isAbortError(error)) throw error;
     logger.error("Final Transcription Failure", error);
     
     let userMessage = "An unexpected error occurred during transcription.";
@@ -567,9 +760,10 @@ export const transcribeAudio = async (
 };
 
 /**
- * Classifies the content type based on the text.
+ * Classifies the content type based on the text. Resolves null when it cannot
+ * tell, so no placeholder category ends up in the Sessions filters.
  */
-export const classifyContent = async (text: string): Promise<string> => {
+export const classifyContent = async (text: string): Promise<string | null> => {
   const model = AI_MODELS.FAST; 
   const sample = text.substring(0, 2000);
   const prompt = `Classify this text into one category: Song, Podcast, Interview, Meeting, Lecture, Video, Voice Note, News. Return ONLY the category name.\n\nText:\n${sample}`;
@@ -578,10 +772,10 @@ export const classifyContent = async (text: string): Promise<string> => {
     const payload = { contents: [{ parts: [{ text: prompt }] }] };
       const response = await executeGaiRequest(payload, model, undefined, 0, 120000);
 
-    return String(response.text || "").trim() || "Unknown";
+    return String(response.text || "").trim() || null;
   } catch (e) {
     logger.warn("Classification failed", e);
-    return "Media";
+    return null;
   }
 };
  
@@ -619,6 +813,96 @@ export const summarizeText = async (text: string, useSmartModel: boolean = false
   }
 };
 
+// Passages per translation request, kept small enough that the model returns every one of them
+const TRANSLATION_BATCH_PASSAGES = 40;
+const TRANSLATION_BATCH_CHARS = 8000;
+
+const TRANSLATION_SCHEMA = {
+  type: "OBJECT",
+  properties: {
+    translations: { type: "ARRAY", items: { type: "STRING" } }
+  },
+  required: ["translations"]
+};
+
+const parseTranslationResponse = (raw: string, expected: number): string[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch (e) {
+    throw new Error("Failed to parse the translation from AI response.");
+  }
+  const translations = getArrayField(data, 'translations');
+  const passages = translations.filter((item): item is string => typeof item === 'string');
+  if (translations.length !== expected || passages.length !== expected) {
+    throw new Error(`The translation came back with ${translations.length} passages instead of ${expected}. Please try again.`);
+  }
+  return passages.map(item => item.trim());
+};
+
+/**
+ * Translates a transcript segment by segment. Only the spoken text is sent;
+ * timestamps, speaker labels and the segment order are kept from the original,
+ * so the translation lines up with it turn for turn.
+ */
+export const translateTranscript = async (
+  text: string,
+  targetLanguage: string,
+  useSmartModel: boolean = false,
+  onStatus?: StatusCallback
+): Promise<string> => {
+  const model = useSmartModel ? AI_MODELS.PRIMARY : AI_MODELS.FAST;
+  const transcript = parseTranscript(text);
+  const passages = [transcript.preamble, ...transcript.segments.map(segment => segment.text)];
+
+  const batches: number[][] = [];
+  let current: number[] = [];
+  let currentChars = 0;
+  passages.forEach((passage, index) => {
+    if (!passage.trim()) return;
+    if (current.length && (current.length >= TRANSLATION_BATCH_PASSAGES || currentChars + passage.length > TRANSLATION_BATCH_CHARS)) {
+      batches.push(current);
+      current = [];
+      currentChars = 0;
+    }
+    current.push(index);
+    currentChars += passage.length;
+  });
+  if (current.length) batches.push(current);
+
+  const translated = [...passages];
+  for (let i = 0; i < batches.length; i += 1) {
+    onStatus?.(`Translating part ${i + 1} of ${batches.length}...`, Math.round((i / batches.length) * 100));
+    const items = batches[i].map(index => passages[index]);
+    const prompt = `
+      Translate each passage of this transcript into ${targetLanguage}.
+
+      STRICT RULES:
+      - Return JSON: {"translations": [...]} with exactly ${items.length} strings, one per passage, in the same order.
+      - Never merge, split, drop or reorder passages.
+      - Keep inline [MM:SS] timestamps, bracketed tags such as [inaudible] or [crosstalk], and markdown emphasis exactly where they are.
+      - Translate the meaning naturally, keeping the speaker's register; explain nothing and add no notes.
+      - A passage already in ${targetLanguage} is returned unchanged.
+
+      Passages:
+      ${JSON.stringify(items)}
+    `;
+    const payload = {
+      contents: [{ parts: [{ text: prompt }] }],
+      generationConfig: { responseMimeType: "application/json", responseSchema: TRANSLATION_SCHEMA }
+    };
+    const response = await executeGaiRequest(payload, model, onStatus, 0, 120000);
+    const result = parseTranslationResponse(String(response.text || ''), items.length);
+    batches[i].forEach((index, k) => { translated[index] = result[k]; });
+  }
+
+  return serializeTranscript({
+    ...transcript,
+    preamble: translated[0],
+    segments: transcript.segments.map((segment, index) => ({ ...segment, text: translated[index + 1] }))
+  });
+};
+
 export const enhanceFormatting = async (text: string, contextType: string = "General", useSmartModel: boolean = false): Promise<string> => {
   const model = useSmartModel ? AI_MODELS.PRIMARY : AI_MODELS.FAST;
   
@@ -629,9 +913,7 @@ export const enhanceFormatting = async (text: string, contextType: string = "Gen
     
     STRICT EDITING RULES:
     1. **Semantic Cleanup**: Remove stutters, redundant repetitions, and excessive fillers (um, uh, like, you know) ONLY if they don't contribute to tone.
-    2. **Interactive Tracking**: 
-       - If you delete a word/phrase, wrap it in ~~strikethrough~~ (e.g., ~~um~~).
-       - If you add or correct a word for clarity/grammar, wrap it in **bold** (e.g., **correction**).
+    2. **Clean Output**: Make your deletions and corrections directly. Do NOT mark them with strikethrough or bold; your edits are compared with the original and shown to the user for review.
     3. **Professional Structure**: 
        - Insert thematic Markdown headings (# or ##) where the topic shifts.
        - Use horizontal rules (---) to separate major sections.
@@ -741,7 +1023,11 @@ export const findDiscussionBounds = async (text: string, useSmartModel: boolean
    }
  };
  
-export const refineSpeakers = async (text: string, useSmartModel: boolean = true): Promise<string> => {
+/**
+ * Suggests real names and roles for generic speaker labels.
+ * Labels in `keepLabels` were confirmed by the user and are left as they are.
+ */
+export const refineSpeakers = async (text: string, useSmartModel: boolean = true, keepLabels: string[] = []): Promise<string> => {
   const model = useSmartModel ? AI_MODELS.PRIMARY : AI_MODELS.FAST;
   const prompt = `
     Review the following West African transcript and refine the speaker labels. 
@@ -755,6 +1041,7 @@ export const refineSpeakers = async (text: string, useSmartModel: boolean = true
     - Preserve all original formatting, bolding, and italics.
     - Do NOT include any introductory text, notes, or concluding summaries.
     - If you cannot identify any names, return the transcript exactly as is.
+    ${keepLabels.length ? `- These speaker labels were confirmed by the user; never rename them or move their turns: ${keepLabels.join(', ')}.` : ''}
   `;
   
   try {
@@ -791,7 +1078,7 @@ export const analyzeVideoContent = async (mediaFile: File | Blob): Promise<strin
         const base64Data = await blobToBase64(mediaFile);
         contentPart = { inlineData: { mimeType: finalMimeType, data: base64Data } };
       } else {
-        const fileUri = await uploadFileToGemini(mediaFile, finalMimeType);
+        const fileUri = await uploadOrReuseGeminiFile(mediaFile, finalMimeType);
         contentPart = { fileData: { mimeType: finalMimeType, fileUri: fileUri } };
       }
   
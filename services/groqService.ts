@@ -2,6 +2,11 @@
  * Service for interacting with Groq's high-speed AI models
  * Specifically used for Whisper-based speech-to-text
  */
+import { TranscriptWord } from "../types";
+import { buildTimedMarkdown } from "../utils/transcriptModel";
+import { bindXhrToSignal, throwIfAborted } from "../utils/abortUtils";
+import { getArrayField, getNumberField, getStringField } from "../utils/jsonGuards";
+import { formatTranscriptTimestamp } from "../utils/timestampUtils";
 
 export const transcribeWithGroq = async (
   mediaFile: File | Blob,
@@ -9,10 +14,15 @@ export const transcribeWithGroq = async (
     language?: string;
     prompt?: string;
     model?: string;
+    /** 'verbose_json' returns the raw JSON with segment and word timings */
+    responseFormat?: 'text' | 'verbose_json';
     onStatus?: (message: string) => void;
+    /** Aborts the upload and rejects with TranscriptionCancelledError */
+    signal?: AbortSignal;
   } = {}
 ): Promise<string> => {
-  const { onStatus } = options;
+  const { onStatus, signal } = options;
+  throwIfAborted(signal);
   onStatus?.(`Initializing Groq engine (${options.model || 'whisper-large-v3'})...`);
   const apiKey = import.meta.env.VITE_GROQ_API_KEY;
 
@@ -56,7 +66,11 @@ export const transcribeWithGroq = async (
     formData.append('prompt', "This is a transcript. Maintain all speaker technicalities. If verbatim, keep stutters. If polish, clean up fillers but keep meaning.");
   }
 
-  formData.append('response_format', 'text');
+  formData.append('response_format', options.responseFormat || 'text');
+  if (options.responseFormat === 'verbose_json') {
+    formData.append('timestamp_granularities[]', 'word');
+    formData.append('timestamp_granularities[]', 'segment');
+  }
 
   try {
     onStatus?.("Dispatching to Groq edge network...");
@@ -81,6 +95,7 @@ export const transcribeWithGroq = async (
       xhr.onerror = () => reject(new Error("Network connection error during Groq transcription."));
       xhr.ontimeout = () => reject(new Error("Groq engine timed out (2 minutes)."));
       xhr.timeout = 120000; // 2 minutes for Groq
+      bindXhrToSignal(xhr, signal, reject);
       xhr.send(formData);
     });
     return text;
@@ -109,3 +124,47 @@ export const transcribeAudioChunk = async (
     onStatus: (msg) => console.log(`[Chunk] ${msg}`)
   });
 };
+
+/**
+ * Converts a Groq `verbose_json` response into transcript markdown plus word timings.
+ * Whisper gives no per-word confidence, so each word takes its segment's average token probability.
+ */
+export const parseGroqVerboseResponse = (raw: string, offsetSeconds: number = 0): { text: string; words: TranscriptWord[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (e) {
+    throw new Error("Failed to parse Groq word timings.");
+  }
+
+  const segments = getArrayField(data, 'segments').flatMap(seg => {
+    const start = getNumberField(seg, 'start');
+    const end = getNumberField(seg, 'end');
+    return start !== undefined && end !== undefined ? [{ start, end, avgLogprob: getNumberField(seg, 'avg_logprob') }] : [];
+  });
+
+  const words: TranscriptWord[] = getArrayField(data, 'words').flatMap((word): TranscriptWord[] => {
+    const text = getStringField(word, 'word');
+    const start = getNumberField(word, 'start');
+    if (text === undefined || start === undefined) return [];
+    const segment = segments.find(seg => start >= seg.start && start < seg.end);
+    const confidence = segment?.avgLogprob !== undefined ? Math.exp(segment.avgLogprob) : undefined;
+    return [{
+      text: text.trim(),
+      start: start + offsetSeconds,
+      end: (getNumberField(word, 'end') ?? start) + offsetSeconds,
+      ...(confidence !== undefined ? { confidence: Math.min(1, confidence) } : {})
+    }];
+  });
+
+  // One turn per Whisper segment keeps timestamps frequent enough for playback sync
+  const turns = segments.map(seg => ({
+    speaker: null,
+    words: words.filter(word => word.start - offsetSeconds >= seg.start && word.start - offsetSeconds < seg.end)
+  }));
+  // Without word timings the text still opens at the part's start, so it never sits untimed in a timed transcript
+  const plain = getStringField(data, 'text')?.trim();
+  const text = buildTimedMarkdown(turns) || (plain ? `[${formatTranscriptTimestamp(offsetSeconds)}] ${plain}` : '');
+
+  return { text, words };
+};
@@ -0,0 +1,453 @@
+import { ArchiveItem, AudioSource, EditorTab, TranscriptionProviderId, TranscriptWord } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * IndexedDB storage for archived transcripts, open-tab drafts and their media.
+ * localStorage caps out at a few MB and cannot hold blobs, so recordings and
+ * uploads used to be lost on reload.
+ */
+
+const DB_NAME = 'scribe_ai';
+const DB_VERSION = 2;
+const ARCHIVE_STORE = 'archive';
+const DRAFT_STORE = 'drafts';
+const MEDIA_STORE = 'media';
+const TRANSCRIPT_CACHE_STORE = 'transcriptCache';
+const GEMINI_UPLOAD_STORE = 'geminiUploads';
+// Cached transcripts kept; the least recently saved go first
+const TRANSCRIPT_CACHE_LIMIT = 200;
+const CURRENT_DRAFT_KEY = 'current';
+
+// Pre-IndexedDB localStorage keys, migrated on first open
+const LEGACY_ARCHIVE_KEY = 'archive_items';
+const LEGACY_DRAFT_KEY = 'scribe_tab_drafts';
+
+export interface DraftPayload {
+  activeTabId: string | null;
+  activeSource: AudioSource | null;
+  tabs: Array<Pick<EditorTab, 'id' | 'title' | 'transcription' | 'contentType' | 'isEditorMode' | 'showAiSidebar' | 'mediaId'>>;
+  updatedAt: string;
+}
+
+export type StoredMediaKind = 'recording' | 'file';
+
+export interface StoredMedia {
+  id: string;
+  blob: Blob;
+  name: string;
+  type: string;
+  kind: StoredMediaKind;
+  size: number;
+  savedAt: string;
+}
+
+/** A finished transcription, keyed by a hash of the media and the options that shaped it */
+export interface CachedTranscription {
+  key: string;
+  text: string;
+  engine: TranscriptionProviderId;
+  words?: TranscriptWord[];
+  savedAt: string;
+}
+
+/** A file already uploaded to the Gemini Files API, keyed by a hash of its content */
+export interface StoredGeminiUpload {
+  key: string;
+  fileUri: string;
+  expiresAt: string;
+}
+
+export class StorageQuotaError extends Error {
+  constructor(message = 'Browser storage is full. Delete old sessions from the archive to keep saving audio.') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+    tx.onerror = () => reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+  });
+
+const readLegacyJson = <T>(key: string): T | null => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : null;
+  } catch (error) {
+    logger.warn(`Ignoring unreadable legacy storage key "${key}"`, { error: (error as Error).message });
+    return null;
+  }
+};
+
+/**
+ * Copies archive items and tab drafts out of localStorage, then removes the
+ * old keys once the copy has committed. Object URLs in old items are dead by
+ * now, so they are dropped.
+ */
+const migrateLegacyStorage = async (db: IDBDatabase) => {
+  const legacyItems = readLegacyJson<ArchiveItem[]>(LEGACY_ARCHIVE_KEY);
+  const legacyDraft = readLegacyJson<DraftPayload>(LEGACY_DRAFT_KEY);
+  if (!legacyItems && !legacyDraft) return;
+
+  const tx = db.transaction([ARCHIVE_STORE, DRAFT_STORE], 'readwrite');
+  const archive = tx.objectStore(ARCHIVE_STORE);
+  (Array.isArray(legacyItems) ? legacyItems : []).forEach((item, index) => {
+    const { audioUrl: _audioUrl, ...rest } = item;
+    archive.put({ ...rest, order: index });
+  });
+  if (legacyDraft?.tabs?.length) {
+    tx.objectStore(DRAFT_STORE).put(legacyDraft, CURRENT_DRAFT_KEY);
+  }
+  await transactionDone(tx);
+
+  localStorage.removeItem(LEGACY_ARCHIVE_KEY);
+  localStorage.removeItem(LEGACY_DRAFT_KEY);
+  logger.info('Migrated archive and drafts from localStorage to IndexedDB', {
+    items: Array.isArray(legacyItems) ? legacyItems.length : 0,
+    tabs: legacyDraft?.tabs?.length || 0
+  });
+};
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!isIndexedDbAvailable()) {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ARCHIVE_STORE)) db.createObjectStore(ARCHIVE_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DRAFT_STORE)) db.createObjectStore(DRAFT_STORE);
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(TRANSCRIPT_CACHE_STORE)) db.createObjectStore(TRANSCRIPT_CACHE_STORE, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(GEMINI_UPLOAD_STORE)) db.createObjectStore(GEMINI_UPLOAD_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async db => {
+      try {
+        await migrateLegacyStorage(db);
+      } catch (error) {
+        // Leave the legacy keys in place so the next load can retry
+        logger.error('Failed to migrate localStorage data', { error: (error as Error).message });
+      }
+      return db;
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// --- Archive ---
+
+// What the archive store holds per id (the exact object saved, and its order), so saves only write changes
+let storedArchive = new Map<string, { item: ArchiveItem; order: number }>();
+
+/**
+ * Loads archived transcripts, newest first. Queued jobs that were running when
+ * the page closed go back into the queue; older items without a job are marked as interrupted.
+ */
+export const loadArchiveItems = async (): Promise<ArchiveItem[]> => {
+  if (!isIndexedDbAvailable()) {
+    const legacy = readLegacyJson<ArchiveItem[]>(LEGACY_ARCHIVE_KEY);
+    return Array.isArray(legacy) ? legacy : [];
+  }
+
+  const db = await openDatabase();
+  const records = await requestToPromise(db.transaction(ARCHIVE_STORE).objectStore(ARCHIVE_STORE).getAll()) as Array<ArchiveItem & { order: number }>;
+  const sorted = records.sort((a, b) => a.order - b.order);
+  const items = sorted.map(({ order: _order, ...item }): ArchiveItem => {
+    if (item.status !== 'loading') return item;
+    if (item.job) return { ...item, status: 'queued', job: { ...item.job, statusMessage: undefined } };
+    return { ...item, status: 'error', progress: 0, error: 'Transcription was interrupted when the page closed.' };
+  });
+  // Items rewritten above (interrupted jobs) differ from their record, so the next save writes them
+  storedArchive = new Map(items.map((item, index) => [item.id, { item, order: sorted[index].order }]));
+  return items;
+};
+
+/**
+ * Order values for a save. Items already stored keep theirs while the list keeps
+ * their relative order, and new items slot in between, so adding an item does not
+ * rewrite every other one; a reordered list is renumbered.
+ */
+const getArchiveOrders = (items: ArchiveItem[]) => {
+  const previous = items.map(item => storedArchive.get(item.id)?.order);
+  const known = previous.filter((order): order is number => order !== undefined);
+  const orders = new Map<string, number>();
+  if (known.some((order, index) => index > 0 && order <= known[index - 1])) {
+    items.forEach((item, index) => orders.set(item.id, index));
+    return orders;
+  }
+
+  let last: number | undefined;
+  items.forEach((item, index) => {
+    let order = previous[index];
+    if (order === undefined) {
+      const next = previous.slice(index + 1).find(value => value !== undefined);
+      if (last === undefined) order = next === undefined ? index : next - 1;
+      else order = next === undefined ? last + 1 : (last + next) / 2;
+    }
+    orders.set(item.id, order);
+    last = order;
+  });
+  return orders;
+};
+
+/**
+ * Makes the stored archive match the given items, keeping their order. Only
+ * items that changed since the last save are written, and only removed ones deleted.
+ */
+export const saveArchiveItems = async (items: ArchiveItem[]) => {
+  const serializable = items.map(({ audioUrl: _audioUrl, ...item }) => item);
+  if (!isIndexedDbAvailable()) {
+    localStorage.setItem(LEGACY_ARCHIVE_KEY, JSON.stringify(serializable));
+    return;
+  }
+
+  const orders = getArchiveOrders(items);
+  const db = await openDatabase();
+  const tx = db.transaction(ARCHIVE_STORE, 'readwrite');
+  const store = tx.objectStore(ARCHIVE_STORE);
+  storedArchive.forEach((_stored, id) => {
+    if (!orders.has(id)) store.delete(id);
+  });
+  items.forEach((item, index) => {
+    const stored = storedArchive.get(item.id);
+    const order = orders.get(item.id)!;
+    if (stored?.item === item && stored.order === order) return;
+    store.put({ ...serializable[index], order });
+  });
+  await transactionDone(tx);
+  storedArchive = new Map(items.map(item => [item.id, { item, order: orders.get(item.id)! }]));
+};
+
+// --- Drafts ---
+
+export const loadDraft = async (): Promise<DraftPayload | null> => {
+  if (!isIndexedDbAvailable()) return readLegacyJson<DraftPayload>(LEGACY_DRAFT_KEY);
+
+  const db = await openDatabase();
+  const draft = await requestToPromise(db.transaction(DRAFT_STORE).objectStore(DRAFT_STORE).get(CURRENT_DRAFT_KEY));
+  return (draft as DraftPayload | undefined) || null;
+};
+
+export const saveDraft = async (payload: DraftPayload) => {
+  if (!isIndexedDbAvailable()) {
+    localStorage.setItem(LEGACY_DRAFT_KEY, JSON.stringify(payload));
+    return;
+  }
+
+  const db = await openDatabase();
+  const tx = db.transaction(DRAFT_STORE, 'readwrite');
+  tx.objectStore(DRAFT_STORE).put(payload, CURRENT_DRAFT_KEY);
+  await transactionDone(tx);
+};
+
+// --- Media ---
+
+const listMediaByAge = async (db: IDBDatabase) => {
+  const records = await requestToPromise(db.transaction(MEDIA_STORE).objectStore(MEDIA_STORE).getAll()) as StoredMedia[];
+  return records.sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+};
+
+const putMedia = async (db: IDBDatabase, record: StoredMedia) => {
+  const tx = db.transaction(MEDIA_STORE, 'readwrite');
+  tx.objectStore(MEDIA_STORE).put(record);
+  await transactionDone(tx);
+};
+
+let persistenceRequested = false;
+
+/**
+ * Media of archive items with a queue job (queued, running or paused), which
+ * the job cannot run or resume without; every saveMedia caller protects these.
+ */
+export const getJobMediaIds = (items: ArchiveItem[]) =>
+  items.filter(item => item.job && item.mediaId).map(item => item.mediaId as string);
+
+/**
+ * Stores a media blob. When the browser quota is hit, the oldest media not in
+ * `protectedIds` is evicted until the blob fits; transcripts are never evicted.
+ * Throws StorageQuotaError when nothing more can be freed.
+ */
+export const saveMedia = async (
+  id: string,
+  blob: Blob,
+  meta: { name: string; kind: StoredMediaKind },
+  protectedIds: string[] = []
+) => {
+  if (!isIndexedDbAvailable()) return;
+  const db = await openDatabase();
+
+  if (!persistenceRequested) {
+    persistenceRequested = true;
+    // Ask the browser not to clear our data under storage pressure
+    navigator.storage?.persist?.().catch(() => undefined);
+  }
+
+  const record: StoredMedia = {
+    id,
+    blob,
+    name: meta.name,
+    type: blob.type,
+    kind: meta.kind,
+    size: blob.size,
+    savedAt: new Date().toISOString()
+  };
+
+  const estimate = await navigator.storage?.estimate?.().catch(() => null);
+  if (estimate?.quota && blob.size > estimate.quota) {
+    throw new StorageQuotaError(`"${meta.name}" is larger than this browser's storage allowance.`);
+  }
+
+  for (;;) {
+    try {
+      await putMedia(db, record);
+      return;
+    } catch (error) {
+      if (!(error instanceof StorageQuotaError)) throw error;
+      const keep = new Set([...protectedIds, id]);
+      const victim = (await listMediaByAge(db)).find(media => !keep.has(media.id));
+      if (!victim) throw error;
+      logger.warn('Storage quota reached, evicting oldest saved media', { id: victim.id, name: victim.name, size: victim.size });
+      await deleteMedia(victim.id);
+    }
+  }
+};
+
+export const loadMedia = async (id: string): Promise<StoredMedia | null> => {
+  if (!isIndexedDbAvailable()) return null;
+  const db = await openDatabase();
+  const record = await requestToPromise(db.transaction(MEDIA_STORE).objectStore(MEDIA_STORE).get(id));
+  return (record as StoredMedia | undefined) || null;
+};
+
+export const hasMedia = async (id: string) => {
+  if (!isIndexedDbAvailable()) return false;
+  const db = await openDatabase();
+  const count = await requestToPromise(db.transaction(MEDIA_STORE).objectStore(MEDIA_STORE).count(id));
+  return count > 0;
+};
+
+export const deleteMedia = async (id: string) => {
+  if (!isIndexedDbAvailable()) return;
+  const db = await openDatabase();
+  const tx = db.transaction(MEDIA_STORE, 'readwrite');
+  tx.objectStore(MEDIA_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+/**
+ * Deletes stored media no open tab or archive item refers to any more.
+ */
+export const pruneMedia = async (referencedIds: string[]) => {
+  if (!isIndexedDbAvailable()) return;
+  const db = await openDatabase();
+  const keep = new Set(referencedIds);
+  const keys = await requestToPromise(db.transaction(MEDIA_STORE).objectStore(MEDIA_STORE).getAllKeys());
+  const orphaned = keys.map(String).filter(key => !keep.has(key));
+  if (orphaned.length === 0) return;
+
+  const tx = db.transaction(MEDIA_STORE, 'readwrite');
+  const store = tx.objectStore(MEDIA_STORE);
+  orphaned.forEach(key => store.delete(key));
+  await transactionDone(tx);
+};
+
+/**
+ * Turns stored media back into the shapes tabs use, with fresh object URLs.
+ */
+export const restoreMedia = (media: StoredMedia): Pick<EditorTab, 'recordedBlob' | 'micUrl' | 'uploadedFile'> => {
+  if (media.kind === 'recording') {
+    return { recordedBlob: media.blob, micUrl: URL.createObjectURL(media.blob), uploadedFile: null };
+  }
+  const file = new File([media.blob], media.name, { type: media.type });
+  return {
+    recordedBlob: null,
+    micUrl: null,
+    uploadedFile: { file, previewUrl: URL.createObjectURL(file), base64: null, mimeType: media.type }
+  };
+};
+
+/**
+ * Picks the media blob a tab should persist, if it has one.
+ */
+export const getTabMedia = (tab: Pick<EditorTab, 'recordedBlob' | 'uploadedFile'>): { blob: Blob; name: string; kind: StoredMediaKind } | null => {
+  if (tab.uploadedFile?.file) return { blob: tab.uploadedFile.file, name: tab.uploadedFile.file.name, kind: 'file' };
+  if (tab.recordedBlob) return { blob: tab.recordedBlob, name: 'Voice Recording', kind: 'recording' };
+  return null;
+};
+
+// --- Transcription cache ---
+
+export const loadCachedTranscription = async (key: string): Promise<CachedTranscription | null> => {
+  if (!isIndexedDbAvailable()) return null;
+  const db = await openDatabase();
+  const record = await requestToPromise(db.transaction(TRANSCRIPT_CACHE_STORE).objectStore(TRANSCRIPT_CACHE_STORE).get(key));
+  return (record as CachedTranscription | undefined) || null;
+};
+
+export const saveCachedTranscription = async (entry: CachedTranscription) => {
+  if (!isIndexedDbAvailable()) return;
+  const db = await openDatabase();
+  const tx = db.transaction(TRANSCRIPT_CACHE_STORE, 'readwrite');
+  const store = tx.objectStore(TRANSCRIPT_CACHE_STORE);
+  store.put(entry);
+  const entries = await requestToPromise(store.getAll()) as CachedTranscription[];
+  entries
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+    .slice(TRANSCRIPT_CACHE_LIMIT)
+    .forEach(stale => store.delete(stale.key));
+  await transactionDone(tx);
+};
+
+export const loadGeminiUpload = async (key: string): Promise<StoredGeminiUpload | null> => {
+  if (!isIndexedDbAvailable()) return null;
+  const db = await openDatabase();
+  const record = await requestToPromise(db.transaction(GEMINI_UPLOAD_STORE).objectStore(GEMINI_UPLOAD_STORE).get(key)) as StoredGeminiUpload | undefined;
+  return record && new Date(record.expiresAt).getTime() > Date.now() ? record : null;
+};
+
+/**
+ * Records an upload and drops the ones that have expired on Gemini's side.
+ */
+export const saveGeminiUpload = async (entry: StoredGeminiUpload) => {
+  if (!isIndexedDbAvailable()) return;
+  const db = await openDatabase();
+  const tx = db.transaction(GEMINI_UPLOAD_STORE, 'readwrite');
+  const store = tx.objectStore(GEMINI_UPLOAD_STORE);
+  store.put(entry);
+  const entries = await requestToPromise(store.getAll()) as StoredGeminiUpload[];
+  entries
+    .filter(upload => new Date(upload.expiresAt).getTime() <= Date.now())
+    .forEach(expired => store.delete(expired.key));
+  await transactionDone(tx);
+};
+
+export const deleteGeminiUpload = async (key: string) => {
+  if (!isIndexedDbAvailable()) return;
+  const db = await openDatabase();
+  const tx = db.transaction(GEMINI_UPLOAD_STORE, 'readwrite');
+  tx.objectStore(GEMINI_UPLOAD_STORE).delete(key);
+  await transactionDone(tx);
+};
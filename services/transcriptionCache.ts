@@ -0,0 +1,59 @@
+import { TranscriptionSettings } from '../types';
+import { AI_MODELS } from '../src/config/aiModels';
+import { hashBlob, sha256Hex } from '../utils/hashing';
+import { logger } from '../utils/logger';
+import { CachedTranscription, loadCachedTranscription, saveCachedTranscription } from './storageService';
+import { ProviderTranscription } from './transcriptionProviders';
+
+/**
+ * Local cache of finished transcriptions, so the same media transcribed again with
+ * the same options (reopened from Drive, retried after a settings change and back)
+ * is neither uploaded nor billed twice. Cache failures never fail a transcription.
+ */
+
+/**
+ * Key from the media's SHA-256 and every option that changes the output,
+ * including the model names, so a model upgrade does not serve old results.
+ */
+export const getTranscriptionCacheKey = async (media: Blob, settings: TranscriptionSettings) => {
+  const mediaHash = await hashBlob(media);
+  const options = {
+    provider: settings.provider,
+    mode: settings.mode,
+    detectSpeakers: settings.detectSpeakers,
+    deepThinking: settings.deepThinking,
+    wordTimestamps: settings.wordTimestamps,
+    preprocessing: settings.preprocessing || null,
+    models: [AI_MODELS.PRIMARY, AI_MODELS.FAST]
+  };
+  const optionsHash = await sha256Hex(JSON.stringify(options));
+  return `${mediaHash}:${optionsHash.slice(0, 16)}`;
+};
+
+export const findCachedTranscription = async (media: Blob, settings: TranscriptionSettings): Promise<CachedTranscription | null> => {
+  try {
+    return await loadCachedTranscription(await getTranscriptionCacheKey(media, settings));
+  } catch (error) {
+    logger.warn('Transcription cache lookup failed', { error: (error as Error).message });
+    return null;
+  }
+};
+
+/**
+ * Stores a finished transcription. A job that failed over (even for some chunks)
+ * is not stored: its output is weaker than the settings in the key promise.
+ */
+export const cacheTranscription = async (media: Blob, settings: TranscriptionSettings, result: ProviderTranscription) => {
+  if (result.failedOver) return;
+  try {
+    await saveCachedTranscription({
+      key: await getTranscriptionCacheKey(media, settings),
+      text: result.text,
+      engine: result.engine,
+      ...(result.words ? { words: result.words } : {}),
+      savedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.warn('Could not cache transcription', { error: (error as Error).message });
+  }
+};
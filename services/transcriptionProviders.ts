@@ -0,0 +1,291 @@
+import { TranscriptionProviderId, TranscriptionProviderPreference, TranscriptionSettings, TranscriptWord } from '../types';
+import { TRANSCRIPTION_CHUNKING, TRANSCRIPTION_FAILOVER, TRANSCRIPTION_ROUTING } from '../src/config/aiModels';
+import { StatusCallback, parseWordTimedResponse, transcribeAudio } from './geminiService';
+import { parseGroqVerboseResponse, transcribeWithGroq } from './groqService';
+import { isWebSpeechSupported, transcribeWithWebSpeech } from './webSpeechService';
+import { splitAudioToChunks } from '../utils/audioChunking';
+import { pickEncodingFormat } from '../utils/audioEncoding';
+import { formatTranscriptTimestamp } from '../utils/timestampUtils';
+import { parseTranscript, serializeTranscript } from '../utils/transcriptModel';
+import { StitchPart, stitchTranscripts } from '../utils/transcriptStitching';
+import { logger } from '../utils/logger';
+import { isAbortError, throwIfAborted } from '../utils/abortUtils';
+
+/**
+ * Transcription provider registry.
+ * Wraps each speech-to-text engine behind one interface so the transcription
+ * flow can pick an engine per job instead of calling Gemini directly.
+ */
+
+export interface TranscriptionOptions {
+  mimeType: string;
+  mode: 'verbatim' | 'polish';
+  detectSpeakers: boolean;
+  /** Gemini only: use the higher quality model */
+  useSmartModel: boolean;
+  /** BCP-47 / ISO-639-1 language hint, where the engine accepts one */
+  language?: string;
+  /** Ask for per-word start/end times and confidence, where the engine supports it */
+  wordTimestamps?: boolean;
+  /** The output becomes part of a timestamped transcript (a chunk), so engines that can time turns must */
+  requireTimestamps?: boolean;
+  /** Cancels uploads, requests and remaining chunks; the job rejects with TranscriptionCancelledError */
+  signal?: AbortSignal;
+}
+
+export interface TranscriptionProviderCapabilities {
+  /** Labels distinct speakers in the output */
+  diarization: boolean;
+  /** Emits [MM:SS] timestamps for each turn */
+  timestamps: boolean;
+  /** Can clean up fillers and grammar in 'polish' mode */
+  polish: boolean;
+  /** Runs in real time by playing the media back */
+  realtime: boolean;
+  /** Can return per-word timings */
+  wordTimestamps: boolean;
+}
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  label: string;
+  capabilities: TranscriptionProviderCapabilities;
+  /** Largest accepted payload, or null when there is no hard limit */
+  maxFileSizeMB: number | null;
+  /** MIME types or type prefixes ("audio/") the engine accepts */
+  supportedMimeTypes: string[];
+  /** Whether the engine is configured and usable in this browser */
+  isAvailable: () => boolean;
+  transcribe: (media: File | Blob, options: TranscriptionOptions, onStatus?: StatusCallback) => Promise<TranscriptionOutput>;
+}
+
+export interface TranscriptionOutput {
+  /** Transcript markdown */
+  text: string;
+  /** Word timings, when requested and supported */
+  words?: TranscriptWord[];
+}
+
+export interface ProviderTranscription extends TranscriptionOutput {
+  /** Engine that produced the text */
+  engine: TranscriptionProviderId;
+  /** Some or all of the job ran on a failover engine instead of the one it was routed to */
+  failedOver?: boolean;
+}
+
+const geminiProvider: TranscriptionProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  capabilities: { diarization: true, timestamps: true, polish: true, realtime: false, wordTimestamps: true },
+  maxFileSizeMB: null,
+  supportedMimeTypes: ['audio/', 'video/'],
+  isAvailable: () =>
+    import.meta.env.VITE_GEMINI_USE_PROXY === 'true' ||
+    !!(import.meta.env.VITE_GEMINI_API_KEY || import.meta.env.VITE_GEMINI_API_KEY_FALLBACK),
+  transcribe: async (media, options, onStatus) => {
+    const raw = await transcribeAudio(
+      media,
+      options.mimeType,
+      options.mode !== 'verbatim',
+      options.detectSpeakers,
+      options.useSmartModel,
+      onStatus,
+      !!options.wordTimestamps,
+      options.signal
+    );
+    return options.wordTimestamps ? parseWordTimedResponse(raw) : { text: raw };
+  }
+};
+
+// Groq rejects uploads over 25MB; stay under it with room for the multipart envelope
+const GROQ_MAX_UPLOAD_BYTES = 24 * 1024 * 1024;
+const GROQ_UPLOAD_TYPES = [
+  'audio/flac', 'audio/mpeg', 'audio/mp3', 'audio/mp4', 'audio/m4a', 'audio/x-m4a',
+  'audio/ogg', 'audio/wav', 'audio/x-wav', 'audio/webm', 'video/mp4', 'video/webm'
+];
+
+const getBaseMimeType = (mimeType: string) => mimeType.split(';')[0].trim().toLowerCase();
+
+const groqProvider: TranscriptionProvider = {
+  id: 'groq',
+  label: 'Groq Whisper',
+  capabilities: { diarization: false, timestamps: false, polish: true, realtime: false, wordTimestamps: true },
+  // Larger or unsupported files are re-encoded into compressed chunks under the upload limit
+  maxFileSizeMB: null,
+  supportedMimeTypes: ['audio/', 'video/'],
+  isAvailable: () => !!import.meta.env.VITE_GROQ_API_KEY,
+  transcribe: async (media, options, onStatus) => {
+    const prompt = options.mode === 'verbatim'
+      ? 'STRICT VERBATIM. Do not remove stutters or fillers like um, uh.'
+      : 'SMART POLISH. Clean up fillers but keep the original meaning and tone.';
+    // Whisper times its segments in verbose_json, which a chunk of a timestamped transcript needs
+    const isVerbose = options.wordTimestamps || options.requireTimestamps;
+    const send = async (blob: Blob, offsetSeconds: number, status?: (message: string) => void): Promise<TranscriptionOutput> => {
+      const raw = await transcribeWithGroq(blob, {
+        language: options.language,
+        prompt,
+        responseFormat: isVerbose ? 'verbose_json' : 'text',
+        onStatus: status,
+        signal: options.signal
+      });
+      if (!isVerbose) return { text: raw };
+      const { text, words } = parseGroqVerboseResponse(raw, offsetSeconds);
+      return options.wordTimestamps ? { text, words } : { text };
+    };
+
+    const type = getBaseMimeType(options.mimeType || media.type);
+    if (media.size <= GROQ_MAX_UPLOAD_BYTES && GROQ_UPLOAD_TYPES.includes(type)) {
+      return send(media, 0, message => onStatus?.(message));
+    }
+
+    onStatus?.('Splitting media for Groq upload limit...', 10);
+    const { chunks } = await splitAudioToChunks(media, 10 * 60, {
+      maxChunkBytes: GROQ_MAX_UPLOAD_BYTES,
+      format: pickEncodingFormat(mimeType => GROQ_UPLOAD_TYPES.includes(mimeType)),
+      overlapSeconds: TRANSCRIPTION_CHUNKING.OVERLAP_SECONDS,
+      toleranceSeconds: TRANSCRIPTION_CHUNKING.SPLIT_TOLERANCE_SECONDS
+    });
+    const parts: StitchPart[] = [];
+    for (let i = 0; i < chunks.length; i += 1) {
+      throwIfAborted(options.signal);
+      onStatus?.(`Groq: transcribing part ${i + 1}/${chunks.length}...`, 10 + Math.round((i / chunks.length) * 85));
+      const output = await send(chunks[i].blob, chunks[i].startSeconds);
+      // Plain Whisper text has no timestamps; mark where each part starts so playback sync still works
+      const text = isVerbose || !output.text ? output.text : `[${formatTranscriptTimestamp(chunks[i].startSeconds)}] ${output.text}`;
+      parts.push({
+        transcript: parseTranscript(text, { sourceChunk: i }),
+        words: output.words,
+        startSeconds: chunks[i].startSeconds,
+        overlapSeconds: chunks[i].overlapSeconds
+      });
+    }
+    const { transcript, words } = stitchTranscripts(parts);
+    return { text: serializeTranscript(transcript), ...(options.wordTimestamps ? { words } : {}) };
+  }
+};
+
+const webSpeechProvider: TranscriptionProvider = {
+  id: 'webspeech',
+  label: 'Browser Speech',
+  capabilities: { diarization: false, timestamps: false, polish: false, realtime: true, wordTimestamps: false },
+  maxFileSizeMB: null,
+  supportedMimeTypes: ['audio/'],
+  isAvailable: () => typeof window !== 'undefined' && isWebSpeechSupported(),
+  transcribe: async (media, options, onStatus) => {
+    onStatus?.('Playing media through the browser speech engine...', 10);
+    const text = await transcribeWithWebSpeech(media, { language: options.language, signal: options.signal }, result => {
+      if (result.isFinal) onStatus?.(`Heard: "${result.text.trim().slice(0, 60)}"`);
+    });
+    return { text };
+  }
+};
+
+const providers = new Map<TranscriptionProviderId, TranscriptionProvider>();
+
+export const registerTranscriptionProvider = (provider: TranscriptionProvider) => {
+  providers.set(provider.id, provider);
+};
+
+[geminiProvider, groqProvider, webSpeechProvider].forEach(registerTranscriptionProvider);
+
+export const getTranscriptionProvider = (id: TranscriptionProviderId) => providers.get(id) || null;
+
+export const listTranscriptionProviders = () => Array.from(providers.values());
+
+export const acceptsMimeType = (provider: TranscriptionProvider, mimeType: string) => {
+  const type = getBaseMimeType(mimeType);
+  return provider.supportedMimeTypes.some(pattern => (pattern.endsWith('/') ? type.startsWith(pattern) : type === pattern));
+};
+
+/**
+ * Returns why a provider cannot take this media, or null when it can.
+ */
+export const getProviderRejection = (provider: TranscriptionProvider, media: Blob, mimeType: string): string | null => {
+  if (!provider.isAvailable()) {
+    return `${provider.label} is not configured.`;
+  }
+  const type = getBaseMimeType(mimeType || media.type || '');
+  if (!acceptsMimeType(provider, type)) {
+    return `${provider.label} does not accept ${type || 'this file type'}.`;
+  }
+  const sizeMB = media.size / (1024 * 1024);
+  if (provider.maxFileSizeMB !== null && sizeMB > provider.maxFileSizeMB) {
+    return `File size (${sizeMB.toFixed(1)}MB) exceeds ${provider.label}'s ${provider.maxFileSizeMB}MB limit.`;
+  }
+  return null;
+};
+
+/** Whether an engine can deliver what the job asks for: speaker labels, and timestamps with word timings. */
+const coversSettings = (provider: TranscriptionProvider, settings: Pick<TranscriptionSettings, 'detectSpeakers' | 'wordTimestamps'>) =>
+  (!settings.detectSpeakers || provider.capabilities.diarization) && (!settings.wordTimestamps || provider.capabilities.timestamps);
+
+/**
+ * Picks the engine for a job. An explicit preference must be able to take the
+ * media; 'auto' walks TRANSCRIPTION_ROUTING and takes the first match that
+ * also covers the job's settings (so speaker labels are not silently lost).
+ */
+export const resolveTranscriptionProvider = (
+  preference: TranscriptionProviderPreference,
+  media: Blob,
+  mimeType: string,
+  settings: Pick<TranscriptionSettings, 'detectSpeakers' | 'wordTimestamps'>
+): TranscriptionProvider => {
+  if (preference !== 'auto') {
+    const provider = getTranscriptionProvider(preference);
+    if (!provider) throw new Error(`Unknown transcription engine: ${preference}`);
+    const rejection = getProviderRejection(provider, media, mimeType);
+    if (rejection) throw new Error(rejection);
+    return provider;
+  }
+
+  const sizeMB = media.size / (1024 * 1024);
+  for (const rule of TRANSCRIPTION_ROUTING) {
+    if (rule.maxSizeMB !== undefined && sizeMB > rule.maxSizeMB) continue;
+    const provider = getTranscriptionProvider(rule.provider);
+    if (provider && coversSettings(provider, settings) && !getProviderRejection(provider, media, mimeType)) return provider;
+  }
+
+  // Nothing matched: fall back to Gemini so the user gets its (more specific) error
+  return geminiProvider;
+};
+
+/**
+ * Gemini surfaces spent retries as quota or availability errors; those are the
+ * ones worth re-running on another engine. Bad keys or blocked content are not.
+ */
+const isEngineExhausted = (error: unknown) => {
+  const msg = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  return msg.includes('quota') || msg.includes('429') || msg.includes('503') || msg.includes('overloaded');
+};
+
+/**
+ * Runs a job on the given engine and, if that engine is exhausted, on the
+ * engines listed for it in TRANSCRIPTION_FAILOVER.
+ */
+export const transcribeWithFailover = async (
+  provider: TranscriptionProvider,
+  media: File | Blob,
+  options: TranscriptionOptions,
+  onStatus?: StatusCallback
+): Promise<ProviderTranscription> => {
+  try {
+    return { ...(await provider.transcribe(media, options, onStatus)), engine: provider.id };
+  } catch (error) {
+    if (isAbortError(error) || options.signal?.aborted || !isEngineExhausted(error)) throw error;
+
+    for (const fallbackId of TRANSCRIPTION_FAILOVER[provider.id] || []) {
+      const fallback = getTranscriptionProvider(fallbackId);
+      if (!fallback || getProviderRejection(fallback, media, options.mimeType)) continue;
+
+      logger.warn(`${provider.label} exhausted, failing over to ${fallback.label}`, { error: (error as Error).message });
+      onStatus?.(`${provider.label} is unavailable. Continuing with ${fallback.label}...`);
+      try {
+        return { ...(await fallback.transcribe(media, options, onStatus)), engine: fallback.id, failedOver: true };
+      } catch (fallbackError) {
+        if (isAbortError(fallbackError)) throw fallbackError;
+        logger.error(`${fallback.label} failover failed`, { error: (fallbackError as Error).message });
+      }
+    }
+    throw error;
+  }
+};
@@ -2,11 +2,14 @@
  * Web Speech API Fallback Transcription Service
  * Uses the browser's built-in speech recognition as a fallback when AI is unavailable
  */
+import { TranscriptionCancelledError } from "../utils/abortUtils";
 
 export interface FallbackTranscriptionOptions {
   language?: string;  // BCP-47 language code, default 'en-US'
   continuous?: boolean;
   interimResults?: boolean;
+  /** Stops playback and recognition, and rejects with TranscriptionCancelledError */
+  signal?: AbortSignal;
 }
 
 export interface TranscriptionResult {
@@ -36,6 +39,11 @@ export const transcribeWithWebSpeech = (
       reject(new Error("Web Speech API is not supported in this browser. Please use Chrome, Edge, or Safari."));
       return;
     }
+    const { signal } = options;
+    if (signal?.aborted) {
+      reject(new TranscriptionCancelledError());
+      return;
+    }
 
     const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
     const recognition = new SpeechRecognition();
@@ -108,6 +116,7 @@ export const transcribeWithWebSpeech = (
     };
 
     recognition.onend = () => {
+      signal?.removeEventListener('abort', onAbort);
       if (audioElement) {
         audioElement.pause();
         URL.revokeObjectURL(audioElement.src);
@@ -129,6 +138,14 @@ export const transcribeWithWebSpeech = (
       reject(new Error("Could not play audio file. The format may not be supported."));
     };
 
+    // Reject before recognition reports 'aborted', which would resolve with partial text
+    const onAbort = () => {
+      audioElement?.pause();
+      recognition.abort();
+      reject(new TranscriptionCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     // Start recognition and play audio
     try {
       recognition.start();
@@ -1,3 +1,5 @@
+import { TranscriptionProviderId } from "../../types";
+
 export const AI_MODELS = {
   // Primary reasoning model - using gemini-2.5-flash since it's confirmed available
   PRIMARY: import.meta.env.VITE_AI_MODEL_PRIMARY || "gemini-2.5-flash",
@@ -16,3 +18,77 @@ export const FALLBACK_CONFIG = {
   SWITCH_TO_FAST_MODEL_ATTEMPT: 1, 
   SWITCH_TO_BACKUP_KEY_ATTEMPT: 2
 };
+
+/**
+ * Auto-routing rules for transcription engines, checked in order.
+ * The first engine that is configured, accepts the MIME type, fits the size limit
+ * and can deliver the requested speaker labels and timestamps wins.
+ */
+export const TRANSCRIPTION_ROUTING: Array<{ provider: TranscriptionProviderId; maxSizeMB?: number }> = [
+  // Short clips: Groq Whisper is much faster and has no upload step
+  { provider: 'groq', maxSizeMB: Number(import.meta.env.VITE_ROUTING_SHORT_CLIP_MB) || 10 },
+  // Everything else (long meetings, video): Gemini
+  { provider: 'gemini' }
+];
+
+/**
+ * Engines to re-run a job on once an engine's own retries are spent
+ * (quota exhausted or service unavailable), tried in order.
+ */
+export const TRANSCRIPTION_FAILOVER: Partial<Record<TranscriptionProviderId, TranscriptionProviderId[]>> = {
+  gemini: ['groq']
+};
+
+/**
+ * Background transcription queue limits.
+ */
+export const TRANSCRIPTION_QUEUE = {
+  // Jobs transcribed at the same time; the rest wait in priority order
+  MAX_CONCURRENT_JOBS: Number(import.meta.env.VITE_QUEUE_MAX_CONCURRENT_JOBS) || 2
+};
+
+/**
+ * How long media is cut for chunked transcription. Neighbouring chunks share
+ * OVERLAP_SECONDS of audio, so words at a cut are heard whole by one of them;
+ * the repeated text is dropped when the chunks are stitched back together.
+ */
+export const TRANSCRIPTION_CHUNKING = {
+  CHUNK_SECONDS: 12 * 60,
+  OVERLAP_SECONDS: Number(import.meta.env.VITE_CHUNK_OVERLAP_SECONDS) || 15,
+  // How far a cut may move from CHUNK_SECONDS to land in a pause instead of mid-word
+  SPLIT_TOLERANCE_SECONDS: Number(import.meta.env.VITE_CHUNK_SPLIT_TOLERANCE_SECONDS) || 30,
+  // Chunks of one job transcribed at the same time (see CHUNK_CONCURRENCY)
+  MAX_CONCURRENT_CHUNKS: Number(import.meta.env.VITE_MAX_CONCURRENT_CHUNKS) || 3
+};
+
+/**
+ * Silence removal before transcription: silences of at least MIN_SILENCE_SECONDS
+ * are cut down to KEPT_SILENCE_SECONDS, so the engines still hear a pause.
+ */
+export const SILENCE_REMOVAL = {
+  MIN_SILENCE_SECONDS: Number(import.meta.env.VITE_MIN_SILENCE_SECONDS) || 2,
+  KEPT_SILENCE_SECONDS: 0.5
+};
+
+/**
+ * Per-minute request limits of the /api proxy; keep in step with RATE_LIMIT_MAX in api/*.ts.
+ * Proxied calls are spaced out in the browser so parallel work does not trip them.
+ */
+export const PROXY_RATE_LIMITS = {
+  WINDOW_MS: 60_000,
+  GENERATE: 30,
+  UPLOAD_INIT: 30,
+  POLL: 60
+};
+
+/**
+ * Chunks dispatched at once. Each in-flight chunk may be retried up to
+ * FALLBACK_CONFIG.MAX_RETRIES times, so a burst of retries must still fit in the proxy's window.
+ */
+export const CHUNK_CONCURRENCY = Math.max(
+  1,
+  Math.min(
+    TRANSCRIPTION_CHUNKING.MAX_CONCURRENT_CHUNKS,
+    Math.floor(PROXY_RATE_LIMITS.GENERATE / (FALLBACK_CONFIG.MAX_RETRIES + 1))
+  )
+);
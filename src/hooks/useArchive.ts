@@ -1,27 +1,40 @@
 import { useEffect, useState } from 'react';
 import { ArchiveItem } from '../../types';
+import { loadArchiveItems, saveArchiveItems } from '../../services/storageService';
 
-const ARCHIVE_STORAGE_KEY = 'archive_items';
+const ARCHIVE_SAVE_DEBOUNCE_MS = 300;
 
 export const useArchive = () => {
-  const [archiveItems, setArchiveItems] = useState<ArchiveItem[]>(() => {
-    try {
-      const saved = localStorage.getItem(ARCHIVE_STORAGE_KEY);
-      const parsed = saved ? JSON.parse(saved) : [];
-      return Array.isArray(parsed) ? parsed : [];
-    } catch (error) {
-      console.error('Failed to parse archive items:', error);
-      return [];
-    }
-  });
+  const [archiveItems, setArchiveItems] = useState<ArchiveItem[]>([]);
+  const [isArchiveLoaded, setIsArchiveLoaded] = useState(false);
 
   useEffect(() => {
+    let cancelled = false;
+    loadArchiveItems()
+      .then(items => {
+        if (cancelled) return;
+        // Keep anything added while the archive was still loading
+        setArchiveItems(prev => [...prev, ...items.filter(item => !prev.some(existing => existing.id === item.id))]);
+      })
+      .catch(error => console.error('Failed to load archive items:', error))
+      .finally(() => {
+        if (!cancelled) setIsArchiveLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    // Saving before the load finishes would overwrite the stored archive
+    if (!isArchiveLoaded) return;
+
     const timeout = setTimeout(() => {
-      localStorage.setItem(ARCHIVE_STORAGE_KEY, JSON.stringify(archiveItems));
-    }, 300);
+      saveArchiveItems(archiveItems).catch(error => console.error('Failed to save archive items:', error));
+    }, ARCHIVE_SAVE_DEBOUNCE_MS);
 
     return () => clearTimeout(timeout);
-  }, [archiveItems]);
+  }, [archiveItems, isArchiveLoaded]);
 
-  return { archiveItems, setArchiveItems };
+  return { archiveItems, setArchiveItems, isArchiveLoaded };
 };
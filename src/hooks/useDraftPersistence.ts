@@ -1,71 +1,93 @@
 import { useEffect, useRef } from 'react';
-import { AudioSource, EditorTab } from '../../types';
+import { ArchiveItem, AudioSource, EditorTab } from '../../types';
+import {
+  DraftPayload,
+  StorageQuotaError,
+  getJobMediaIds,
+  getTabMedia,
+  hasMedia,
+  loadDraft,
+  loadMedia,
+  pruneMedia,
+  restoreMedia,
+  saveDraft,
+  saveMedia
+} from '../../services/storageService';
+import { logger } from '../../utils/logger';
 
-const DRAFT_STORAGE_KEY = 'scribe_tab_drafts';
 const DRAFT_SAVE_DEBOUNCE_MS = 500;
 
-interface DraftPayload {
-  activeTabId: string | null;
-  activeSource: AudioSource | null;
-  tabs: Array<Pick<EditorTab, 'id' | 'title' | 'transcription' | 'contentType' | 'isEditorMode' | 'showAiSidebar'>>;
-  updatedAt: string;
-}
-
 interface UseDraftPersistenceOptions {
   tabs: EditorTab[];
   setTabs: React.Dispatch<React.SetStateAction<EditorTab[]>>;
   activeTabId: string | null;
-  setActiveTabId: (id: string | null) => void;
   activeTab: AudioSource | null;
-  setActiveTab: (tab: AudioSource | null) => void;
+  /** Archive items also hold media references, so unused media is only pruned once they are known */
+  archiveItems: ArchiveItem[];
+  isArchiveLoaded: boolean;
 }
 
+const getMediaId = (tab: EditorTab) => tab.mediaId || tab.id;
+
 export const useDraftPersistence = ({
   tabs,
   setTabs,
   activeTabId,
-  setActiveTabId,
   activeTab,
-  setActiveTab
+  archiveItems,
+  isArchiveLoaded
 }: UseDraftPersistenceOptions) => {
-  const didHydrateRef = useRef(false);
+  const didStartHydrationRef = useRef(false);
+  const isHydratedRef = useRef(false);
   const pendingSaveRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const savedMediaIdsRef = useRef<Set<string>>(new Set());
+  const didWarnQuotaRef = useRef(false);
 
   useEffect(() => {
-    if (didHydrateRef.current) return;
-    didHydrateRef.current = true;
+    if (didStartHydrationRef.current) return;
+    didStartHydrationRef.current = true;
 
-    try {
-      const stored = localStorage.getItem(DRAFT_STORAGE_KEY);
-      if (!stored) return;
-      const payload = JSON.parse(stored) as DraftPayload;
+    const hydrate = async () => {
+      const payload = await loadDraft();
       if (!payload?.tabs?.length) return;
 
-      const restoredTabs: EditorTab[] = payload.tabs.map(tab => ({
-        id: tab.id,
-        title: tab.title,
-        transcription: tab.transcription,
-        contentType: tab.contentType || null,
-        recordedBlob: null,
-        micUrl: null,
-        uploadedFile: null,
-        isEditorMode: tab.isEditorMode,
-        showAiSidebar: tab.showAiSidebar
+      const restoredTabs: EditorTab[] = await Promise.all(payload.tabs.map(async tab => {
+        const mediaId = tab.mediaId || tab.id;
+        const media = await loadMedia(mediaId).catch(() => null);
+        if (media) savedMediaIdsRef.current.add(mediaId);
+        return {
+          id: tab.id,
+          title: tab.title,
+          transcription: tab.transcription,
+          contentType: tab.contentType || null,
+          ...(media ? restoreMedia(media) : { recordedBlob: null, micUrl: null, uploadedFile: null }),
+          mediaId,
+          isEditorMode: tab.isEditorMode,
+          showAiSidebar: tab.showAiSidebar
+        };
       }));
 
-      setTabs(restoredTabs);
-      setActiveTabId(null);
-      setActiveTab(null);
-    } catch (error) {
-      console.warn('Failed to restore draft tabs:', error);
-    }
-  }, [setActiveTab, setActiveTabId, setTabs]);
+      // Tabs opened while the draft was loading stay after the restored ones, and stay
+      // active: the app starts with no active tab, so there is nothing to clear otherwise
+      setTabs(prev => [...restoredTabs.filter(tab => !prev.some(existing => existing.id === tab.id)), ...prev]);
+    };
+
+    hydrate()
+      .catch(error => console.warn('Failed to restore draft tabs:', error))
+      .finally(() => {
+        isHydratedRef.current = true;
+      });
+  }, [setTabs]);
 
   useEffect(() => {
-    if (!didHydrateRef.current) return;
+    if (!didStartHydrationRef.current) return;
     if (pendingSaveRef.current) clearTimeout(pendingSaveRef.current);
 
-    pendingSaveRef.current = setTimeout(() => {
+    pendingSaveRef.current = setTimeout(async () => {
+      pendingSaveRef.current = null;
+      // Saving before the restore finishes would overwrite the stored draft
+      if (!isHydratedRef.current) return;
+
       const payload: DraftPayload = {
         activeTabId,
         activeSource: activeTab,
@@ -74,14 +96,50 @@ export const useDraftPersistence = ({
           title: tab.title,
           transcription: tab.transcription,
           contentType: tab.contentType || null,
+          mediaId: getMediaId(tab),
           isEditorMode: tab.isEditorMode,
           showAiSidebar: tab.showAiSidebar
         })),
         updatedAt: new Date().toISOString()
       };
 
-      localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(payload));
-      pendingSaveRef.current = null;
+      const referencedMediaIds = [
+        ...tabs.map(getMediaId),
+        ...archiveItems.map(item => item.mediaId).filter((id): id is string => !!id)
+      ];
+
+      try {
+        await saveDraft(payload);
+
+        for (const tab of tabs) {
+          const mediaId = getMediaId(tab);
+          const media = getTabMedia(tab);
+          if (!media || savedMediaIdsRef.current.has(mediaId)) continue;
+          // Tabs opened from the archive share media that is already stored
+          if (!(await hasMedia(mediaId))) {
+            await saveMedia(mediaId, media.blob, { name: media.name, kind: media.kind }, [...tabs.map(getMediaId), ...getJobMediaIds(archiveItems)]);
+          }
+          savedMediaIdsRef.current.add(mediaId);
+        }
+
+        if (isArchiveLoaded) {
+          await pruneMedia(referencedMediaIds);
+          const referenced = new Set(referencedMediaIds);
+          savedMediaIdsRef.current.forEach(id => {
+            if (!referenced.has(id)) savedMediaIdsRef.current.delete(id);
+          });
+        }
+      } catch (error) {
+        if (error instanceof StorageQuotaError) {
+          logger.warn('Could not save tab media', { error: error.message });
+          if (!didWarnQuotaRef.current) {
+            didWarnQuotaRef.current = true;
+            alert(`${error.message} Your transcripts are still saved, but audio may not be available after a reload.`);
+          }
+        } else {
+          console.warn('Failed to save draft tabs:', error);
+        }
+      }
     }, DRAFT_SAVE_DEBOUNCE_MS);
 
     return () => {
@@ -90,5 +148,5 @@ export const useDraftPersistence = ({
         pendingSaveRef.current = null;
       }
     };
-  }, [activeTab, activeTabId, tabs]);
+  }, [activeTab, activeTabId, archiveItems, isArchiveLoaded, tabs]);
 };
@@ -1,29 +1,75 @@
 import { useCallback, useState } from 'react';
-import { TranscriptionState } from '../../types';
-import { createSrtString, generateDocx, generateSrt, generateTxt, stripMarkdown } from '../../utils/exportUtils';
+import { TranscriptExportVersion, TranscriptionState, TranscriptTranslation, TranscriptWord } from '../../types';
+import {
+  createBilingualSrtString,
+  createBilingualText,
+  createBilingualVttString,
+  createSrtString,
+  createVttString,
+  generateBilingualSrt,
+  generateBilingualVtt,
+  generateDocx,
+  generateSrt,
+  generateTxt,
+  generateVtt,
+  stripMarkdown
+} from '../../utils/exportUtils';
+import { getMediaDuration } from '../../utils/audioUtils';
+import { SubtitlePresetId } from '../../utils/subtitleLayout';
 
 interface UseExportsOptions {
   transcription: TranscriptionState;
   activeTabText?: string | null;
+  activeTabWords?: TranscriptWord[];
+  activeTabTranslation?: TranscriptTranslation;
+  /** Ignored while the transcript has no translation */
+  exportVersion: TranscriptExportVersion;
+  /** Media of the active tab, used to end the last subtitle cue */
+  activeTabMediaUrl?: string | null;
+  subtitlePreset: SubtitlePresetId;
   googleAccessToken: string | null;
   onRequireLogin: () => void;
   onTokenInvalid: () => void;
+  /** Called after each successful export with the text that was exported, e.g. to snapshot it */
+  onExported?: (label: string, text: string) => void;
 }
 
 export const useExports = ({
   transcription,
   activeTabText,
+  activeTabWords,
+  activeTabTranslation,
+  exportVersion,
+  activeTabMediaUrl,
+  subtitlePreset,
   googleAccessToken,
   onRequireLogin,
-  onTokenInvalid
+  onTokenInvalid,
+  onExported
 }: UseExportsOptions) => {
   const [isSavingToDrive, setIsSavingToDrive] = useState(false);
   const [driveSaved, setDriveSaved] = useState(false);
 
-  const getCurrentText = useCallback(() => activeTabText || transcription.text || '', [activeTabText, transcription.text]);
+  const translation = activeTabTranslation || transcription.translation;
+  const version = translation ? exportVersion : 'original';
+
+  const getOriginalText = useCallback(() => activeTabText || transcription.text || '', [activeTabText, transcription.text]);
+  const getCurrentText = useCallback(() => {
+    if (!translation || version === 'original') return getOriginalText();
+    return version === 'translation' ? translation.text : createBilingualText(getOriginalText(), translation.text);
+  }, [getOriginalText, translation, version]);
+  const getSubtitleOptions = useCallback(
+    async () => ({
+      // Word timings belong to the original wording
+      words: version === 'translation' ? undefined : activeTabWords || transcription.words,
+      mediaDuration: activeTabMediaUrl ? await getMediaDuration(activeTabMediaUrl) : null,
+      preset: subtitlePreset
+    }),
+    [activeTabMediaUrl, activeTabWords, subtitlePreset, transcription.words, version]
+  );
 
   const handleSaveToDrive = useCallback(
-    async (format: 'doc' | 'txt' | 'srt' = 'doc') => {
+    async (format: 'doc' | 'txt' | 'srt' | 'vtt' = 'doc') => {
       const currentText = getCurrentText();
 
       if (!googleAccessToken || !currentText) {
@@ -48,6 +94,7 @@ export const useExports = ({
         let mimeType = 'application/vnd.google-apps.document';
         if (format === 'txt') mimeType = 'text/plain';
         else if (format === 'srt') mimeType = 'text/plain';
+        else if (format === 'vtt') mimeType = 'text/vtt';
 
         const metadata = {
           name: fileName,
@@ -73,11 +120,18 @@ export const useExports = ({
         } else if (format === 'txt') {
           content = stripMarkdown(content);
         } else if (format === 'srt') {
-          const srtContent = createSrtString(content);
+          const srtContent = translation && version === 'both'
+            ? createBilingualSrtString(getOriginalText(), translation.text, await getSubtitleOptions())
+            : createSrtString(content, await getSubtitleOptions());
           content = srtContent || content;
+        } else if (format === 'vtt') {
+          const vttContent = translation && version === 'both'
+            ? createBilingualVttString(getOriginalText(), translation.text, await getSubtitleOptions())
+            : createVttString(content, await getSubtitleOptions());
+          content = vttContent || content;
         }
 
-        form.append('file', new Blob([content], { type: format === 'doc' ? 'text/html' : 'text/plain' }));
+        form.append('file', new Blob([content], { type: format === 'doc' ? 'text/html' : format === 'vtt' ? 'text/vtt' : 'text/plain' }));
 
         const response = await fetch(
           'https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart&fields=id,name,webViewLink',
@@ -111,6 +165,7 @@ export const useExports = ({
 
         setDriveSaved(true);
         setTimeout(() => setDriveSaved(false), 5000);
+        onExported?.(`Saved to Google Drive (${format.toUpperCase()})`, currentText);
 
         if (fileData.webViewLink) {
           const shouldOpen = confirm(
@@ -128,7 +183,7 @@ export const useExports = ({
         setIsSavingToDrive(false);
       }
     },
-    [getCurrentText, googleAccessToken, onRequireLogin, onTokenInvalid]
+    [getCurrentText, getOriginalText, getSubtitleOptions, googleAccessToken, onExported, onRequireLogin, onTokenInvalid, translation, version]
   );
 
   const handleExportTxt = useCallback(() => {
@@ -138,32 +193,52 @@ export const useExports = ({
       return;
     }
     generateTxt(text, `ScribeAI_Export_${new Date().toISOString().slice(0, 10)}`);
-  }, [getCurrentText]);
+    onExported?.('Exported as TXT', text);
+  }, [getCurrentText, onExported]);
 
   const handleExportDocx = useCallback(async () => {
     const text = getCurrentText();
     if (!text) return;
     try {
       await generateDocx(text, `Smart_Editor_Export_${new Date().toISOString().slice(0, 10)}`);
+      onExported?.('Exported as DOCX', text);
     } catch (err) {
       alert('Failed to generate Word document');
     }
-  }, [getCurrentText]);
+  }, [getCurrentText, onExported]);
 
-  const handleExportSrt = useCallback(() => {
+  const handleExportSrt = useCallback(async () => {
+    const text = getCurrentText();
+    if (!text) {
+      alert('No text available to export.');
+      return;
+    }
+    const filename = `ScribeAI_Export_${new Date().toISOString().slice(0, 10)}`;
+    const exported = translation && version === 'both'
+      ? generateBilingualSrt(getOriginalText(), translation.text, filename, await getSubtitleOptions())
+      : generateSrt(text, filename, await getSubtitleOptions());
+    if (exported) onExported?.('Exported as SRT', text);
+  }, [getCurrentText, getOriginalText, getSubtitleOptions, onExported, translation, version]);
+
+  const handleExportVtt = useCallback(async () => {
     const text = getCurrentText();
     if (!text) {
       alert('No text available to export.');
       return;
     }
-    generateSrt(text, `ScribeAI_Export_${new Date().toISOString().slice(0, 10)}`);
-  }, [getCurrentText]);
+    const filename = `ScribeAI_Export_${new Date().toISOString().slice(0, 10)}`;
+    const exported = translation && version === 'both'
+      ? generateBilingualVtt(getOriginalText(), translation.text, filename, await getSubtitleOptions())
+      : generateVtt(text, filename, await getSubtitleOptions());
+    if (exported) onExported?.('Exported as VTT', text);
+  }, [getCurrentText, getOriginalText, getSubtitleOptions, onExported, translation, version]);
 
   return {
     handleSaveToDrive,
     handleExportTxt,
     handleExportDocx,
     handleExportSrt,
+    handleExportVtt,
     isSavingToDrive,
     driveSaved
   };
@@ -19,6 +19,7 @@ export const useTabs = ({ onCloseAll }: UseTabsOptions = {}) => {
       recordedBlob: data.recordedBlob || null,
       micUrl: data.micUrl || null,
       uploadedFile: data.uploadedFile || null,
+      mediaId: data.mediaId || id,
       isEditorMode: data.isEditorMode ?? false,
       showAiSidebar: data.showAiSidebar ?? false
     };
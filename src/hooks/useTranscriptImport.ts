@@ -0,0 +1,50 @@
+import { useCallback } from 'react';
+import { EditorTab } from '../../types';
+import { importTranscriptFile, isTranscriptFile } from '../../utils/transcriptImport';
+import { getMimeTypeFromName, validateMediaFile } from '../../utils/mediaValidation';
+
+interface UseTranscriptImportOptions {
+  createTab: (data: Partial<EditorTab>) => string;
+}
+
+/**
+ * Opens caption/transcript files (SRT, VTT, TXT) in a new editor tab.
+ * A media file picked alongside is attached to the tab for playback sync.
+ */
+export const useTranscriptImport = ({ createTab }: UseTranscriptImportOptions) => {
+  const handleImportTranscript = useCallback(async (files: File[]) => {
+    const transcriptFile = files.find(isTranscriptFile);
+    if (!transcriptFile) {
+      alert('Choose an .srt, .vtt or .txt transcript file to import.');
+      return;
+    }
+
+    const mediaFile = files.find(file => {
+      if (file === transcriptFile) return false;
+      const mimeType = file.type || getMimeTypeFromName(file.name);
+      return !!mimeType && validateMediaFile(file, mimeType).valid;
+    });
+
+    try {
+      const { text, words, title } = await importTranscriptFile(transcriptFile);
+      createTab({
+        title,
+        transcription: { isLoading: false, text, error: null, words },
+        contentType: mediaFile ? 'Media' : null,
+        uploadedFile: mediaFile
+          ? {
+              file: mediaFile,
+              previewUrl: URL.createObjectURL(mediaFile),
+              base64: null,
+              mimeType: mediaFile.type || getMimeTypeFromName(mediaFile.name) || ''
+            }
+          : null,
+        isEditorMode: false
+      });
+    } catch (err: any) {
+      alert(err.message || 'Failed to import transcript.');
+    }
+  }, [createTab]);
+
+  return { handleImportTranscript };
+};
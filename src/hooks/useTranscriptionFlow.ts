@@ -1,8 +1,39 @@
-import { useCallback, useEffect, useState } from 'react';
-import { AudioFile, AudioSource, ArchiveItem, EditorTab, TranscriptionState } from '../../types';
-import { transcribeAudio } from '../../services/geminiService';
-import { splitAudioToWavChunks, offsetTranscriptTimestamps } from '../../utils/audioChunking';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  AudioFile,
+  AudioPreprocessingOptions,
+  AudioSource,
+  ArchiveItem,
+  EditorTab,
+  TranscriptionChunkResult,
+  TranscriptionProviderId,
+  TranscriptionProviderPreference,
+  TranscriptionSettings,
+  TranscriptionState,
+  TranscriptWord
+} from '../../types';
+import {
+  ProviderTranscription,
+  acceptsMimeType,
+  getTranscriptionProvider,
+  resolveTranscriptionProvider,
+  transcribeWithFailover
+} from '../../services/transcriptionProviders';
+import { splitAudioToChunks } from '../../utils/audioChunking';
+import { pickEncodingFormat } from '../../utils/audioEncoding';
+import { extractAudioTrack } from '../../utils/audioExtraction';
+import { isPreprocessingEnabled } from '../../utils/audioPreprocessing';
+import { TimeMap, restoreOriginalTimes } from '../../utils/silenceRemoval';
+import { parseTranscript, serializeTranscript, shiftTranscript, shiftWords } from '../../utils/transcriptModel';
+import { StitchPart, stitchTranscripts } from '../../utils/transcriptStitching';
 import { validateMediaFile } from '../../utils/mediaValidation';
+import { classifyContent } from '../../services/geminiService';
+import { cacheTranscription, findCachedTranscription } from '../../services/transcriptionCache';
+import { getMediaDuration } from '../../utils/audioUtils';
+import { isAbortError, throwIfAborted } from '../../utils/abortUtils';
+import { logger } from '../../utils/logger';
+import { CHUNK_CONCURRENCY, SILENCE_REMOVAL, TRANSCRIPTION_CHUNKING } from '../config/aiModels';
+import { mapWithConcurrency } from '../../utils/concurrency';
 
 interface UseTranscriptionFlowOptions {
   activeTab: AudioSource | null;
@@ -13,14 +44,26 @@ interface UseTranscriptionFlowOptions {
   transcriptionMode: 'verbatim' | 'polish';
   isSpeakerDetectEnabled: boolean;
   isDeepThinking: boolean;
+  transcriptionProvider: TranscriptionProviderPreference;
+  isWordTimingEnabled: boolean;
+  audioPreprocessing: AudioPreprocessingOptions;
   createTab: (data: Partial<EditorTab>) => string;
   setTabs: React.Dispatch<React.SetStateAction<EditorTab[]>>;
   setArchiveItems: React.Dispatch<React.SetStateAction<ArchiveItem[]>>;
-  setShowArchiveSidebar: (val: boolean) => void;
   setContentType: (val: string | null) => void;
   setTranscription: React.Dispatch<React.SetStateAction<TranscriptionState>>;
 }
 
+export interface TranscriptionRunOptions {
+  /** Overrides the current UI settings (queued jobs keep the settings they were queued with) */
+  settings?: TranscriptionSettings;
+  /** Chunks finished by an earlier, interrupted run; they are not transcribed again */
+  completedChunks?: TranscriptionChunkResult[];
+  onChunkComplete?: (result: TranscriptionChunkResult, totalChunks: number) => void;
+  /** Aborting stops uploads, requests and further chunks; the run rejects with TranscriptionCancelledError */
+  signal?: AbortSignal;
+}
+
 export const useTranscriptionFlow = ({
   activeTab,
   recordedBlob,
@@ -30,15 +73,19 @@ export const useTranscriptionFlow = ({
   transcriptionMode,
   isSpeakerDetectEnabled,
   isDeepThinking,
+  transcriptionProvider,
+  isWordTimingEnabled,
+  audioPreprocessing,
   createTab,
   setTabs,
   setArchiveItems,
-  setShowArchiveSidebar,
   setContentType,
   setTranscription
 }: UseTranscriptionFlowOptions) => {
   const [progress, setProgress] = useState(0);
   const [logLines, setLogLines] = useState<string[]>([]);
+  // One controller per tab that is still transcribing in the foreground
+  const tabControllersRef = useRef<Map<string, AbortController>>(new Map());
 
   useEffect(() => {
     if (transcription.isLoading) {
@@ -65,73 +112,203 @@ export const useTranscriptionFlow = ({
     }
   }, [setTabs]);
 
+  /**
+   * Fills in the content type and duration the Sessions filters use, once the transcript exists.
+   * The content type costs a Gemini call, so it is only asked for when Gemini itself
+   * transcribed the job (a job that failed over means Gemini is out of quota).
+   */
+  const describeArchiveItem = useCallback(async (id: string, text: string, media: Blob, engine: TranscriptionProviderId, tabId?: string | null) => {
+    const canClassify = engine === 'gemini' && !!getTranscriptionProvider('gemini')?.isAvailable();
+    const mediaUrl = URL.createObjectURL(media);
+    const [contentType, durationSeconds] = await Promise.all([
+      canClassify ? classifyContent(text) : Promise.resolve(null),
+      getMediaDuration(mediaUrl)
+    ]);
+    URL.revokeObjectURL(mediaUrl);
+
+    setArchiveItems(prev => prev.map(item => (item.id === id ? { ...item, ...(contentType ? { contentType } : {}), durationSeconds } : item)));
+    if (contentType && tabId) {
+      setTabs(prev => prev.map(tab => (tab.id === tabId && !tab.contentType ? { ...tab, contentType } : tab)));
+    }
+  }, [setArchiveItems, setTabs]);
+
+  const currentSettings = useMemo<TranscriptionSettings>(() => ({
+    provider: transcriptionProvider,
+    mode: transcriptionMode,
+    detectSpeakers: isSpeakerDetectEnabled,
+    deepThinking: isDeepThinking,
+    wordTimestamps: isWordTimingEnabled,
+    preprocessing: audioPreprocessing
+  }), [audioPreprocessing, isDeepThinking, isSpeakerDetectEnabled, isWordTimingEnabled, transcriptionMode, transcriptionProvider]);
+
   const executeTranscription = useCallback(
-    async (mediaBlob: Blob | File, mimeType: string, onStatus?: (msg: string, prg?: number) => void) => {
-      let finalUseSmartModel = isDeepThinking;
+    async (
+      sourceMedia: Blob | File,
+      sourceMimeType: string,
+      onStatus?: (msg: string, prg?: number) => void,
+      run: TranscriptionRunOptions = {}
+    ): Promise<ProviderTranscription> => {
+      const settings = run.settings || currentSettings;
+
+      // Video is transcribed from its audio track, and audio to be cleaned up is decoded
+      // and re-encoded here once; the tab keeps the original media for playback
+      let mediaBlob: Blob = sourceMedia;
+      let mimeType = sourceMimeType;
+      // Set when silences were shortened; every time reported afterwards goes through it
+      let timeMap: TimeMap | null = null;
+      const isSourceVideo = sourceMimeType.startsWith('video/');
+      const preprocessing = isPreprocessingEnabled(settings.preprocessing) ? settings.preprocessing : undefined;
+      if (isSourceVideo || (preprocessing && sourceMimeType.startsWith('audio/'))) {
+        onStatus?.(isSourceVideo ? 'Extracting audio track from video...' : 'Cleaning up audio...', 3);
+        try {
+          const extracted = await extractAudioTrack(sourceMedia, {
+            preprocessing,
+            silenceRemoval: preprocessing?.removeSilence
+              ? { minSilenceSeconds: SILENCE_REMOVAL.MIN_SILENCE_SECONDS, keptSilenceSeconds: SILENCE_REMOVAL.KEPT_SILENCE_SECONDS }
+              : undefined,
+            signal: run.signal
+          });
+          mediaBlob = extracted.blob;
+          mimeType = extracted.blob.type;
+          timeMap = extracted.timeMap;
+          onStatus?.(`Audio ready (${Math.round(extracted.durationSeconds / 60)} min).`, 6);
+          if (timeMap) {
+            const originalSeconds = timeMap[timeMap.length - 1].originalStart + timeMap[timeMap.length - 1].duration;
+            const skipped = Math.round((originalSeconds - extracted.durationSeconds) / 60);
+            if (skipped > 0) onStatus?.(`Skipping ${skipped} min of silence.`);
+          }
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          logger.warn('Audio preparation failed, sending the original media', { error: error instanceof Error ? error.message : String(error) });
+          onStatus?.(isSourceVideo
+            ? 'Could not extract the audio track. Sending the full video instead...'
+            : 'Could not clean up the audio. Sending the original instead...', 6);
+        }
+      }
+      const toOriginalTimes = (result: ProviderTranscription) => (timeMap ? restoreOriginalTimes(result, timeMap) : result);
+
+      const provider = resolveTranscriptionProvider(settings.provider, mediaBlob, mimeType, settings);
+      onStatus?.(`Engine: ${provider.label}`);
+
+      let finalUseSmartModel = settings.deepThinking;
 
       const isVideo = mimeType.startsWith('video/');
       const isLarge = (mediaBlob?.size || 0) > 15 * 1024 * 1024;
 
-      if ((isVideo || isLarge) && !isDeepThinking) {
+      if (provider.id === 'gemini' && (isVideo || isLarge) && !settings.deepThinking) {
         onStatus?.('⚠️ High-complexity detected. Boosting to Deep Inference (Pro)...');
         finalUseSmartModel = true;
       }
 
-      const autoEdit = transcriptionMode !== 'verbatim';
+      const options = {
+        mimeType,
+        mode: settings.mode,
+        detectSpeakers: settings.detectSpeakers,
+        useSmartModel: finalUseSmartModel,
+        wordTimestamps: settings.wordTimestamps && provider.capabilities.wordTimestamps,
+        signal: run.signal
+      };
 
       // Chunking strategy for large media or long videos.
       // Keep it invisible to the user; show progress as a single job.
-      const chunkSeconds = 12 * 60;
+      // Stitching relies on per-turn timestamps, so only engines that emit them are chunked.
+      // Word timings are always chunked: a word-timed JSON reply for long audio overruns the output token limit.
+      const { CHUNK_SECONDS, OVERLAP_SECONDS, SPLIT_TOLERANCE_SECONDS } = TRANSCRIPTION_CHUNKING;
 
       const shouldChunk =
-        mimeType.startsWith('video/') ||
-        (mediaBlob?.size || 0) > 35 * 1024 * 1024 ||
-        finalUseSmartModel;
-
-      if (shouldChunk && !mimeType.startsWith('audio/')) {
-        onStatus?.('Chunking is currently supported for audio only. Tip: export audio-only for long videos.', 10);
-      }
+        provider.capabilities.timestamps &&
+        (isSourceVideo ||
+          (mediaBlob?.size || 0) > 35 * 1024 * 1024 ||
+          finalUseSmartModel ||
+          (settings.wordTimestamps && provider.capabilities.wordTimestamps));
 
+      // A video whose audio could not be extracted is sent whole
       if (shouldChunk && mimeType.startsWith('audio/')) {
         onStatus?.('Preparing audio chunks...', 8);
-        const { chunks, totalSeconds } = await splitAudioToWavChunks(mediaBlob as Blob, chunkSeconds);
-
-        let combined = '';
-        for (let i = 0; i < chunks.length; i += 1) {
-          const chunk = chunks[i];
-          const base = 10;
-          const span = 85;
-          const prg = base + Math.round((i / Math.max(1, chunks.length)) * span);
-          onStatus?.(`Transcribing segment ${i + 1}/${chunks.length}...`, prg);
-
-          const partial = await transcribeAudio(
+        const { chunks } = await splitAudioToChunks(mediaBlob, CHUNK_SECONDS, {
+          format: pickEncodingFormat(type => acceptsMimeType(provider, type)),
+          overlapSeconds: OVERLAP_SECONDS,
+          toleranceSeconds: SPLIT_TOLERANCE_SECONDS
+        });
+        throwIfAborted(run.signal);
+
+        const toStitchPart = (result: { text: string; words?: TranscriptWord[] }, i: number): StitchPart => ({
+          transcript: shiftTranscript(parseTranscript(result.text, { sourceChunk: i }), Math.floor(chunks[i].startSeconds)),
+          words: result.words ? shiftWords(result.words, chunks[i].startSeconds) : undefined,
+          startSeconds: chunks[i].startSeconds,
+          overlapSeconds: chunks[i].overlapSeconds
+        });
+        const completed = new Map((run.completedChunks || []).map(result => [result.index, result]));
+        const partEngines: TranscriptionProviderId[] = [];
+
+        // Once an engine fails over, chunks not yet started go straight to the engine that took over
+        let chunkProvider = provider;
+        const lastCompleted = Array.from(completed.values()).sort((a, b) => b.index - a.index)[0];
+        if (lastCompleted) chunkProvider = getTranscriptionProvider(lastCompleted.engine) || chunkProvider;
+
+        // Progress is the mean of every chunk's own progress, finished ones counting as whole
+        const base = 10;
+        const span = 85;
+        const chunkProgress = chunks.map((_, i): number => (completed.has(i) ? 1 : 0));
+        const reportProgress = (msg: string) => {
+          const done = chunkProgress.reduce((sum, value) => sum + value, 0);
+          onStatus?.(msg, base + Math.round((done / Math.max(1, chunks.length)) * span));
+        };
+        if (completed.size) reportProgress(`Resuming: ${completed.size}/${chunks.length} segments already done.`);
+
+        const parts = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk, i): Promise<StitchPart> => {
+          const previous = completed.get(i);
+          if (previous) {
+            partEngines[i] = previous.engine;
+            return toStitchPart(previous, i);
+          }
+
+          throwIfAborted(run.signal);
+          const label = `segment ${i + 1}/${chunks.length}`;
+          reportProgress(`Transcribing ${label}...`);
+
+          const chunkEngine = chunkProvider;
+          const partial = await transcribeWithFailover(
+            chunkEngine,
             chunk.blob,
-            chunk.blob.type,
-            autoEdit,
-            isSpeakerDetectEnabled,
-            false,
+            { ...options, mimeType: chunk.blob.type, useSmartModel: false, requireTimestamps: true },
             (msg, p) => {
-              if (p !== undefined) {
-                const chunkP = base + Math.round(((i + p / 100) / chunks.length) * span);
-                onStatus?.(msg, chunkP);
-              } else {
-                onStatus?.(msg);
+              if (p === undefined) {
+                onStatus?.(`${msg} (${label})`);
+                return;
               }
+              chunkProgress[i] = Math.max(chunkProgress[i], Math.min(p, 99) / 100);
+              reportProgress(`${msg} (${label})`);
             }
           );
 
-          combined += offsetTranscriptTimestamps(partial, Math.floor(chunk.startSeconds)) + '\n\n';
-        }
-
-        onStatus?.('Finalizing transcript...', 98);
-        return combined.trim();
+          partEngines[i] = partial.engine;
+          if (partial.engine !== chunkEngine.id) {
+            chunkProvider = getTranscriptionProvider(partial.engine) || chunkProvider;
+          }
+          chunkProgress[i] = 1;
+          // Record the chunk before checking for a pause, so a resumed job does not redo it
+          run.onChunkComplete?.({ index: i, text: partial.text, engine: partial.engine, ...(partial.words ? { words: partial.words } : {}) }, chunks.length);
+          throwIfAborted(run.signal);
+          reportProgress(`Finished ${label}.`);
+          return toStitchPart(partial, i);
+        });
+
+        onStatus?.('Stitching segments into one transcript...', 98);
+        const { transcript, words } = stitchTranscripts(parts);
+        return toOriginalTimes({
+          text: serializeTranscript(transcript),
+          engine: chunkProvider.id,
+          ...(partEngines.some(engine => engine !== provider.id) ? { failedOver: true } : {}),
+          ...(words.length ? { words } : {})
+        });
       }
 
       // Default single-shot path
-      const text = await transcribeAudio(mediaBlob, mimeType, autoEdit, isSpeakerDetectEnabled, finalUseSmartModel, onStatus);
-      return text;
+      throwIfAborted(run.signal);
+      return toOriginalTimes(await transcribeWithFailover(provider, mediaBlob, options, onStatus));
     },
-    [isDeepThinking, isSpeakerDetectEnabled, transcriptionMode]
+    [currentSettings]
   );
 
   const handleTranscribe = useCallback(async (overrides?: {
@@ -140,8 +317,13 @@ export const useTranscriptionFlow = ({
     micUrl?: string | null;
     uploadedFile?: AudioFile | null;
     title?: string;
+    /** Reuse media already saved under this key instead of storing another copy */
+    mediaId?: string;
+    /** Skip the cache and transcribe again */
+    forceFresh?: boolean;
   }) => {
     let currentLoadingTabId: string | null = null;
+    const controller = new AbortController();
 
     try {
       const resolvedSource = overrides?.source ?? activeTab;
@@ -170,42 +352,82 @@ export const useTranscriptionFlow = ({
       }
 
       const initialTitle = overrides?.title || resolvedUploadedFile?.file?.name || (resolvedSource === AudioSource.MICROPHONE ? 'Voice Recording' : 'Untitled');
-      currentLoadingTabId = createTab({
+      const tabId = createTab({
         title: initialTitle,
         transcription: { isLoading: true, text: null, error: null },
         recordedBlob: resolvedRecordedBlob,
         micUrl: resolvedMicUrl,
         uploadedFile: resolvedUploadedFile,
+        mediaId: overrides?.mediaId,
         isEditorMode: false
       });
+      currentLoadingTabId = tabId;
+      tabControllersRef.current.set(tabId, controller);
+
+      const completeTab = ({ text, engine, words }: ProviderTranscription, cachedAt?: string) => {
+        setTabs(prev => prev.map(tab => (tab.id === tabId ? { ...tab, transcription: { isLoading: false, text, error: null, engine, words, cachedAt } } : tab)));
+
+        const archiveId = Math.random().toString(36).substring(7);
+        setArchiveItems(prev => [
+          {
+            id: archiveId,
+            name: initialTitle,
+            text,
+            date: new Date().toLocaleString(),
+            createdAt: new Date().toISOString(),
+            status: 'complete',
+            progress: 100,
+            mediaId: overrides?.mediaId || tabId,
+            engine,
+            words
+          },
+          ...prev
+        ]);
+        return archiveId;
+      };
 
-      const text = await executeTranscription(mediaBlob, mimeType, (msg, prg) => updateStatusLog(msg, prg, currentLoadingTabId));
-
-      setTabs(prev => prev.map(tab => (tab.id === currentLoadingTabId ? { ...tab, transcription: { isLoading: false, text, error: null } } : tab)));
+      if (!overrides?.forceFresh) {
+        updateStatusLog('Checking for an earlier transcript of this media...', 1, currentLoadingTabId);
+        const cached = await findCachedTranscription(mediaBlob, currentSettings);
+        throwIfAborted(controller.signal);
+        if (cached) {
+          completeTab({ text: cached.text, engine: cached.engine, words: cached.words }, cached.savedAt);
+          return;
+        }
+      }
 
-      const archiveId = Math.random().toString(36).substring(7);
-      setArchiveItems(prev => [
-        {
-          id: archiveId,
-          name: initialTitle,
-          text,
-          date: new Date().toLocaleString(),
-          status: 'complete',
-          progress: 100
+      const result = await executeTranscription(
+        mediaBlob,
+        mimeType,
+        (msg, prg) => {
+          if (!controller.signal.aborted) updateStatusLog(msg, prg, currentLoadingTabId);
         },
-        ...prev
-      ]);
+        { signal: controller.signal }
+      );
+
+      const archiveId = completeTab(result);
+      cacheTranscription(mediaBlob, currentSettings, result);
+      describeArchiveItem(archiveId, result.text, mediaBlob, result.engine, currentLoadingTabId);
     } catch (err: any) {
+      if (controller.signal.aborted) {
+        // Cancelled, not failed: the tab (if it is still open) goes back to its media
+        setTabs(prev => prev.map(tab => (tab.id === currentLoadingTabId ? { ...tab, transcription: { isLoading: false, text: null, error: null } } : tab)));
+        return;
+      }
       const errorMsg = err.message || 'An unexpected error occurred.';
       if (currentLoadingTabId) {
         setTabs(prev => prev.map(tab => (tab.id === currentLoadingTabId ? { ...tab, transcription: { isLoading: false, text: null, error: errorMsg } } : tab)));
       } else {
         setTranscription({ isLoading: false, text: null, error: errorMsg });
       }
+    } finally {
+      if (currentLoadingTabId) tabControllersRef.current.delete(currentLoadingTabId);
     }
   }, [
     activeTab,
     createTab,
+    currentSettings,
+    describeArchiveItem,
     executeTranscription,
     micUrl,
     recordedBlob,
@@ -216,67 +438,17 @@ export const useTranscriptionFlow = ({
     uploadedFile
   ]);
 
-  const handleBackgroundTranscribe = useCallback(async (file: AudioFile) => {
-    const id = Math.random().toString(36).substring(7);
-
-    const validation = file.file ? validateMediaFile(file.file, file.file.type) : { valid: false, message: 'Missing file.' };
-    if (!validation.valid) {
-      setArchiveItems(prev => [
-        {
-          id,
-          name: file.file?.name || 'Untitled Transcription',
-          text: '',
-          date: new Date().toLocaleString(),
-          status: 'error',
-          progress: 0,
-          error: validation.message,
-          audioUrl: file.previewUrl
-        },
-        ...prev
-      ]);
-      return;
-    }
-
-    const newItem: ArchiveItem = {
-      id,
-      name: file.file?.name || 'Untitled Transcription',
-      text: '',
-      date: new Date().toLocaleString(),
-      status: 'loading',
-      progress: 0,
-      audioUrl: file.previewUrl
-    };
-
-    setArchiveItems(prev => [newItem, ...prev]);
-    setShowArchiveSidebar(true);
-
-    try {
-      const text = await executeTranscription(file.file!, file.file?.type || '', (msg, prg) => {
-        setArchiveItems(prev =>
-          prev.map(item =>
-            item.id === id ? { ...item, progress: prg !== undefined ? prg : Math.min(item.progress + 5, 95) } : item
-          )
-        );
-      });
-
-      setArchiveItems(prev => prev.map(item => (item.id === id ? { ...item, text, status: 'complete', progress: 100 } : item)));
-    } catch (err: any) {
-      setArchiveItems(prev => prev.map(item => (item.id === id ? { ...item, status: 'error', error: err.message } : item)));
-    }
-  }, [executeTranscription, setArchiveItems, setShowArchiveSidebar]);
-
-  const handleArchiveUpload = useCallback(
-    (file: File) => {
-      const audioFile: AudioFile = {
-        file,
-        previewUrl: URL.createObjectURL(file),
-        base64: null,
-        mimeType: file.type
-      };
-      handleBackgroundTranscribe(audioFile);
-    },
-    [handleBackgroundTranscribe]
-  );
+  /**
+   * Stops a tab's transcription: the upload, request or chunk in flight is aborted
+   * and nothing further is sent. Returns false when the tab was not transcribing.
+   */
+  const cancelTranscription = useCallback((tabId: string) => {
+    const controller = tabControllersRef.current.get(tabId);
+    if (!controller) return false;
+    controller.abort();
+    tabControllersRef.current.delete(tabId);
+    return true;
+  }, []);
 
   const isReadyToTranscribe = useCallback(() => {
     if (transcription.isLoading) return false;
@@ -289,8 +461,10 @@ export const useTranscriptionFlow = ({
     progress,
     logLines,
     handleTranscribe,
-    handleBackgroundTranscribe,
-    handleArchiveUpload,
+    executeTranscription,
+    describeArchiveItem,
+    cancelTranscription,
+    currentSettings,
     isReadyToTranscribe
   };
 };
@@ -0,0 +1,271 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { ArchiveItem, AudioFile, TranscriptionJob, TranscriptionJobPriority, TranscriptionProviderId, TranscriptionSettings } from '../../types';
+import { TRANSCRIPTION_QUEUE } from '../config/aiModels';
+import { ProviderTranscription } from '../../services/transcriptionProviders';
+import { getJobMediaIds, loadMedia, saveMedia } from '../../services/storageService';
+import { cacheTranscription, findCachedTranscription } from '../../services/transcriptionCache';
+import { validateMediaFile } from '../../utils/mediaValidation';
+import { logger } from '../../utils/logger';
+import { TranscriptionRunOptions } from './useTranscriptionFlow';
+
+const PRIORITY_RANK: Record<TranscriptionJobPriority, number> = { high: 0, normal: 1, low: 2 };
+
+type JobInterruption = 'pause' | 'cancel';
+
+interface UseTranscriptionQueueOptions {
+  archiveItems: ArchiveItem[];
+  setArchiveItems: React.Dispatch<React.SetStateAction<ArchiveItem[]>>;
+  isArchiveLoaded: boolean;
+  settings: TranscriptionSettings;
+  executeTranscription: (
+    media: Blob | File,
+    mimeType: string,
+    onStatus?: (msg: string, prg?: number) => void,
+    run?: TranscriptionRunOptions
+  ) => Promise<ProviderTranscription>;
+  describeArchiveItem: (id: string, text: string, media: Blob, engine: TranscriptionProviderId) => Promise<void>;
+  setShowArchiveSidebar: (val: boolean) => void;
+}
+
+export interface TranscriptionQueueControls {
+  pauseJob: (id: string) => void;
+  resumeJob: (id: string) => void;
+  cancelJob: (id: string) => void;
+  retryJob: (id: string) => void;
+  setJobPriority: (id: string, priority: TranscriptionJobPriority) => void;
+}
+
+/**
+ * Orders waiting jobs: higher priority first, then first come, first served.
+ */
+export const getQueueOrder = (items: ArchiveItem[]) =>
+  items
+    .filter(item => item.status === 'queued' && item.job)
+    .sort((a, b) =>
+      PRIORITY_RANK[a.job!.priority] - PRIORITY_RANK[b.job!.priority] || a.job!.queuedAt.localeCompare(b.job!.queuedAt)
+    );
+
+/**
+ * Background transcription queue. Jobs live on their archive items (and so in
+ * IndexedDB with their media), run at most TRANSCRIPTION_QUEUE.MAX_CONCURRENT_JOBS
+ * at a time, and can be paused, cancelled, retried or re-prioritized.
+ * Chunked jobs record each finished chunk, so a reload or pause resumes after it.
+ */
+export const useTranscriptionQueue = ({
+  archiveItems,
+  setArchiveItems,
+  isArchiveLoaded,
+  settings,
+  executeTranscription,
+  describeArchiveItem,
+  setShowArchiveSidebar
+}: UseTranscriptionQueueOptions) => {
+  const runningRef = useRef<Map<string, AbortController>>(new Map());
+  // Media picked in this session, so a job does not have to wait for IndexedDB
+  const mediaRef = useRef<Map<string, Blob>>(new Map());
+
+  const updateItem = useCallback((id: string, update: (item: ArchiveItem) => ArchiveItem) => {
+    setArchiveItems(prev => prev.map(item => (item.id === id ? update(item) : item)));
+  }, [setArchiveItems]);
+
+  const updateJob = useCallback((id: string, updates: Partial<TranscriptionJob>) => {
+    updateItem(id, item => (item.job ? { ...item, job: { ...item.job, ...updates } } : item));
+  }, [updateItem]);
+
+  const runJob = useCallback(async (item: ArchiveItem) => {
+    const id = item.id;
+    const job = item.job!;
+    const controller = new AbortController();
+    runningRef.current.set(id, controller);
+    updateItem(id, current => ({
+      ...current,
+      status: 'loading',
+      error: undefined,
+      job: { ...job, attempts: job.attempts + 1, statusMessage: 'Starting...' }
+    }));
+
+    try {
+      let media = mediaRef.current.get(id) || null;
+      if (!media && item.mediaId) {
+        const stored = await loadMedia(item.mediaId);
+        if (stored) media = stored.blob;
+      }
+      if (!media) throw new Error('The media for this job is no longer stored. Upload the file again.');
+
+      updateJob(id, { statusMessage: 'Checking for an earlier transcript of this media...' });
+      const cached = await findCachedTranscription(media, job.settings);
+      if (controller.signal.aborted) return;
+
+      const result = cached ? { text: cached.text, engine: cached.engine, words: cached.words } : await executeTranscription(
+        media,
+        job.mimeType,
+        (msg, prg) => {
+          if (controller.signal.aborted) return;
+          updateItem(id, current => ({
+            ...current,
+            progress: prg !== undefined ? prg : Math.min(current.progress + 5, 95),
+            job: current.job ? { ...current.job, statusMessage: msg } : current.job
+          }));
+        },
+        {
+          settings: job.settings,
+          completedChunks: job.completedChunks,
+          signal: controller.signal,
+          onChunkComplete: (chunk, totalChunks) => {
+            updateItem(id, current => (current.job
+              ? {
+                  ...current,
+                  job: {
+                    ...current.job,
+                    totalChunks,
+                    completedChunks: [...current.job.completedChunks.filter(done => done.index !== chunk.index), chunk]
+                  }
+                }
+              : current));
+          }
+        }
+      );
+
+      // A job cancelled just as its last request returned still resolves; its result is discarded
+      if (controller.signal.reason === 'cancel') return;
+      if (!cached) cacheTranscription(media, job.settings, result);
+
+      const { text, engine, words } = result;
+      updateItem(id, current => ({ ...current, text, engine, words, status: 'complete', progress: 100, error: undefined, job: undefined }));
+      mediaRef.current.delete(id);
+      describeArchiveItem(id, text, media, engine);
+    } catch (err: any) {
+      // Pause and cancel already set the item's status
+      if (controller.signal.aborted) return;
+      logger.error('Queued transcription failed', { id, error: err?.message });
+      updateItem(id, current => ({
+        ...current,
+        status: 'error',
+        error: err?.message || 'Transcription failed.',
+        job: current.job ? { ...current.job, statusMessage: undefined } : current.job
+      }));
+    } finally {
+      // A paused job may already have been resumed under a new controller
+      if (runningRef.current.get(id) === controller) runningRef.current.delete(id);
+    }
+  }, [describeArchiveItem, executeTranscription, updateItem, updateJob]);
+
+  // Scheduler: start waiting jobs whenever a slot is free
+  useEffect(() => {
+    if (!isArchiveLoaded) return;
+    const freeSlots = TRANSCRIPTION_QUEUE.MAX_CONCURRENT_JOBS - runningRef.current.size;
+    if (freeSlots <= 0) return;
+
+    getQueueOrder(archiveItems)
+      .filter(item => !runningRef.current.has(item.id))
+      .slice(0, freeSlots)
+      .forEach(item => {
+        runJob(item);
+      });
+  }, [archiveItems, isArchiveLoaded, runJob]);
+
+  // Stop running jobs when the app unmounts; they resume from IndexedDB next time
+  useEffect(() => {
+    const running = runningRef.current;
+    return () => running.forEach(controller => controller.abort('pause'));
+  }, []);
+
+  const interrupt = useCallback((id: string, reason: JobInterruption) => {
+    runningRef.current.get(id)?.abort(reason);
+    runningRef.current.delete(id);
+  }, []);
+
+  const handleBackgroundTranscribe = useCallback((file: AudioFile, priority: TranscriptionJobPriority = 'normal') => {
+    const id = Math.random().toString(36).substring(7);
+    const name = file.file?.name || 'Untitled Transcription';
+    const now = new Date();
+
+    const validation = file.file ? validateMediaFile(file.file, file.file.type) : { valid: false, message: 'Missing file.' };
+    if (!validation.valid) {
+      setArchiveItems(prev => [
+        {
+          id,
+          name,
+          text: '',
+          date: now.toLocaleString(),
+          createdAt: now.toISOString(),
+          status: 'error',
+          progress: 0,
+          error: validation.message,
+          audioUrl: file.previewUrl
+        },
+        ...prev
+      ]);
+      return;
+    }
+
+    const media = file.file!;
+    mediaRef.current.set(id, media);
+    setArchiveItems(prev => [
+      {
+        id,
+        name,
+        text: '',
+        date: now.toLocaleString(),
+        createdAt: now.toISOString(),
+        status: 'queued',
+        progress: 0,
+        audioUrl: file.previewUrl,
+        mediaId: id,
+        job: {
+          priority,
+          mimeType: media.type || file.mimeType || '',
+          settings,
+          queuedAt: now.toISOString(),
+          attempts: 0,
+          completedChunks: []
+        }
+      },
+      ...prev
+    ]);
+    setShowArchiveSidebar(true);
+
+    // Pending jobs need their media to resume after a reload
+    saveMedia(id, media, { name, kind: 'file' }, getJobMediaIds(archiveItems)).catch(error => {
+      logger.warn('Could not save queued media; the job will not survive a reload', { error: (error as Error).message });
+    });
+  }, [archiveItems, setArchiveItems, setShowArchiveSidebar, settings]);
+
+  const pauseJob = useCallback((id: string) => {
+    interrupt(id, 'pause');
+    updateItem(id, item => (item.job && (item.status === 'queued' || item.status === 'loading')
+      ? { ...item, status: 'paused', job: { ...item.job, statusMessage: undefined } }
+      : item));
+  }, [interrupt, updateItem]);
+
+  const resumeJob = useCallback((id: string) => {
+    updateItem(id, item => (item.job && item.status === 'paused' ? { ...item, status: 'queued' } : item));
+  }, [updateItem]);
+
+  const cancelJob = useCallback((id: string) => {
+    interrupt(id, 'cancel');
+    updateItem(id, item => (item.job && item.status !== 'complete'
+      ? { ...item, status: 'cancelled', progress: 0, job: { ...item.job, statusMessage: undefined, totalChunks: undefined, completedChunks: [] } }
+      : item));
+  }, [interrupt, updateItem]);
+
+  /**
+   * Re-queues a failed or cancelled job. Failed chunked jobs keep their finished chunks.
+   */
+  const retryJob = useCallback((id: string) => {
+    updateItem(id, item => (item.job && (item.status === 'error' || item.status === 'cancelled')
+      ? { ...item, status: 'queued', error: undefined, job: { ...item.job, queuedAt: new Date().toISOString() } }
+      : item));
+  }, [updateItem]);
+
+  const setJobPriority = useCallback((id: string, priority: TranscriptionJobPriority) => {
+    updateJob(id, { priority });
+  }, [updateJob]);
+
+  const queueControls = useMemo<TranscriptionQueueControls>(
+    () => ({ pauseJob, resumeJob, cancelJob, retryJob, setJobPriority }),
+    [cancelJob, pauseJob, resumeJob, retryJob, setJobPriority]
+  );
+
+  return { handleBackgroundTranscribe, queueControls };
+};
@@ -4,13 +4,20 @@ import {
   Lightning, Eye, PencilSimple, Sparkle, Export, CaretDown, CaretUp,
   ArrowSquareOut, Checks, FileText, FileCode, CloudArrowDown, 
   File as FileIcon, Plus, Microphone, UploadSimple, User, PlusCircle,
-  Clock, SignOut, Spinner, SignIn, Sun, Moon, List, WarningCircle, Check, GoogleLogo, Copy
+  Clock, SignOut, Spinner, SignIn, Sun, Moon, List, WarningCircle, Check, GoogleLogo, Copy, ArrowClockwise, X
 } from '@phosphor-icons/react';
 import { useTheme } from '../contexts/ThemeContext';
 
-import { AudioSource, TranscriptionState, AudioFile, ArchiveItem } from '../../types';
+import { AudioSource, TranscriptionState, AudioFile, ArchiveItem, TranscriptExportVersion } from '../../types';
+import { SUBTITLE_PRESETS, SubtitlePresetId } from '../../utils/subtitleLayout';
 const TranscriptionEditor = lazy(() => import('../../components/TranscriptionEditor'));
 
+const EXPORT_VERSIONS: Array<{ id: TranscriptExportVersion; label: string }> = [
+  { id: 'original', label: 'Original' },
+  { id: 'translation', label: 'Translation' },
+  { id: 'both', label: 'Both' }
+];
+
 
 interface EditorViewProps {
   showExitConfirm: boolean;
@@ -24,7 +31,7 @@ interface EditorViewProps {
   setShowAiSidebar: (val: boolean) => void;
   transcription: TranscriptionState;
   setTranscription: React.Dispatch<React.SetStateAction<TranscriptionState>>;
-  handleSaveToDrive: (type?: 'doc' | 'txt' | 'srt') => void;
+  handleSaveToDrive: (type?: 'doc' | 'txt' | 'srt' | 'vtt') => void;
   isSavingToDrive: boolean;
   driveSaved: boolean;
   contentType: string | null;
@@ -33,6 +40,11 @@ interface EditorViewProps {
   handleExportDocx: () => void;
   handleExportTxt: () => void;
   handleExportSrt: () => void;
+  handleExportVtt: () => void;
+  subtitlePreset: SubtitlePresetId;
+  setSubtitlePreset: (preset: SubtitlePresetId) => void;
+  exportVersion: TranscriptExportVersion;
+  setExportVersion: (version: TranscriptExportVersion) => void;
   googleAccessToken: string | null;
   googleClientId: string | undefined;
   driveScriptsLoaded: boolean;
@@ -55,6 +67,8 @@ interface EditorViewProps {
   handlePickDriveFile: (file: { id: string; name: string; mimeType: string }) => void;
   onOpenInNewTab: (content: string, title?: string) => void;
   onNewSession: (source: AudioSource) => void;
+  /** Transcribes the tab's media again; null when the tab has no media */
+  onRetranscribe: (() => void) | null;
 
   isTabsVisible: boolean;
   setIsTabsVisible: (val: boolean) => void;
@@ -68,7 +82,9 @@ const EditorView: React.FC<EditorViewProps> = ({
   transcription, setTranscription,
   handleSaveToDrive, isSavingToDrive, driveSaved,
   contentType, getAudioUrl, getOriginalFile,
-  handleExportDocx, handleExportTxt, handleExportSrt,
+  handleExportDocx, handleExportTxt, handleExportSrt, handleExportVtt,
+  subtitlePreset, setSubtitlePreset,
+  exportVersion, setExportVersion,
   googleAccessToken, googleClientId, driveScriptsLoaded,
   handleGoogleLogin, handleGoogleLogout, isLoggingIn,
   archiveItems, setShowArchiveSidebar, showArchiveSidebar,
@@ -76,7 +92,7 @@ const EditorView: React.FC<EditorViewProps> = ({
   handleBackgroundTranscribe, setPickerCallback,
 
   setIsPickerOpen, isPickerOpen, handlePickDriveFile,
-  onOpenInNewTab, isTabsVisible, setIsTabsVisible, onNewSession
+  onOpenInNewTab, isTabsVisible, setIsTabsVisible, onNewSession, onRetranscribe
 }) => {
   const { darkMode, setDarkMode } = useTheme();
 
@@ -272,6 +288,22 @@ const EditorView: React.FC<EditorViewProps> = ({
                             </div>
                           </button>
 
+                          {/* Re-transcribe this session's media */}
+                          {onRetranscribe && (
+                            <button 
+                               onClick={onRetranscribe}
+                              className="w-full flex items-center gap-3 px-3.5 py-2.5 text-left text-[11px] font-bold text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-dark-bg rounded-xl transition-all group"
+                            >
+                              <div className="w-7 h-7 rounded-lg bg-amber-100 dark:bg-amber-900/20 flex items-center justify-center group-hover:scale-110 transition-transform">
+                                <ArrowClockwise size={14} weight="bold" className="text-amber-500" />
+                              </div>
+                              <div>
+                                  <div className="leading-none mb-0.5">Re-transcribe Audio</div>
+                                  <div className="text-[9px] text-slate-400 font-medium">Fresh run of this session's media</div>
+                              </div>
+                            </button>
+                          )}
+
                           <div className="h-px bg-slate-100 dark:bg-white/5 my-1"></div>
 
                           {/* Empty Project */}
@@ -364,6 +396,30 @@ const EditorView: React.FC<EditorViewProps> = ({
                    <div className="absolute top-full right-0 text-left pt-2 opacity-0 group-hover/export:opacity-100 pointer-events-none group-hover/export:pointer-events-auto transition-all duration-200 scale-95 group-hover/export:scale-100 origin-top-right z-50">
                        <div className="bg-white dark:bg-dark-card rounded-2xl shadow-xl border border-slate-100 dark:border-dark-border p-3 min-w-[240px] flex flex-col gap-3">
                            
+                           {/* Which text to export, once there is a translation */}
+                           {transcription.translation && (
+                             <>
+                               <div>
+                                 <div className="px-2 py-1 text-[9px] font-black text-slate-400 dark:text-dark-muted uppercase tracking-widest">
+                                   Export Text
+                                 </div>
+                                 <div className="grid grid-cols-3 gap-1 mt-1 p-1 bg-slate-100 dark:bg-white/5 rounded-lg">
+                                   {EXPORT_VERSIONS.map(({ id, label }) => (
+                                     <button
+                                       key={id}
+                                       onClick={() => setExportVersion(id)}
+                                       className={`py-1 px-1 truncate rounded-md text-[10px] font-bold transition-colors ${exportVersion === id ? 'bg-white dark:bg-dark-card text-primary dark:text-accent shadow-sm' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-200'}`}
+                                     >
+                                       {id === 'translation' ? transcription.translation?.language : label}
+                                     </button>
+                                   ))}
+                                 </div>
+                               </div>
+
+                               <div className="h-px bg-slate-100 dark:bg-dark-border"></div>
+                             </>
+                           )}
+
                            {/* 1. Save to Google Drive */}
                            <div>
                              <div className="px-2 py-1 text-[9px] font-black text-slate-400 dark:text-dark-muted uppercase tracking-widest flex items-center gap-2">
@@ -383,6 +439,10 @@ const EditorView: React.FC<EditorViewProps> = ({
                                  <span>As Subtitles (Srt)</span>
                                  <FileCode size={12} weight="duotone" className="text-amber-500" />
                                </button>
+                               <button onClick={() => handleSaveToDrive('vtt')} className="w-full flex items-center justify-between px-3 py-1.5 rounded-lg text-xs font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-white/5 transition-colors">
+                                 <span>As Web Subtitles (Vtt)</span>
+                                 <FileCode size={12} weight="duotone" className="text-emerald-500" />
+                               </button>
                              </div>
                            </div>
 
@@ -407,6 +467,30 @@ const EditorView: React.FC<EditorViewProps> = ({
                                  <span>As Subtitles (Srt)</span>
                                  <FileCode size={12} weight="duotone" className="text-amber-500" />
                                </button>
+                               <button onClick={handleExportVtt} className="w-full flex items-center justify-between px-3 py-1.5 rounded-lg text-xs font-medium text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-white/5 transition-colors">
+                                 <span>As Web Subtitles (Vtt)</span>
+                                 <FileCode size={12} weight="duotone" className="text-emerald-500" />
+                               </button>
+                             </div>
+                           </div>
+
+                           <div className="h-px bg-slate-100 dark:bg-dark-border"></div>
+
+                           {/* Subtitle layout preset used by Srt/Vtt */}
+                           <div>
+                             <div className="px-2 py-1 text-[9px] font-black text-slate-400 dark:text-dark-muted uppercase tracking-widest">
+                               Subtitle Style
+                             </div>
+                             <div className="grid grid-cols-3 gap-1 mt-1 p-1 bg-slate-100 dark:bg-white/5 rounded-lg">
+                               {(Object.keys(SUBTITLE_PRESETS) as SubtitlePresetId[]).map(preset => (
+                                 <button
+                                   key={preset}
+                                   onClick={() => setSubtitlePreset(preset)}
+                                   className={`py-1 rounded-md text-[10px] font-bold transition-colors ${subtitlePreset === preset ? 'bg-white dark:bg-dark-card text-primary dark:text-accent shadow-sm' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-200'}`}
+                                 >
+                                   {SUBTITLE_PRESETS[preset].label}
+                                 </button>
+                               ))}
                              </div>
                            </div>
 
@@ -633,11 +717,46 @@ const EditorView: React.FC<EditorViewProps> = ({
 
       {/* Main Editor Area - Google Docs Style */}
       <main className="flex-1 w-full z-10 overflow-hidden flex flex-col h-full bg-slate-100 dark:bg-dark-bg">
+         {transcription.cachedAt && (
+           <div className="flex items-center gap-3 px-6 py-2 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-100 dark:border-amber-500/20 text-[11px] font-medium text-amber-800 dark:text-amber-200">
+             <Clock size={14} weight="duotone" className="text-amber-500 flex-shrink-0" />
+             <span className="flex-1">
+               Loaded from an earlier transcription of this media ({new Date(transcription.cachedAt).toLocaleString()}) with the same settings.
+             </span>
+             {onRetranscribe && (
+               <button
+                 onClick={onRetranscribe}
+                 className="flex items-center gap-1.5 px-3 py-1 rounded-lg bg-white dark:bg-dark-card border border-amber-200 dark:border-amber-500/30 font-bold hover:shadow-sm transition-all"
+               >
+                 <ArrowClockwise size={12} weight="bold" />
+                 Transcribe Fresh
+               </button>
+             )}
+             <button
+               onClick={() => setTranscription(prev => ({ ...prev, cachedAt: undefined }))}
+               className="p-1 rounded-lg hover:bg-amber-100 dark:hover:bg-amber-800/40 transition-colors"
+               title="Dismiss"
+             >
+               <X size={12} weight="bold" />
+             </button>
+           </div>
+         )}
          <Suspense fallback={<div className="flex-1 flex items-center justify-center py-12"><Spinner size={28} className="animate-spin text-primary" /></div>}>
            <TranscriptionEditor 
 
             initialText={transcription.text || ''}
+            words={transcription.words}
             onTextChange={(newText) => setTranscription(prev => ({...prev, text: newText}))}
+            translation={transcription.translation}
+            onTranslationChange={(translation) => setTranscription(prev => ({...prev, translation: translation || undefined}))}
+            speakerProfiles={transcription.speakerProfiles}
+            onSpeakerProfilesChange={(speakerProfiles) => setTranscription(prev => ({...prev, speakerProfiles}))}
+            review={transcription.review}
+            onReviewChange={(review) => setTranscription(prev => ({...prev, review}))}
+            suggestions={transcription.suggestions}
+            onSuggestionsChange={(suggestions) => setTranscription(prev => ({...prev, suggestions: suggestions || undefined}))}
+            snapshots={transcription.snapshots}
+            onSnapshotsChange={(snapshots) => setTranscription(prev => ({...prev, snapshots}))}
             audioUrl={getAudioUrl()}
             onSaveToDrive={googleClientId && driveScriptsLoaded ? handleSaveToDrive : undefined}
             isSaving={isSavingToDrive}
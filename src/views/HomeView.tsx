@@ -2,10 +2,14 @@ import React, { useEffect } from 'react';
 
 import { 
   Lightning, SignIn, SignOut, Spinner, Moon, Sun, Microphone, UploadSimple, 
-  Link, ArrowLeft, ArrowRight, FileText, Sparkle, Users, User, Check, WarningCircle, Brain, Info, Clock, X, GoogleLogo, FileAudio, FileVideo
+  Link, ArrowLeft, ArrowRight, FileText, Sparkle, Users, User, Check, WarningCircle, Brain, Info, Clock, X, GoogleLogo, FileAudio, FileVideo, Timer,
+  Waveform
 
 } from '@phosphor-icons/react';
-import { AudioSource, AudioFile, TranscriptionState } from '../../types';
+import { AudioSource, AudioFile, AudioPreprocessingOptions, TranscriptionProviderPreference, TranscriptionState } from '../../types';
+import { getProviderRejection, listTranscriptionProviders, resolveTranscriptionProvider } from '../../services/transcriptionProviders';
+import { isPreprocessingEnabled, renderPreprocessingPreview } from '../../utils/audioPreprocessing';
+import { SILENCE_REMOVAL } from '../config/aiModels';
 import AudioRecorder from '../../components/AudioRecorder';
 import FileUploader from '../../components/FileUploader';
 import UrlLoader from '../../components/UrlLoader';
@@ -31,6 +35,12 @@ interface HomeViewProps {
   setIsSpeakerDetectEnabled: (val: boolean) => void;
   isDeepThinking: boolean;
   setIsDeepThinking: (val: boolean) => void;
+  transcriptionProvider: TranscriptionProviderPreference;
+  setTranscriptionProvider: (val: TranscriptionProviderPreference) => void;
+  isWordTimingEnabled: boolean;
+  setIsWordTimingEnabled: (val: boolean) => void;
+  audioPreprocessing: AudioPreprocessingOptions;
+  setAudioPreprocessing: (val: AudioPreprocessingOptions) => void;
   isReadyToTranscribe: () => boolean;
   handleTranscribe: (overrides?: {
     source?: AudioSource | null;
@@ -59,6 +69,7 @@ interface HomeViewProps {
   isPickerOpen: boolean;
   handlePickDriveFile: (file: { id: string; name: string; mimeType: string }) => void;
   onStartSmartEditor: () => void;
+  onImportTranscript: (files: File[]) => void;
   onNewSession: (source: AudioSource) => void;
   hasDrafts: boolean;
   onResumeDraft: () => void;
@@ -73,13 +84,16 @@ const HomeView: React.FC<HomeViewProps> = ({
 
   isSpeakerDetectEnabled, setIsSpeakerDetectEnabled,
   isDeepThinking, setIsDeepThinking,
+  transcriptionProvider, setTranscriptionProvider,
+  isWordTimingEnabled, setIsWordTimingEnabled,
+  audioPreprocessing, setAudioPreprocessing,
   isReadyToTranscribe, handleTranscribe,
   setRecordedBlob, setMicUrl, setTranscription, setContentType,
   uploadedFile, setUploadedFile, transcriptionError,
   setShowArchiveSidebar, archiveItems, setEditorMode,
   isAutoEditEnabled, setIsAutoEditEnabled, isWebSpeechSupported,
    handleBackgroundTranscribe, setPickerCallback, setIsPickerOpen, isPickerOpen, handlePickDriveFile,
-   onStartSmartEditor, onNewSession, hasDrafts, onResumeDraft
+   onStartSmartEditor, onImportTranscript, onNewSession, hasDrafts, onResumeDraft
  }) => {
 
   const { darkMode, setDarkMode } = useTheme();
@@ -90,6 +104,10 @@ const HomeView: React.FC<HomeViewProps> = ({
   const [previewBlob, setPreviewBlob] = React.useState<Blob | null>(null);
   const [previewFile, setPreviewFile] = React.useState<AudioFile | null>(null);
   const [wizardError, setWizardError] = React.useState<string | null>(null);
+  const importInputRef = React.useRef<HTMLInputElement>(null);
+  const [cleanupPreview, setCleanupPreview] = React.useState<{ before: string; after: string } | null>(null);
+  const [isRenderingCleanup, setIsRenderingCleanup] = React.useState(false);
+  const [cleanupError, setCleanupError] = React.useState<string | null>(null);
 
   const handleWizardReset = () => {
     setWizardStep('source');
@@ -119,6 +137,76 @@ const HomeView: React.FC<HomeViewProps> = ({
 
   const shouldShowWizard = activeTab !== null;
 
+  // Which engines can take the previewed media, and where 'auto' would send it
+  const engineOptions = React.useMemo(() => {
+    if (!previewFile) return null;
+    const media = previewBlob || previewFile.file;
+    if (!media) return null;
+    const mime = previewFile.file?.type || previewFile.mimeType || media.type || '';
+    return {
+      providers: listTranscriptionProviders().map(provider => ({
+        provider,
+        rejection: getProviderRejection(provider, media, mime)
+      })),
+      autoProvider: resolveTranscriptionProvider('auto', media, mime, {
+        detectSpeakers: isSpeakerDetectEnabled,
+        wordTimestamps: isWordTimingEnabled
+      })
+    };
+  }, [previewBlob, previewFile, isSpeakerDetectEnabled, isWordTimingEnabled]);
+
+  const selectedEngine = engineOptions
+    ? transcriptionProvider === 'auto'
+      ? engineOptions.autoProvider
+      : engineOptions.providers.find(option => option.provider.id === transcriptionProvider)?.provider
+    : undefined;
+
+  const selectedEngineRejection = engineOptions?.providers.find(option => option.provider.id === transcriptionProvider)?.rejection;
+
+  // A rendered preview only matches the file and options it was made with; one still rendering is dropped
+  const cleanupRequestRef = React.useRef(0);
+  React.useEffect(() => {
+    cleanupRequestRef.current += 1;
+    setCleanupPreview(null);
+    setCleanupError(null);
+    setIsRenderingCleanup(false);
+  }, [previewFile, audioPreprocessing]);
+
+  React.useEffect(() => () => {
+    if (cleanupPreview) {
+      URL.revokeObjectURL(cleanupPreview.before);
+      URL.revokeObjectURL(cleanupPreview.after);
+    }
+  }, [cleanupPreview]);
+
+  const handleRenderCleanupPreview = async () => {
+    const media = previewBlob || previewFile?.file;
+    if (!media || !isPreprocessingEnabled(audioPreprocessing)) return;
+    const requestId = ++cleanupRequestRef.current;
+    setIsRenderingCleanup(true);
+    setCleanupError(null);
+    try {
+      const { before, after } = await renderPreprocessingPreview(media, audioPreprocessing, {
+        minSilenceSeconds: SILENCE_REMOVAL.MIN_SILENCE_SECONDS,
+        keptSilenceSeconds: SILENCE_REMOVAL.KEPT_SILENCE_SECONDS
+      });
+      if (requestId !== cleanupRequestRef.current) return;
+      setCleanupPreview({ before: URL.createObjectURL(before), after: URL.createObjectURL(after) });
+    } catch (error) {
+      if (requestId !== cleanupRequestRef.current) return;
+      setCleanupError(error instanceof Error ? error.message : 'Could not render the preview.');
+    } finally {
+      if (requestId === cleanupRequestRef.current) setIsRenderingCleanup(false);
+    }
+  };
+
+  const cleanupSteps: { key: keyof AudioPreprocessingOptions; label: string; hint: string }[] = [
+    { key: 'normalize', label: 'Normalize', hint: 'Consistent speech loudness' },
+    { key: 'speechFilter', label: 'Speech Band', hint: 'Cuts rumble and hiss outside the voice range' },
+    { key: 'noiseGate', label: 'Noise Gate', hint: 'Quiets the background between phrases' },
+    { key: 'removeSilence', label: 'Skip Silence', hint: `Shortens silences over ${SILENCE_REMOVAL.MIN_SILENCE_SECONDS}s; timestamps still match the original` }
+  ];
+
   const getPreviewIcon = () => {
     if (activeTab === AudioSource.MICROPHONE) return Microphone;
     const mime = previewFile?.file?.type || previewFile?.mimeType || '';
@@ -292,6 +380,27 @@ const HomeView: React.FC<HomeViewProps> = ({
                   </div>
                 </button>
 
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  title="Open an .srt, .vtt or .txt transcript. Select its audio/video too to sync playback."
+                  className="group flex items-center gap-3 px-4 py-2.5 rounded-full border border-slate-200/80 dark:border-white/10 bg-white/80 dark:bg-dark-card/60 text-slate-600 dark:text-slate-300 text-xs font-bold uppercase tracking-widest hover:shadow-md transition-all"
+                >
+                  <UploadSimple size={14} weight="duotone" className="text-primary" />
+                  Import Transcript
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  multiple
+                  accept=".srt,.vtt,.txt,.md,audio/*,video/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    const files = Array.from(e.target.files || []);
+                    e.target.value = '';
+                    if (files.length) onImportTranscript(files);
+                  }}
+                />
+
                 {hasDrafts && (
                   <button
                     onClick={() => safeNavigation(onResumeDraft)}
@@ -511,6 +620,39 @@ const HomeView: React.FC<HomeViewProps> = ({
                                 </p>
                               </div>
 
+                              {engineOptions && (
+                                <div className="flex flex-col gap-2">
+                                  <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400 px-1">Engine</div>
+                                  <div className="grid grid-cols-4 gap-1 p-1 bg-slate-200/50 dark:bg-white/5 rounded-xl">
+                                    <button
+                                      onClick={() => setTranscriptionProvider('auto')}
+                                      className={`py-2 rounded-lg text-[10px] font-bold transition-all ${transcriptionProvider === 'auto' ? 'bg-white dark:bg-dark-card text-primary dark:text-accent' : 'text-slate-500 hover:text-primary dark:text-slate-400 dark:hover:text-accent'}`}
+                                    >
+                                      Auto
+                                    </button>
+                                    {engineOptions.providers.map(({ provider, rejection }) => (
+                                      <button
+                                        key={provider.id}
+                                        onClick={() => setTranscriptionProvider(provider.id)}
+                                        disabled={!!rejection}
+                                        title={rejection || provider.label}
+                                        className={`py-2 rounded-lg text-[10px] font-bold transition-all disabled:opacity-40 disabled:cursor-not-allowed ${transcriptionProvider === provider.id ? 'bg-white dark:bg-dark-card text-primary dark:text-accent' : 'text-slate-500 hover:text-primary dark:text-slate-400 dark:hover:text-accent'}`}
+                                      >
+                                        {provider.label}
+                                      </button>
+                                    ))}
+                                  </div>
+                                  <p className="text-[10px] text-slate-500 px-1 leading-relaxed">
+                                    {selectedEngineRejection
+                                      ? selectedEngineRejection
+                                      : transcriptionProvider === 'auto'
+                                        ? `Routed to ${engineOptions.autoProvider.label} for this file.`
+                                        : `Using ${selectedEngine?.label}.`}
+                                    {!selectedEngineRejection && isSpeakerDetectEnabled && selectedEngine && !selectedEngine.capabilities.diarization && ' Speaker labels are not available with this engine.'}
+                                  </p>
+                                </div>
+                              )}
+
                               <div className="flex flex-col gap-2">
                                 <button 
                                   onClick={() => setIsSpeakerDetectEnabled(!isSpeakerDetectEnabled)}
@@ -530,6 +672,26 @@ const HomeView: React.FC<HomeViewProps> = ({
                                   </div>
                                 </button>
 
+                                {selectedEngine?.capabilities.wordTimestamps && (
+                                  <button
+                                    onClick={() => setIsWordTimingEnabled(!isWordTimingEnabled)}
+                                    className={`flex items-center justify-between p-3 rounded-xl border transition-all ${isWordTimingEnabled ? 'bg-primary/5 border-primary/30' : 'bg-transparent border-slate-200 dark:border-white/10 opacity-70 hover:opacity-100 hover:border-primary/30'}`}
+                                  >
+                                    <div className="flex items-center gap-3">
+                                      <div className={`w-8 h-8 rounded-full flex items-center justify-center ${isWordTimingEnabled ? 'bg-primary/10 text-primary' : 'bg-slate-100 dark:bg-white/10'}`}>
+                                        <Timer size={16} weight="duotone" />
+                                      </div>
+                                      <div className="text-left">
+                                        <div className="text-xs font-bold text-slate-700 dark:text-slate-200">Word Timings</div>
+                                        <div className="text-[10px] text-slate-500">{isWordTimingEnabled ? "Per-word sync and confidence" : "Timestamps per speaker turn"}</div>
+                                      </div>
+                                    </div>
+                                    <div className={`w-4 h-4 rounded-full border-2 flex items-center justify-center transition-all ${isWordTimingEnabled ? 'border-primary bg-primary' : 'border-slate-300 dark:border-slate-600'}`}>
+                                      {isWordTimingEnabled && <Check size={10} color="white" weight="bold" />}
+                                    </div>
+                                  </button>
+                                )}
+
                                 {transcriptionMode === 'polish' && (
                                   <button 
                                     onClick={() => setIsDeepThinking(!isDeepThinking)}
@@ -550,6 +712,49 @@ const HomeView: React.FC<HomeViewProps> = ({
                                   </button>
                                 )}
                               </div>
+
+                              <div className="flex flex-col gap-2">
+                                <div className="text-[10px] font-bold uppercase tracking-widest text-slate-400 px-1">Audio Clean-up</div>
+                                <div className="grid grid-cols-4 gap-1 p-1 bg-slate-200/50 dark:bg-white/5 rounded-xl">
+                                  {cleanupSteps.map(step => (
+                                    <button
+                                      key={step.key}
+                                      onClick={() => setAudioPreprocessing({ ...audioPreprocessing, [step.key]: !audioPreprocessing[step.key] })}
+                                      title={step.hint}
+                                      className={`py-2 rounded-lg text-[10px] font-bold transition-all ${audioPreprocessing[step.key] ? 'bg-white dark:bg-dark-card text-primary dark:text-accent' : 'text-slate-500 hover:text-primary dark:text-slate-400 dark:hover:text-accent'}`}
+                                    >
+                                      {step.label}
+                                    </button>
+                                  ))}
+                                </div>
+                                {isPreprocessingEnabled(audioPreprocessing) ? (
+                                  <div className="flex flex-col gap-2">
+                                    <button
+                                      type="button"
+                                      onClick={handleRenderCleanupPreview}
+                                      disabled={isRenderingCleanup}
+                                      className="flex items-center justify-center gap-2 py-2 rounded-xl border border-slate-200 dark:border-white/10 text-[10px] font-bold text-slate-600 dark:text-slate-300 hover:border-primary/30 hover:text-primary transition-all disabled:opacity-60"
+                                    >
+                                      {isRenderingCleanup ? <Spinner size={12} weight="bold" className="animate-spin" /> : <Waveform size={12} weight="bold" />}
+                                      {isRenderingCleanup ? 'Rendering preview...' : cleanupPreview ? 'Render preview again' : 'Preview before / after'}
+                                    </button>
+                                    {cleanupPreview && (
+                                      <div className="flex flex-col gap-2">
+                                        <div className="text-[10px] font-bold text-slate-500 px-1">Before</div>
+                                        <audio className="w-full h-8" controls src={cleanupPreview.before} />
+                                        <div className="text-[10px] font-bold text-slate-500 px-1">After</div>
+                                        <audio className="w-full h-8" controls src={cleanupPreview.after} />
+                                        <p className="text-[10px] text-slate-500 px-1 leading-relaxed">First 20 seconds, as the engine will hear them.</p>
+                                      </div>
+                                    )}
+                                    {cleanupError && (
+                                      <p className="text-[10px] text-red-500 px-1 leading-relaxed">{cleanupError}</p>
+                                    )}
+                                  </div>
+                                ) : (
+                                  <p className="text-[10px] text-slate-500 px-1 leading-relaxed">Audio is sent as recorded.</p>
+                                )}
+                              </div>
                             </div>
 
                             <div className="flex items-center">
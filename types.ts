@@ -8,8 +8,76 @@ export interface TranscriptionState {
   isLoading: boolean;
   text: string | null;
   error: string | null;
+  /** Engine that actually produced the text (may differ from the one requested after failover) */
+  engine?: TranscriptionProviderId;
+  /** Word timings from the engine, kept beside the markdown and re-attached on parse */
+  words?: TranscriptWord[];
+  /** Set when the text came from the local cache; when it was originally transcribed */
+  cachedAt?: string;
+  /** Latest translation of the transcript, shown beside it in the editor */
+  translation?: TranscriptTranslation;
+  /** Speaker panel settings, keyed by the speaker label used in the text */
+  speakerProfiles?: Record<string, SpeakerProfile>;
+  /** Proofreading progress in review mode */
+  review?: TranscriptReview;
+  /** AI edits waiting to be accepted or rejected */
+  suggestions?: SuggestedEdits;
+  /** Saved versions of the text, oldest first */
+  snapshots?: TranscriptSnapshot[];
 }
 
+export interface TranscriptSnapshot {
+  id: string;
+  name: string;
+  text: string;
+  /** ISO date */
+  createdAt: string;
+  /** Taken by the app (before an AI action, on export) rather than saved by the user */
+  automatic: boolean;
+}
+
+/** One AI edit: replaces `baseText.slice(start, end)` with `insert` */
+export interface TrackedChange {
+  id: string;
+  start: number;
+  end: number;
+  insert: string;
+  status: 'pending' | 'accepted' | 'rejected';
+}
+
+export interface SuggestedEdits {
+  /** The AI action that made them, e.g. "Smart Fix" */
+  source: string;
+  /** The transcript as it was when the edits were suggested */
+  baseText: string;
+  changes: TrackedChange[];
+}
+
+export interface TranscriptReview {
+  /** Keys of flags the reviewer accepted as they are */
+  resolved: string[];
+  /** Flags resolved by changing the text, which no longer appear */
+  applied: number;
+}
+
+export interface SpeakerProfile {
+  /** Hex colour used for the speaker's turns in the editor and on the playback bar */
+  color: string;
+  /** Named by the user; AI speaker refinement keeps the label as it is */
+  confirmed?: boolean;
+}
+
+export interface TranscriptTranslation {
+  language: string;
+  /** Transcript markdown with the same segments, timestamps and speakers as the original */
+  text: string;
+  /** The original text that was translated, to tell when the translation is out of date */
+  sourceText: string;
+}
+
+/** Which text an export is made from once a transcript has a translation */
+export type TranscriptExportVersion = 'original' | 'translation' | 'both';
+
 export interface AudioFile {
   file: File | null;
   previewUrl: string | null;
@@ -17,7 +85,53 @@ export interface AudioFile {
   mimeType: string | null;
 }
 
-export type ArchiveStatus = 'loading' | 'complete' | 'error';
+export type ArchiveStatus = 'queued' | 'loading' | 'paused' | 'complete' | 'error' | 'cancelled';
+
+export type TranscriptionJobPriority = 'high' | 'normal' | 'low';
+
+/** Optional clean-up applied to the audio before it is transcribed */
+export interface AudioPreprocessingOptions {
+  /** Brings quiet or loud recordings to a consistent speech level */
+  normalize: boolean;
+  /** High-pass and low-pass filtering to the speech band */
+  speechFilter: boolean;
+  /** Turns the background down between phrases */
+  noiseGate: boolean;
+  /** Shortens long silences before sending; timestamps are mapped back to the original */
+  removeSilence: boolean;
+}
+
+/** Transcription settings, captured when a job is queued so a resumed job runs the same way */
+export interface TranscriptionSettings {
+  provider: TranscriptionProviderPreference;
+  mode: 'verbatim' | 'polish';
+  detectSpeakers: boolean;
+  deepThinking: boolean;
+  wordTimestamps: boolean;
+  preprocessing?: AudioPreprocessingOptions;
+}
+
+/** One finished chunk of a chunked job */
+export interface TranscriptionChunkResult {
+  index: number;
+  text: string;
+  engine: TranscriptionProviderId;
+  words?: TranscriptWord[];
+}
+
+/** Queue state for an archive item that is (or was) transcribed in the background */
+export interface TranscriptionJob {
+  priority: TranscriptionJobPriority;
+  mimeType: string;
+  settings: TranscriptionSettings;
+  queuedAt: string;
+  attempts: number;
+  /** Latest status line from the engine */
+  statusMessage?: string;
+  totalChunks?: number;
+  /** Kept so an interrupted job resumes after the last completed chunk */
+  completedChunks: TranscriptionChunkResult[];
+}
 
 export interface ArchiveItem {
   id: string;
@@ -28,6 +142,62 @@ export interface ArchiveItem {
   progress: number;
   error?: string;
   audioUrl?: string | null;
+  /** Key of the saved media blob, so the audio survives a reload */
+  mediaId?: string;
+  engine?: TranscriptionProviderId;
+  words?: TranscriptWord[];
+  /** ISO timestamp; `date` is a display string and cannot be sorted reliably */
+  createdAt?: string;
+  tags?: string[];
+  /** Folder name, or unset for the top level */
+  folder?: string | null;
+  /** Category from classifyContent (Podcast, Meeting, ...) */
+  contentType?: string | null;
+  durationSeconds?: number | null;
+  /** Present while the item is queued, running, paused or retryable */
+  job?: TranscriptionJob;
+}
+
+export type TranscriptionProviderId = 'gemini' | 'groq' | 'webspeech';
+
+/** A specific engine, or 'auto' to let the routing rules decide per job */
+export type TranscriptionProviderPreference = TranscriptionProviderId | 'auto';
+
+export interface TranscriptSpeaker {
+  id: string;
+  label: string;
+}
+
+export interface TranscriptWord {
+  text: string;
+  /** Seconds from the start of the media. */
+  start: number;
+  end: number;
+  /** 0-1, when the engine reports it. */
+  confidence?: number;
+}
+
+export interface TranscriptSegment {
+  id: string;
+  /** Seconds from the start of the media, or null when the turn carries no timestamp. */
+  start: number | null;
+  end: number | null;
+  speakerId: string | null;
+  /** Markdown body of the turn, without the timestamp and speaker label. */
+  text: string;
+  /** Mean word confidence, when word timings are available. */
+  confidence?: number;
+  /** Word timings that fall inside this turn, when the transcript was made with word timestamps. */
+  words?: TranscriptWord[];
+  /** Index of the audio chunk that produced this segment when the media was split. */
+  sourceChunk?: number;
+}
+
+export interface Transcript {
+  /** Any content before the first speaker turn (titles, notes). */
+  preamble: string;
+  segments: TranscriptSegment[];
+  speakers: TranscriptSpeaker[];
 }
 
 export interface EditorTab {
@@ -38,6 +208,8 @@ export interface EditorTab {
   recordedBlob: Blob | null;
   micUrl: string | null;
   uploadedFile: AudioFile | null;
+  /** Key the tab's media is saved under; archive items opened in a tab share their key */
+  mediaId?: string;
   isEditorMode: boolean;
   showAiSidebar: boolean;
 }
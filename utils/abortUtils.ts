@@ -0,0 +1,61 @@
+/**
+ * Cancellation helpers shared by the transcription services.
+ * Every request, upload and cooldown in the pipeline takes an optional
+ * AbortSignal and fails with TranscriptionCancelledError once it fires.
+ */
+
+export class TranscriptionCancelledError extends Error {
+  constructor(message = 'Transcription cancelled.') {
+    super(message);
+    this.name = 'TranscriptionCancelledError';
+  }
+}
+
+/**
+ * True for our own cancellation error and for fetch's native AbortError.
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof TranscriptionCancelledError ||
+  (error instanceof Error && error.name === 'AbortError');
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new TranscriptionCancelledError();
+};
+
+/**
+ * setTimeout as a promise that rejects as soon as the signal aborts.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new TranscriptionCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new TranscriptionCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Aborts an XHR when the signal fires and rejects its promise with a
+ * cancellation error. Call before `xhr.send()`.
+ */
+export const bindXhrToSignal = (xhr: XMLHttpRequest, signal: AbortSignal | undefined, reject: (reason: unknown) => void) => {
+  if (!signal) return;
+  const onAbort = () => {
+    xhr.abort();
+    reject(new TranscriptionCancelledError());
+  };
+  if (signal.aborted) {
+    onAbort();
+    return;
+  }
+  signal.addEventListener('abort', onAbort, { once: true });
+  xhr.addEventListener('loadend', () => signal.removeEventListener('abort', onAbort));
+};
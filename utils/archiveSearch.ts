@@ -0,0 +1,259 @@
+import { ArchiveItem, ArchiveStatus } from '../types';
+import { parseTranscript } from './transcriptModel';
+
+/**
+ * Search, filtering and sorting for the Sessions archive.
+ * Each item's searchable words are tokenized once and cached by item
+ * reference, then gathered into an inverted index (word -> item ids).
+ */
+
+export type ArchiveDateRange = 'any' | 'today' | 'week' | 'month' | 'year';
+export type ArchiveDurationRange = 'any' | 'short' | 'medium' | 'long';
+export type ArchiveSort = 'relevance' | 'newest' | 'oldest' | 'name' | 'longest' | 'shortest';
+
+export interface ArchiveFilters {
+  /** null for every folder, '' for items outside any folder */
+  folder: string | null;
+  tag: string | null;
+  status: ArchiveStatus | null;
+  contentType: string | null;
+  dateRange: ArchiveDateRange;
+  duration: ArchiveDurationRange;
+}
+
+export const DEFAULT_ARCHIVE_FILTERS: ArchiveFilters = {
+  folder: null,
+  tag: null,
+  status: null,
+  contentType: null,
+  dateRange: 'any',
+  duration: 'any'
+};
+
+export const ARCHIVE_DATE_RANGES: Record<ArchiveDateRange, string> = {
+  any: 'Any time',
+  today: 'Today',
+  week: 'Past 7 days',
+  month: 'Past 30 days',
+  year: 'Past year'
+};
+
+export const ARCHIVE_DURATION_RANGES: Record<ArchiveDurationRange, string> = {
+  any: 'Any length',
+  short: 'Under 5 min',
+  medium: '5 - 30 min',
+  long: 'Over 30 min'
+};
+
+export const ARCHIVE_SORTS: Record<ArchiveSort, string> = {
+  relevance: 'Best match',
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  name: 'Name (A-Z)',
+  longest: 'Longest first',
+  shortest: 'Shortest first'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_RANGE_MS: Record<Exclude<ArchiveDateRange, 'any' | 'today'>, number> = {
+  week: 7 * DAY_MS,
+  month: 30 * DAY_MS,
+  year: 365 * DAY_MS
+};
+
+// Where a token was found; matches in titles and speakers outrank body text
+const FIELD_WEIGHTS = { name: 5, speaker: 3, tag: 3, text: 1 };
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+export interface ArchiveIndex {
+  tokens: Map<string, Map<string, number>>;
+}
+
+const normalize = (value: string) => value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const tokenize = (value: string) => normalize(value).match(/[\p{L}\p{N}]+/gu) || [];
+
+const itemTokenCache = new WeakMap<ArchiveItem, Map<string, number>>();
+
+/**
+ * Tokens for one item with their best field weight.
+ */
+const getItemTokens = (item: ArchiveItem) => {
+  const cached = itemTokenCache.get(item);
+  if (cached) return cached;
+
+  const tokens = new Map<string, number>();
+  const add = (value: string, field: SearchField) => {
+    tokenize(value).forEach(token => tokens.set(token, Math.max(tokens.get(token) || 0, FIELD_WEIGHTS[field])));
+  };
+  add(item.text || '', 'text');
+  parseTranscript(item.text || '').speakers.forEach(speaker => add(speaker.label, 'speaker'));
+  (item.tags || []).forEach(tag => add(tag, 'tag'));
+  add(item.name, 'name');
+
+  itemTokenCache.set(item, tokens);
+  return tokens;
+};
+
+export const buildArchiveIndex = (items: ArchiveItem[]): ArchiveIndex => {
+  const tokens = new Map<string, Map<string, number>>();
+  items.forEach(item => {
+    getItemTokens(item).forEach((weight, token) => {
+      let postings = tokens.get(token);
+      if (!postings) {
+        postings = new Map();
+        tokens.set(token, postings);
+      }
+      postings.set(item.id, weight);
+    });
+  });
+  return { tokens };
+};
+
+/**
+ * Returns matching item ids with a relevance score. Every query word must
+ * match; the last one also matches as a prefix so results update while typing.
+ * Returns null for an empty query.
+ */
+export const searchArchive = (index: ArchiveIndex, query: string): Map<string, number> | null => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return null;
+
+  let scores: Map<string, number> | null = null;
+  terms.forEach((term, i) => {
+    const termScores = new Map<string, number>();
+    const collect = (postings: Map<string, number>, factor: number) => {
+      postings.forEach((weight, id) => termScores.set(id, Math.max(termScores.get(id) || 0, weight * factor)));
+    };
+
+    const exact = index.tokens.get(term);
+    if (exact) collect(exact, 1);
+    if (i === terms.length - 1) {
+      index.tokens.forEach((postings, token) => {
+        if (token !== term && token.startsWith(term)) collect(postings, 0.5);
+      });
+    }
+
+    const previous: Map<string, number> | null = scores;
+    const merged = new Map<string, number>();
+    termScores.forEach((score, id) => {
+      if (previous === null) merged.set(id, score);
+      else if (previous.has(id)) merged.set(id, (previous.get(id) as number) + score);
+    });
+    scores = merged;
+  });
+  return scores;
+};
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+/**
+ * Cuts a short excerpt around the first query match in the transcript and
+ * splits it into highlighted and plain parts. Returns null when the text has no match.
+ */
+export const getSearchSnippet = (text: string, query: string, radius = 60): SnippetPart[] | null => {
+  const terms = tokenize(query);
+  if (terms.length === 0 || !text) return null;
+
+  // Strip markdown and timestamps so the excerpt reads as plain speech
+  const plain = text.replace(/\[\d{1,2}:\d{2}(?::\d{2})?\]/g, '').replace(/[*_#>`]/g, '').replace(/\s+/g, ' ').trim();
+  const normalized = normalize(plain);
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})[\\p{L}\\p{N}]*`, 'gu');
+  const first = pattern.exec(normalized);
+  if (!first) return null;
+
+  const start = Math.max(0, first.index - radius);
+  const end = Math.min(plain.length, first.index + first[0].length + radius);
+  const parts: SnippetPart[] = [];
+  if (start > 0) parts.push({ text: '…', highlight: false });
+
+  // normalize() keeps string length for Latin text, so match offsets map back onto the original
+  let cursor = start;
+  pattern.lastIndex = start;
+  for (let match = pattern.exec(normalized); match && match.index < end; match = pattern.exec(normalized)) {
+    const matchEnd = Math.min(match.index + match[0].length, end);
+    if (match.index > cursor) parts.push({ text: plain.slice(cursor, match.index), highlight: false });
+    parts.push({ text: plain.slice(match.index, matchEnd), highlight: true });
+    cursor = matchEnd;
+  }
+  if (cursor < end) parts.push({ text: plain.slice(cursor, end), highlight: false });
+  if (end < plain.length) parts.push({ text: '…', highlight: false });
+  return parts;
+};
+
+/**
+ * Creation time in ms. Older items only have the localized `date` string,
+ * which Date.parse understands in most locales.
+ */
+export const getArchiveItemTime = (item: ArchiveItem) => {
+  const time = Date.parse(item.createdAt || item.date);
+  return Number.isNaN(time) ? 0 : time;
+};
+
+const matchesDateRange = (item: ArchiveItem, range: ArchiveDateRange, now: number) => {
+  if (range === 'any') return true;
+  const time = getArchiveItemTime(item);
+  if (!time) return false;
+  if (range === 'today') return new Date(time).toDateString() === new Date(now).toDateString();
+  return now - time <= DATE_RANGE_MS[range];
+};
+
+const matchesDuration = (item: ArchiveItem, range: ArchiveDurationRange) => {
+  if (range === 'any') return true;
+  const seconds = item.durationSeconds;
+  if (seconds === null || seconds === undefined) return false;
+  if (range === 'short') return seconds < 5 * 60;
+  if (range === 'medium') return seconds >= 5 * 60 && seconds <= 30 * 60;
+  return seconds > 30 * 60;
+};
+
+export const filterArchiveItems = (items: ArchiveItem[], filters: ArchiveFilters, now = Date.now()) =>
+  items.filter(item =>
+    (filters.folder === null || (item.folder || '') === filters.folder) &&
+    (filters.tag === null || (item.tags || []).includes(filters.tag)) &&
+    (filters.status === null || item.status === filters.status) &&
+    (filters.contentType === null || item.contentType === filters.contentType) &&
+    matchesDateRange(item, filters.dateRange, now) &&
+    matchesDuration(item, filters.duration)
+  );
+
+/**
+ * Sorts items; 'relevance' falls back to newest first when there is no query.
+ */
+export const sortArchiveItems = (items: ArchiveItem[], sort: ArchiveSort, scores: Map<string, number> | null) => {
+  const byNewest = (a: ArchiveItem, b: ArchiveItem) => getArchiveItemTime(b) - getArchiveItemTime(a);
+  const sorted = [...items];
+  switch (sort) {
+    case 'relevance':
+      return scores ? sorted.sort((a, b) => (scores.get(b.id) || 0) - (scores.get(a.id) || 0) || byNewest(a, b)) : sorted;
+    case 'newest':
+      return sorted.sort(byNewest);
+    case 'oldest':
+      return sorted.sort((a, b) => -byNewest(a, b));
+    case 'name':
+      return sorted.sort((a, b) => a.name.localeCompare(b.name));
+    case 'longest':
+      return sorted.sort((a, b) => (b.durationSeconds || 0) - (a.durationSeconds || 0));
+    case 'shortest':
+      return sorted.sort((a, b) => (a.durationSeconds ?? Infinity) - (b.durationSeconds ?? Infinity));
+  }
+};
+
+/**
+ * Distinct folders, tags and content types across the archive, for the filter menus.
+ */
+export const getArchiveFacets = (items: ArchiveItem[]) => {
+  const folders = new Set<string>();
+  const tags = new Set<string>();
+  const contentTypes = new Set<string>();
+  items.forEach(item => {
+    if (item.folder) folders.add(item.folder);
+    (item.tags || []).forEach(tag => tags.add(tag));
+    if (item.contentType) contentTypes.add(item.contentType);
+  });
+  const sortNames = (values: Set<string>) => Array.from(values).sort((a, b) => a.localeCompare(b));
+  return { folders: sortNames(folders), tags: sortNames(tags), contentTypes: sortNames(contentTypes) };
+};
@@ -0,0 +1,362 @@
+/**
+ * Shared audio encoding for chunked transcription and trimming.
+ * Speech is downmixed to mono and resampled to 16 kHz (what the speech engines
+ * work at internally), then written as FLAC, which is lossless and about half the
+ * size of 16-bit WAV, or as WAV for targets that do not take FLAC.
+ */
+
+export type AudioEncodingFormat = 'flac' | 'wav';
+
+export const AUDIO_ENCODING_MIME_TYPES: Record<AudioEncodingFormat, string> = {
+  flac: 'audio/flac',
+  wav: 'audio/wav'
+};
+
+// Smallest first
+const FORMAT_PREFERENCE: AudioEncodingFormat[] = ['flac', 'wav'];
+
+export const SPEECH_SAMPLE_RATE = 16000;
+
+/**
+ * The smallest format the target accepts, falling back to WAV.
+ */
+export const pickEncodingFormat = (accepts: (mimeType: string) => boolean): AudioEncodingFormat =>
+  FORMAT_PREFERENCE.find(format => accepts(AUDIO_ENCODING_MIME_TYPES[format])) || 'wav';
+
+/**
+ * Downmixes to mono and resamples for speech recognition. Returns the buffer
+ * unchanged when it already matches or the browser has no OfflineAudioContext.
+ */
+export const prepareSpeechBuffer = async (buffer: AudioBuffer, sampleRate: number = SPEECH_SAMPLE_RATE): Promise<AudioBuffer> => {
+  const OfflineContextClass = (window as any).OfflineAudioContext || (window as any).webkitOfflineAudioContext;
+  if (!OfflineContextClass || (buffer.numberOfChannels === 1 && buffer.sampleRate === sampleRate)) return buffer;
+
+  const offline: OfflineAudioContext = new OfflineContextClass(1, Math.max(1, Math.ceil(buffer.duration * sampleRate)), sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  // A mono destination mixes stereo input down to (L + R) / 2
+  source.connect(offline.destination);
+  source.start();
+  return offline.startRendering();
+};
+
+/**
+ * Encodes planar samples (one array per channel, -1..1) in the given format.
+ */
+export const encodeAudio = (channels: Float32Array[], sampleRate: number, format: AudioEncodingFormat): Blob => {
+  const data = format === 'flac' ? encodeFlac(channels, sampleRate) : encodeWav(channels, sampleRate);
+  return new Blob([data], { type: AUDIO_ENCODING_MIME_TYPES[format] });
+};
+
+/**
+ * Samples of an AudioBuffer between two sample offsets, one view per channel (no copy).
+ */
+export const getChannelSlices = (buffer: AudioBuffer, startSample: number, endSample: number) =>
+  Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel).subarray(startSample, endSample));
+
+const toInt16 = (sample: number) => {
+  const clamped = Math.max(-1, Math.min(1, sample));
+  return clamped < 0 ? Math.round(clamped * 0x8000) : Math.round(clamped * 0x7fff);
+};
+
+/**
+ * 16-bit PCM WAV.
+ */
+export const encodeWav = (channels: Float32Array[], sampleRate: number): ArrayBuffer => {
+  const numChannels = channels.length;
+  const samples = channels[0]?.length || 0;
+  const blockAlign = numChannels * 2;
+  const dataSize = samples * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i += 1) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < samples; i += 1) {
+    for (let channel = 0; channel < numChannels; channel += 1) {
+      view.setInt16(offset, toInt16(channels[channel][i]), true);
+      offset += 2;
+    }
+  }
+  return buffer;
+};
+
+// --- FLAC ---------------------------------------------------------------
+
+const FLAC_BLOCK_SIZE = 4096;
+const FLAC_BITS_PER_SAMPLE = 16;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 6;
+const MAX_RICE_PARAMETER = 14;
+
+class BitWriter {
+  bytes = new Uint8Array(1 << 16);
+  length = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  private pushByte(value: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length] = value;
+    this.length += 1;
+  }
+
+  /** Writes the low `bits` bits of `value`, most significant first (bits <= 32). */
+  write(value: number, bits: number) {
+    while (bits > 0) {
+      const take = Math.min(8 - this.accBits, bits);
+      const chunk = (value >>> (bits - take)) & ((1 << take) - 1);
+      this.acc = (this.acc << take) | chunk;
+      this.accBits += take;
+      bits -= take;
+      if (this.accBits === 8) {
+        this.pushByte(this.acc);
+        this.acc = 0;
+        this.accBits = 0;
+      }
+    }
+  }
+
+  /** `count` zero bits followed by a one. */
+  writeUnary(count: number) {
+    while (count >= 24) {
+      this.write(0, 24);
+      count -= 24;
+    }
+    this.write(1, count + 1);
+  }
+
+  alignToByte() {
+    if (this.accBits > 0) this.write(0, 8 - this.accBits);
+  }
+}
+
+const crc8 = (bytes: Uint8Array, start: number, end: number) => {
+  let crc = 0;
+  for (let i = start; i < end; i += 1) {
+    crc ^= bytes[i];
+    for (let bit = 0; bit < 8; bit += 1) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+};
+
+const crc16 = (bytes: Uint8Array, start: number, end: number) => {
+  let crc = 0;
+  for (let i = start; i < end; i += 1) {
+    crc ^= bytes[i] << 8;
+    for (let bit = 0; bit < 8; bit += 1) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+};
+
+/** Frame numbers use the same variable-length scheme as UTF-8. */
+const writeUtf8Number = (writer: BitWriter, value: number) => {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  let continuation = 1;
+  while (value >= 2 ** (5 * continuation + 6)) continuation += 1;
+  writer.write(((0xff << (7 - continuation)) & 0xff) | Math.floor(value / 2 ** (6 * continuation)), 8);
+  for (let i = continuation - 1; i >= 0; i -= 1) {
+    writer.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+};
+
+/** Residuals of the fixed polynomial predictor of the given order. */
+const fixedResiduals = (samples: Int32Array, order: number) => {
+  const residuals = new Int32Array(samples.length - order);
+  for (let i = order; i < samples.length; i += 1) {
+    const s = samples;
+    let prediction = 0;
+    if (order === 1) prediction = s[i - 1];
+    else if (order === 2) prediction = 2 * s[i - 1] - s[i - 2];
+    else if (order === 3) prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3];
+    else if (order === 4) prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4];
+    residuals[i - order] = s[i] - prediction;
+  }
+  return residuals;
+};
+
+const foldResidual = (residual: number) => (residual >= 0 ? residual * 2 : -residual * 2 - 1);
+
+/** Cheapest Rice parameter for a run of folded residuals, and its cost in bits. */
+const bestRiceParameter = (folded: Uint32Array, start: number, end: number) => {
+  let sum = 0;
+  for (let i = start; i < end; i += 1) sum += folded[i];
+  const count = Math.max(1, end - start);
+  const estimate = Math.max(0, Math.min(MAX_RICE_PARAMETER, Math.floor(Math.log2(sum / count + 1))));
+
+  let best = { parameter: 0, bits: Infinity };
+  for (let parameter = Math.max(0, estimate - 1); parameter <= Math.min(MAX_RICE_PARAMETER, estimate + 1); parameter += 1) {
+    let bits = 0;
+    for (let i = start; i < end; i += 1) bits += (folded[i] >>> parameter) + 1 + parameter;
+    if (bits < best.bits) best = { parameter, bits };
+  }
+  return best;
+};
+
+/**
+ * Plans the Rice partitions for a residual block: picks the partition order
+ * and per-partition parameters with the fewest bits.
+ */
+const planResidual = (residuals: Int32Array, blockSize: number, predictorOrder: number) => {
+  const folded = new Uint32Array(residuals.length);
+  for (let i = 0; i < residuals.length; i += 1) folded[i] = foldResidual(residuals[i]);
+
+  let best = { order: 0, parameters: [0], bits: Infinity };
+  for (let order = 0; order <= MAX_PARTITION_ORDER; order += 1) {
+    const partitions = 1 << order;
+    if (blockSize % partitions !== 0) break;
+    const partitionSize = blockSize / partitions;
+    if (partitionSize <= predictorOrder) break;
+
+    const parameters: number[] = [];
+    let bits = 0;
+    let start = 0;
+    for (let p = 0; p < partitions; p += 1) {
+      const end = start + (p === 0 ? partitionSize - predictorOrder : partitionSize);
+      const choice = bestRiceParameter(folded, start, end);
+      parameters.push(choice.parameter);
+      bits += 4 + choice.bits;
+      start = end;
+    }
+    if (bits < best.bits) best = { order, parameters, bits };
+  }
+  return { folded, ...best };
+};
+
+const writeSubframe = (writer: BitWriter, samples: Int32Array) => {
+  const blockSize = samples.length;
+
+  if (samples.every(sample => sample === samples[0])) {
+    writer.write(0, 1);
+    writer.write(0b000000, 6);
+    writer.write(0, 1);
+    writer.write(samples[0], FLAC_BITS_PER_SAMPLE);
+    return;
+  }
+
+  // Pick the fixed predictor with the smallest total residual
+  let bestOrder = 0;
+  let bestResiduals = fixedResiduals(samples, 0);
+  let bestSum = Infinity;
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, blockSize - 1); order += 1) {
+    const residuals = order === 0 ? bestResiduals : fixedResiduals(samples, order);
+    let sum = 0;
+    for (let i = 0; i < residuals.length; i += 1) sum += Math.abs(residuals[i]);
+    if (sum < bestSum) {
+      bestOrder = order;
+      bestResiduals = residuals;
+      bestSum = sum;
+    }
+  }
+
+  const plan = planResidual(bestResiduals, blockSize, bestOrder);
+  const fixedBits = 8 + bestOrder * FLAC_BITS_PER_SAMPLE + 6 + plan.bits;
+  if (fixedBits >= 8 + blockSize * FLAC_BITS_PER_SAMPLE) {
+    writer.write(0, 1);
+    writer.write(0b000001, 6);
+    writer.write(0, 1);
+    for (let i = 0; i < blockSize; i += 1) writer.write(samples[i], FLAC_BITS_PER_SAMPLE);
+    return;
+  }
+
+  writer.write(0, 1);
+  writer.write(0b001000 | bestOrder, 6);
+  writer.write(0, 1);
+  for (let i = 0; i < bestOrder; i += 1) writer.write(samples[i], FLAC_BITS_PER_SAMPLE);
+
+  writer.write(0b00, 2); // Rice coding with 4-bit parameters
+  writer.write(plan.order, 4);
+  const partitions = 1 << plan.order;
+  const partitionSize = blockSize / partitions;
+  let index = 0;
+  for (let p = 0; p < partitions; p += 1) {
+    const parameter = plan.parameters[p];
+    writer.write(parameter, 4);
+    const end = index + (p === 0 ? partitionSize - bestOrder : partitionSize);
+    for (; index < end; index += 1) {
+      const value = plan.folded[index];
+      writer.writeUnary(value >>> parameter);
+      if (parameter > 0) writer.write(value & ((1 << parameter) - 1), parameter);
+    }
+  }
+};
+
+/**
+ * 16-bit FLAC with fixed predictors and Rice-coded residuals. Not as tight as
+ * a full LPC encoder, but lossless and much smaller than WAV for speech.
+ */
+export const encodeFlac = (channels: Float32Array[], sampleRate: number): ArrayBuffer => {
+  const numChannels = channels.length;
+  const totalSamples = channels[0]?.length || 0;
+  const writer = new BitWriter();
+
+  writer.write(0x664c6143, 32); // "fLaC"
+
+  // STREAMINFO, the only (and so last) metadata block
+  writer.write(1, 1);
+  writer.write(0, 7);
+  writer.write(34, 24);
+  const minBlockSize = totalSamples > 0 && totalSamples < FLAC_BLOCK_SIZE ? totalSamples : FLAC_BLOCK_SIZE;
+  writer.write(minBlockSize, 16);
+  writer.write(FLAC_BLOCK_SIZE, 16);
+  writer.write(0, 24); // min frame size unknown
+  writer.write(0, 24); // max frame size unknown
+  writer.write(sampleRate, 20);
+  writer.write(numChannels - 1, 3);
+  writer.write(FLAC_BITS_PER_SAMPLE - 1, 5);
+  writer.write(Math.floor(totalSamples / 2 ** 32), 4);
+  writer.write(totalSamples >>> 0, 32);
+  for (let i = 0; i < 4; i += 1) writer.write(0, 32); // MD5 not computed
+
+  const block = Array.from({ length: numChannels }, () => new Int32Array(FLAC_BLOCK_SIZE));
+  for (let frame = 0, offset = 0; offset < totalSamples; frame += 1, offset += FLAC_BLOCK_SIZE) {
+    const blockSize = Math.min(FLAC_BLOCK_SIZE, totalSamples - offset);
+    const frameStart = writer.length;
+
+    writer.write(0b11111111111110, 14);
+    writer.write(0, 1); // reserved
+    writer.write(0, 1); // fixed block size
+    writer.write(0b0111, 4); // block size in a 16-bit field below
+    writer.write(0b0000, 4); // sample rate from STREAMINFO
+    writer.write(numChannels - 1, 4); // independent channels
+    writer.write(0b100, 3); // 16 bits per sample
+    writer.write(0, 1); // reserved
+    writeUtf8Number(writer, frame);
+    writer.write(blockSize - 1, 16);
+    writer.write(crc8(writer.bytes, frameStart, writer.length), 8);
+
+    for (let channel = 0; channel < numChannels; channel += 1) {
+      const samples = block[channel].subarray(0, blockSize);
+      for (let i = 0; i < blockSize; i += 1) samples[i] = toInt16(channels[channel][offset + i]);
+      writeSubframe(writer, samples);
+    }
+
+    writer.alignToByte();
+    writer.write(crc16(writer.bytes, frameStart, writer.length), 16);
+  }
+
+  return writer.bytes.slice(0, writer.length).buffer;
+};
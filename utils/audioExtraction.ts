@@ -0,0 +1,56 @@
+import { AudioEncodingFormat, encodeAudio, getChannelSlices, prepareSpeechBuffer } from './audioEncoding';
+import { throwIfAborted } from './abortUtils';
+import { isPreprocessingEnabled, preprocessSpeechBuffer } from './audioPreprocessing';
+import { SilenceRemovalOptions, TimeMap, removeSilence } from './silenceRemoval';
+import { AudioPreprocessingOptions } from '../types';
+
+const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
+
+export interface ExtractedAudio {
+  blob: Blob;
+  durationSeconds: number;
+  /** Set when silences were shortened; maps times in `blob` back to the original media */
+  timeMap: TimeMap | null;
+}
+
+/**
+ * Decodes the audio track of a video file (MP4, MOV, WebM, MKV) in the browser and
+ * re-encodes it as 16 kHz mono speech audio, so video goes through the same chunked
+ * path as audio. Audio files come through here too when they are to be cleaned up
+ * (`preprocessing`) or have their silences shortened (`silenceRemoval`), so the
+ * recording is decoded once. Only the copy sent for transcription changes; the
+ * original is left alone for playback.
+ */
+export const extractAudioTrack = async (
+  video: Blob,
+  options: {
+    format?: AudioEncodingFormat;
+    preprocessing?: AudioPreprocessingOptions;
+    silenceRemoval?: SilenceRemovalOptions;
+    signal?: AbortSignal;
+  } = {}
+): Promise<ExtractedAudio> => {
+  if (!AudioContextClass) {
+    throw new Error('Audio extraction is not supported in this browser.');
+  }
+
+  const arrayBuffer = await video.arrayBuffer();
+  throwIfAborted(options.signal);
+
+  const audioContext = new AudioContextClass();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await audioContext.decodeAudioData(arrayBuffer);
+  } catch {
+    throw new Error('Could not read an audio track from this file. It may have no sound or use an unsupported codec.');
+  } finally {
+    await audioContext.close();
+  }
+  throwIfAborted(options.signal);
+
+  const speech = await prepareSpeechBuffer(decoded);
+  const cleaned = isPreprocessingEnabled(options.preprocessing) ? await preprocessSpeechBuffer(speech, options.preprocessing) : speech;
+  const { buffer: audio, timeMap } = options.silenceRemoval ? removeSilence(cleaned, options.silenceRemoval) : { buffer: cleaned, timeMap: null };
+  const blob = encodeAudio(getChannelSlices(audio, 0, audio.length), audio.sampleRate, options.format || 'flac');
+  return { blob, durationSeconds: audio.duration, timeMap };
+};
@@ -0,0 +1,27 @@
+/**
+ * Frame level measurements shared by the audio clean-up and silence removal passes.
+ */
+
+// Levels are measured per 20 ms frame
+export const FRAME_SECONDS = 0.02;
+
+/** RMS level of each frame in dB, all channels together. */
+export const measureFrameLevels = (buffer: AudioBuffer, frameSize: number) => {
+  const frameCount = Math.ceil(buffer.length / frameSize);
+  const power = new Float64Array(frameCount);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i += 1) power[Math.floor(i / frameSize)] += data[i] * data[i];
+  }
+  const levels = new Float32Array(frameCount);
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    const samples = Math.min(frameSize, buffer.length - frame * frameSize) * buffer.numberOfChannels;
+    levels[frame] = 10 * Math.log10(power[frame] / samples + 1e-12);
+  }
+  return levels;
+};
+
+export const percentile = (values: Float32Array, fraction: number) => {
+  const sorted = Float32Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+};
@@ -0,0 +1,205 @@
+import { AudioPreprocessingOptions } from '../types';
+import { encodeAudio, getChannelSlices, prepareSpeechBuffer } from './audioEncoding';
+import { FRAME_SECONDS, measureFrameLevels, percentile } from './audioLevels';
+import { SilenceRemovalOptions, removeSilence } from './silenceRemoval';
+
+/**
+ * Optional clean-up of speech audio before transcription, for quiet or noisy
+ * field recordings. Runs on the 16 kHz mono buffer the encoders already work on:
+ * a speech band filter rendered through an OfflineAudioContext, then a noise gate
+ * and loudness normalization applied to the rendered samples.
+ */
+
+const AudioContextClass = (window as any).AudioContext || (window as any).webkitAudioContext;
+
+// Below the lowest voices: removes rumble, handling and wind noise
+const HIGH_PASS_HZ = 80;
+// Just under the 8 kHz Nyquist limit of 16 kHz speech audio
+const LOW_PASS_HZ = 7600;
+
+// The gate opens this far above the noise floor (the 10th percentile frame level)
+const NOISE_FLOOR_PERCENTILE = 0.1;
+const GATE_OPEN_MARGIN_DB = 8;
+const GATE_ATTENUATION_DB = -18;
+// Keeps the gate open through the short dips inside a phrase
+const GATE_HOLD_SECONDS = 0.25;
+// Opens a little ahead of each phrase so its first consonant is not cut
+const GATE_LOOKAHEAD_SECONDS = 0.06;
+const GATE_ATTACK_SECONDS = 0.005;
+const GATE_RELEASE_SECONDS = 0.08;
+
+// Speech level is the RMS of the louder half of the frames, so long silences do not inflate the gain
+const TARGET_SPEECH_DB = -20;
+const PEAK_CEILING_DB = -1;
+const MAX_GAIN_DB = 30;
+
+const PREVIEW_SECONDS = 20;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+const gainToDb = (gain: number) => 20 * Math.log10(Math.max(gain, 1e-9));
+
+export const isPreprocessingEnabled = (options?: AudioPreprocessingOptions | null): options is AudioPreprocessingOptions =>
+  !!options && (options.normalize || options.speechFilter || options.noiseGate || options.removeSilence);
+
+const copyBuffer = (buffer: AudioBuffer, startSample = 0, endSample = buffer.length) => {
+  const copy = new AudioBuffer({
+    length: Math.max(1, endSample - startSample),
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate
+  });
+  getChannelSlices(buffer, startSample, endSample).forEach((samples, channel) => copy.copyToChannel(samples, channel));
+  return copy;
+};
+
+const applySpeechFilter = async (buffer: AudioBuffer): Promise<AudioBuffer> => {
+  const OfflineContextClass = (window as any).OfflineAudioContext || (window as any).webkitOfflineAudioContext;
+  if (!OfflineContextClass) return copyBuffer(buffer);
+
+  const offline: OfflineAudioContext = new OfflineContextClass(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+
+  const highPass = offline.createBiquadFilter();
+  highPass.type = 'highpass';
+  highPass.frequency.value = HIGH_PASS_HZ;
+  highPass.Q.value = Math.SQRT1_2;
+
+  const lowPass = offline.createBiquadFilter();
+  lowPass.type = 'lowpass';
+  lowPass.frequency.value = Math.min(LOW_PASS_HZ, buffer.sampleRate * 0.475);
+  lowPass.Q.value = Math.SQRT1_2;
+
+  source.connect(highPass).connect(lowPass).connect(offline.destination);
+  source.start();
+  return offline.startRendering();
+};
+
+/** Turns the level down between phrases, where only the background is heard. Works in place. */
+const applyNoiseGate = (buffer: AudioBuffer) => {
+  const { sampleRate } = buffer;
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const levels = measureFrameLevels(buffer, frameSize);
+  const noiseFloor = percentile(levels, NOISE_FLOOR_PERCENTILE);
+  // Without clear pauses (continuous speech or music) there is nothing to gate
+  if (percentile(levels, 0.9) - noiseFloor < GATE_OPEN_MARGIN_DB * 2) return;
+  const threshold = noiseFloor + GATE_OPEN_MARGIN_DB;
+
+  const holdFrames = Math.round(GATE_HOLD_SECONDS / FRAME_SECONDS);
+  const lookaheadFrames = Math.round(GATE_LOOKAHEAD_SECONDS / FRAME_SECONDS);
+  const closedGain = dbToGain(GATE_ATTENUATION_DB);
+  const frameGains = new Float32Array(levels.length).fill(closedGain);
+  let lastOpen = -Infinity;
+  levels.forEach((level, frame) => {
+    if (level >= threshold) lastOpen = frame;
+    if (frame - lastOpen <= holdFrames) frameGains[frame] = 1;
+  });
+  let nextOpen = Infinity;
+  for (let frame = levels.length - 1; frame >= 0; frame -= 1) {
+    if (levels[frame] >= threshold) nextOpen = frame;
+    if (nextOpen - frame <= lookaheadFrames) frameGains[frame] = 1;
+  }
+
+  const attack = 1 - Math.exp(-1 / (GATE_ATTACK_SECONDS * sampleRate));
+  const release = 1 - Math.exp(-1 / (GATE_RELEASE_SECONDS * sampleRate));
+  for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
+    const data = buffer.getChannelData(channel);
+    let gain = frameGains[0] ?? 1;
+    for (let i = 0; i < data.length; i += 1) {
+      const target = frameGains[Math.floor(i / frameSize)];
+      gain += (target - gain) * (target > gain ? attack : release);
+      data[i] *= gain;
+    }
+  }
+};
+
+/**
+ * Brings the speech to a consistent level. Gain is capped by the loudest
+ * samples (ignoring the top 0.1%); the few that still exceed the ceiling are
+ * soft-clipped. Works in place.
+ */
+const applyNormalization = (buffer: AudioBuffer) => {
+  const frameSize = Math.max(1, Math.round(buffer.sampleRate * FRAME_SECONDS));
+  const levels = measureFrameLevels(buffer, frameSize);
+  const median = percentile(levels, 0.5);
+  let power = 0;
+  let count = 0;
+  levels.forEach(level => {
+    if (level < median) return;
+    power += Math.pow(10, level / 10);
+    count += 1;
+  });
+  if (!count) return;
+  const speechDb = 10 * Math.log10(power / count);
+
+  // Histogram of sample magnitudes for the 99.9th percentile peak
+  const bins = new Uint32Array(1024);
+  let total = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i += 1) bins[Math.min(1023, Math.floor(Math.abs(data[i]) * 1024))] += 1;
+    total += data.length;
+  }
+  let peakBin = 1023;
+  for (let seen = 0; peakBin > 0; peakBin -= 1) {
+    seen += bins[peakBin];
+    if (seen > total * 0.001) break;
+  }
+  const peak = (peakBin + 1) / 1024;
+
+  const ceiling = dbToGain(PEAK_CEILING_DB);
+  const gainDb = Math.min(TARGET_SPEECH_DB - speechDb, MAX_GAIN_DB, gainToDb(ceiling / peak));
+  const gain = dbToGain(gainDb);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i += 1) {
+      const sample = data[i] * gain;
+      data[i] = Math.abs(sample) <= ceiling ? sample : Math.sign(sample) * (ceiling + (1 - ceiling) * Math.tanh((Math.abs(sample) - ceiling) / (1 - ceiling)));
+    }
+  }
+};
+
+/**
+ * Applies the enabled clean-up steps to a decoded buffer; the input is left as it was.
+ * Silence removal is separate (see utils/silenceRemoval), as it also changes timing.
+ */
+export const preprocessSpeechBuffer = async (buffer: AudioBuffer, options: AudioPreprocessingOptions): Promise<AudioBuffer> => {
+  if (!options.speechFilter && !options.noiseGate && !options.normalize) return buffer;
+  const processed = options.speechFilter ? await applySpeechFilter(buffer) : copyBuffer(buffer);
+  if (options.noiseGate) applyNoiseGate(processed);
+  if (options.normalize) applyNormalization(processed);
+  return processed;
+};
+
+const decodeSpeechAudio = async (blob: Blob) => {
+  if (!AudioContextClass) {
+    throw new Error('Audio pre-processing is not supported in this browser.');
+  }
+  const arrayBuffer = await blob.arrayBuffer();
+  const audioContext = new AudioContextClass();
+  try {
+    const decoded: AudioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+    return await prepareSpeechBuffer(decoded);
+  } finally {
+    await audioContext.close();
+  }
+};
+
+/**
+ * Before/after excerpts of the start of a recording as WAV, for listening in the upload wizard.
+ * The excerpt's own levels set the gate and gain, so the full run can sound slightly different.
+ */
+export const renderPreprocessingPreview = async (
+  blob: Blob,
+  options: AudioPreprocessingOptions,
+  silenceRemoval: SilenceRemovalOptions,
+  seconds: number = PREVIEW_SECONDS
+): Promise<{ before: Blob; after: Blob }> => {
+  const audio = await decodeSpeechAudio(blob);
+  const excerpt = copyBuffer(audio, 0, Math.min(audio.length, Math.round(seconds * audio.sampleRate)));
+  const cleaned = await preprocessSpeechBuffer(excerpt, options);
+  const processed = options.removeSilence ? removeSilence(cleaned, silenceRemoval).buffer : cleaned;
+  return {
+    before: encodeAudio(getChannelSlices(excerpt, 0, excerpt.length), excerpt.sampleRate, 'wav'),
+    after: encodeAudio(getChannelSlices(processed, 0, processed.length), processed.sampleRate, 'wav')
+  };
+};
@@ -51,3 +51,17 @@ export const getDriveDownloadUrl = (url: string): string | null => {
   if (!id) return null;
   return `https://drive.google.com/uc?export=download&id=${id}`;
 };
+
+/**
+ * Reads the duration of a media URL from its metadata.
+ * Resolves null when the browser cannot load it.
+ */
+export const getMediaDuration = (url: string): Promise<number | null> => {
+  return new Promise((resolve) => {
+    const media = document.createElement('audio');
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => resolve(Number.isFinite(media.duration) ? media.duration : null);
+    media.onerror = () => resolve(null);
+    media.src = url;
+  });
+};
@@ -0,0 +1,112 @@
+/**
+ * Split planner for chunked transcription.
+ * Instead of cutting at exact multiples of the chunk length, each cut is moved
+ * to the nearest pause in the decoded audio within a tolerance window, so
+ * chunk boundaries fall between words rather than through them.
+ */
+
+export interface ChunkPlan {
+  startSeconds: number;
+  endSeconds: number;
+  /** Leading seconds repeated from the end of the previous chunk */
+  overlapSeconds: number;
+}
+
+export interface ChunkPlanOptions {
+  /** Hard cap on a chunk's length (including overlap), e.g. from an upload size limit */
+  maxChunkSeconds?: number;
+  overlapSeconds?: number;
+  /** How far a cut may move from the target length to land in a pause; 0 cuts on time */
+  toleranceSeconds?: number;
+}
+
+// Energy is measured per 20 ms frame and compared over 300 ms stretches, about a short pause between words
+const FRAME_SECONDS = 0.02;
+const PAUSE_SECONDS = 0.3;
+// Stretches this close to the quietest one count as pauses too; the one nearest the target wins
+const PAUSE_ENERGY_MARGIN = 2;
+
+/**
+ * Picks a cut between `fromSeconds` and `toSeconds`: the middle of the pause
+ * nearest `targetSeconds`, where a pause is any stretch about as quiet as the quietest one.
+ */
+export const findPauseNear = (buffer: AudioBuffer, fromSeconds: number, toSeconds: number, targetSeconds: number) => {
+  const { sampleRate } = buffer;
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const firstSample = Math.max(0, Math.floor(fromSeconds * sampleRate));
+  const lastSample = Math.min(buffer.length, Math.floor(toSeconds * sampleRate));
+  const frameCount = Math.floor((lastSample - firstSample) / frameSize);
+  const framesPerPause = Math.max(1, Math.round(PAUSE_SECONDS / FRAME_SECONDS));
+  if (frameCount < framesPerPause) return targetSeconds;
+
+  const energies = new Float64Array(frameCount);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
+    const data = buffer.getChannelData(channel);
+    for (let frame = 0; frame < frameCount; frame += 1) {
+      const offset = firstSample + frame * frameSize;
+      let sum = 0;
+      for (let i = 0; i < frameSize; i += 1) sum += data[offset + i] * data[offset + i];
+      energies[frame] += sum;
+    }
+  }
+
+  // Sliding sum over each pause-length stretch of frames
+  const stretchCount = frameCount - framesPerPause + 1;
+  const stretches = new Float64Array(stretchCount);
+  let running = 0;
+  for (let frame = 0; frame < frameCount; frame += 1) {
+    running += energies[frame];
+    if (frame >= framesPerPause) running -= energies[frame - framesPerPause];
+    if (frame >= framesPerPause - 1) stretches[frame - framesPerPause + 1] = running;
+  }
+
+  let quietest = Infinity;
+  stretches.forEach(energy => {
+    quietest = Math.min(quietest, energy);
+  });
+  const threshold = quietest * PAUSE_ENERGY_MARGIN + 1e-9;
+
+  const stretchMiddle = (index: number) => (firstSample + (index + framesPerPause / 2) * frameSize) / sampleRate;
+  let best = -1;
+  for (let index = 0; index < stretchCount; index += 1) {
+    if (stretches[index] > threshold) continue;
+    if (best < 0 || Math.abs(stretchMiddle(index) - targetSeconds) < Math.abs(stretchMiddle(best) - targetSeconds)) best = index;
+  }
+  return stretchMiddle(best);
+};
+
+/**
+ * Plans consecutive chunks of roughly `chunkSeconds`, cutting in pauses where the
+ * tolerance allows and never exceeding `maxChunkSeconds`.
+ */
+export const planChunks = (buffer: AudioBuffer, chunkSeconds: number, options: ChunkPlanOptions = {}): ChunkPlan[] => {
+  const totalSeconds = buffer.duration;
+  const maxChunkSeconds = Math.min(options.maxChunkSeconds ?? Infinity, chunkSeconds + (options.toleranceSeconds || 0));
+  const targetSeconds = Math.min(chunkSeconds, maxChunkSeconds);
+  const overlapSeconds = Math.max(0, Math.min(options.overlapSeconds || 0, targetSeconds / 4));
+  const toleranceSeconds = Math.max(0, Math.min(options.toleranceSeconds || 0, targetSeconds / 4));
+
+  const plans: ChunkPlan[] = [];
+  // Where the audio no earlier chunk has covered begins
+  let boundary = 0;
+  while (boundary < totalSeconds) {
+    const startSeconds = Math.max(0, boundary - overlapSeconds);
+    const latestEnd = Math.min(startSeconds + maxChunkSeconds, startSeconds + targetSeconds + toleranceSeconds);
+
+    let endSeconds: number;
+    if (totalSeconds <= latestEnd) {
+      // The rest fits; a short trailing chunk would only add another request
+      endSeconds = totalSeconds;
+    } else if (toleranceSeconds > 0) {
+      const target = startSeconds + targetSeconds;
+      endSeconds = findPauseNear(buffer, Math.max(boundary, target - toleranceSeconds), latestEnd, target);
+    } else {
+      endSeconds = startSeconds + targetSeconds;
+    }
+    if (endSeconds <= boundary) break;
+
+    plans.push({ startSeconds, endSeconds, overlapSeconds: boundary - startSeconds });
+    boundary = endSeconds;
+  }
+  return plans;
+};
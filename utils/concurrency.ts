@@ -0,0 +1,59 @@
+import { sleep, throwIfAborted } from './abortUtils';
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight and returns
+ * the results in input order. After a failure no further items start; calls
+ * already running are allowed to finish before the first error is rethrown.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  const state = { nextIndex: 0, failed: false, error: undefined as unknown };
+
+  const runLane = async () => {
+    while (!state.failed && state.nextIndex < items.length) {
+      const index = state.nextIndex;
+      state.nextIndex += 1;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        if (!state.failed) {
+          state.failed = true;
+          state.error = error;
+        }
+      }
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: lanes }, runLane));
+  if (state.failed) throw state.error;
+  return results;
+};
+
+/**
+ * Sliding-window limiter: `acquire` resolves once starting another request keeps
+ * the count within `maxPerWindow` for the last `windowMs`. Shared by every caller
+ * of a limiter, so concurrent jobs draw from the same budget.
+ */
+export const createRateLimiter = (maxPerWindow: number, windowMs: number) => {
+  const starts: number[] = [];
+
+  const acquire = async (signal?: AbortSignal): Promise<void> => {
+    for (;;) {
+      throwIfAborted(signal);
+      const now = Date.now();
+      while (starts.length && now - starts[0] >= windowMs) starts.shift();
+      if (starts.length < maxPerWindow) {
+        starts.push(now);
+        return;
+      }
+      await sleep(windowMs - (now - starts[0]) + 10, signal);
+    }
+  };
+
+  return { acquire };
+};
@@ -1,4 +1,8 @@
 import { Document, Packer, Paragraph, TextRun } from "docx";
+import { alignTranslation, getSpeakerLabel, hasCurrentWordTimings, parseTranscript, serializeSegment } from "./transcriptModel";
+import { extractTimestamps } from "./timestampUtils";
+import { SubtitleCue, SubtitleLayoutOptions, SubtitlePresetId, SubtitleTurn, breakIntoLines, layoutSubtitles, resolveSubtitleOptions } from "./subtitleLayout";
+import { TranscriptWord } from "../types";
 
 /**
  * Triggers a browser download for a given Blob.
@@ -136,66 +140,229 @@ export const generateDocx = async (text: string, filename: string) => {
 };
 
 /**
- * Parses text for [MM:SS] or [HH:MM:SS] timestamps and returns SRT content.
+ * Formats seconds as a subtitle timecode: HH:MM:SS,mmm for SRT, HH:MM:SS.mmm for WebVTT.
  */
-export const createSrtString = (text: string) => {
-  const lines = text.split('\n');
-  let srtContent = '';
-  let counter = 1;
+const formatCueTime = (seconds: number, msSeparator: ',' | '.' = ',') => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${msSeparator}${ms.toString().padStart(3, '0')}`;
+};
 
-  const timeRegex = /\[(\d{1,2}):(\d{2})(?::(\d{2}))?\]/;
+const cleanSubtitleText = (value: string) => stripMarkdown(value).replace(/\s+/g, ' ').trim();
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
+/**
+ * Splits a body on inline [MM:SS] markers, returning each piece with its start.
+ */
+const splitOnInlineTimestamps = (body: string, start: number, end: number | null) => {
+  const pieces: Array<{ start: number; end: number | null; text: string }> = [];
+  const timestamps = extractTimestamps(body).filter(timestamp => timestamp.seconds >= start && (end === null || timestamp.seconds <= end));
+  const boundaries = [{ seconds: start, startIndex: 0, endIndex: 0 }, ...timestamps];
 
-    const match = line.match(timeRegex);
-    if (match) {
-      // Extract time parts
-      let hours = 0;
-      let minutes = parseInt(match[1]);
-      let seconds = parseInt(match[2]);
+  boundaries.forEach((boundary, i) => {
+    const next = boundaries[i + 1];
+    const text = cleanSubtitleText(body.slice(boundary.endIndex, next ? next.startIndex : undefined));
+    if (text) pieces.push({ start: boundary.seconds, end: next ? next.seconds : end, text });
+  });
+  return pieces;
+};
 
-      // Handle [HH:MM:SS] vs [MM:SS]
-      if (match[3]) {
-        hours = parseInt(match[1]);
-        minutes = parseInt(match[2]);
-        seconds = parseInt(match[3]);
-      }
+/**
+ * Reads the timed turns of a transcript. Turns that contain further inline
+ * [MM:SS] markers are split there, as is text with no speaker-turn structure.
+ */
+export const getSubtitleTurns = (text: string, words?: TranscriptWord[]): SubtitleTurn[] => {
+  const transcript = parseTranscript(text, { words });
+  const turns: SubtitleTurn[] = [];
 
-      // Format Start Time: HH:MM:SS,000
-      const startTime = `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')},000`;
+  transcript.segments.forEach(segment => {
+    if (segment.start === null) return;
+    const speaker = getSpeakerLabel(transcript, segment.speakerId);
+    if (hasCurrentWordTimings(segment)) {
+      turns.push({ start: segment.start, end: segment.end, speaker, text: cleanSubtitleText(segment.text), words: segment.words });
+      return;
+    }
+    splitOnInlineTimestamps(segment.text, segment.start, segment.end).forEach(piece => turns.push({ ...piece, speaker }));
+  });
+  if (turns.length > 0) return turns;
 
-      // Estimate End Time (arbitrary +3 seconds or until next timestamp if we implemented lookahead, but +3s is a safe default for reading)
-      // A better approach is to assume the chunk lasts until the next timestamp or 4 seconds.
-      const endDate = new Date(0, 0, 0, hours, minutes, seconds + 4);
-      const endH = endDate.getHours().toString().padStart(2, '0');
-      const endM = endDate.getMinutes().toString().padStart(2, '0');
-      const endS = endDate.getSeconds().toString().padStart(2, '0');
-      const endTime = `${endH}:${endM}:${endS},000`;
+  const [first] = extractTimestamps(text);
+  if (!first) return [];
+  return splitOnInlineTimestamps(text.slice(first.endIndex), first.seconds, null).map(piece => ({ ...piece, speaker: null }));
+};
 
-      // Clean text (remove timestamp and markdown from content)
-      const content = stripMarkdown(line.replace(timeRegex, '').trim());
+export interface SubtitleExportOptions {
+  words?: TranscriptWord[];
+  /** Ends the last cue when known */
+  mediaDuration?: number | null;
+  preset?: SubtitlePresetId | SubtitleLayoutOptions;
+}
 
-      srtContent += `${counter}\n${startTime} --> ${endTime}\n${content}\n\n`;
-      counter++;
-    }
-  }
+/**
+ * Builds SRT content from the timestamped turns of a transcript.
+ */
+export const createSrtString = (text: string, options: SubtitleExportOptions = {}) => {
+  const cues = layoutSubtitles(getSubtitleTurns(text, options.words), resolveSubtitleOptions(options.preset), {
+    mediaDuration: options.mediaDuration,
+    labelSpeakers: true
+  });
 
-  return srtContent;
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start)} --> ${formatCueTime(cue.end)}\n${cue.lines.join('\n')}\n\n`)
+    .join('');
 };
 
 /**
  * Parses text for [MM:SS] or [HH:MM:SS] timestamps and generates an SRT file.
+ * Returns whether a file was downloaded.
+ */
+export const generateSrt = (text: string, filename: string, options: SubtitleExportOptions = {}) => {
+  const srtContent = createSrtString(text, options);
+
+  if (srtContent === '') {
+    alert("No timestamps found in the format [MM:SS] to generate subtitles.");
+    return false;
+  }
+
+  const blob = new Blob([srtContent], { type: 'text/srt' });
+  downloadBlob(blob, `${filename}.srt`);
+  return true;
+};
+
+const escapeVtt = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Builds WebVTT content. Each turn runs until the next timestamp (or the media
+ * duration for the last one) and carries a `<v Speaker>` voice span when the speaker is known.
+ */
+export const createVttString = (text: string, options: SubtitleExportOptions = {}) => {
+  const cues = layoutSubtitles(getSubtitleTurns(text, options.words), resolveSubtitleOptions(options.preset), {
+    mediaDuration: options.mediaDuration
+  });
+  if (cues.length === 0) return '';
+
+  const blocks = cues.map(cue => {
+    const body = cue.lines.map(escapeVtt).join('\n');
+    const voiced = cue.speaker ? `<v ${escapeVtt(cue.speaker)}>${body}` : body;
+    return `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${voiced}`;
+  });
+  return `WEBVTT\n\n${blocks.join('\n\n')}\n`;
+};
+
+/**
+ * Parses text for [MM:SS] or [HH:MM:SS] timestamps and generates a WebVTT file.
+ * Returns whether a file was downloaded.
+ */
+export const generateVtt = (text: string, filename: string, options: SubtitleExportOptions = {}) => {
+  const vttContent = createVttString(text, options);
+
+  if (vttContent === '') {
+    alert("No timestamps found in the format [MM:SS] to generate subtitles.");
+    return false;
+  }
+
+  const blob = new Blob([vttContent], { type: 'text/vtt' });
+  downloadBlob(blob, `${filename}.vtt`);
+  return true;
+};
+
+/**
+ * Interleaves a transcript and its translation for document export: each turn
+ * of the original is followed by its translated text.
+ */
+export const createBilingualText = (original: string, translation: string) => {
+  const source = parseTranscript(original);
+  const target = parseTranscript(translation);
+  const blocks = alignTranslation(source, target).map(pair =>
+    [pair.original ? serializeSegment(source, pair.original) : '', pair.translation?.text || ''].filter(Boolean).join('\n')
+  );
+  const preamble = [source.preamble, target.preamble].filter(Boolean).join('\n');
+  if (preamble) blocks.unshift(preamble);
+  return blocks.filter(Boolean).join('\n\n');
+};
+
+/**
+ * Lays out the original turns as usual and shares each turn's translation
+ * between its cues in proportion to their length, so both languages stay on
+ * screen together. Translated turns are matched to the original by start time.
+ */
+const layoutBilingualCues = (original: string, translation: string, options: SubtitleExportOptions) => {
+  const layoutOptions = resolveSubtitleOptions(options.preset);
+  const translatedByStart = new Map<number, SubtitleTurn[]>();
+  getSubtitleTurns(translation).forEach(turn => {
+    translatedByStart.set(turn.start, [...(translatedByStart.get(turn.start) || []), turn]);
+  });
+
+  return getSubtitleTurns(original, options.words).flatMap(turn => {
+    const cues = layoutSubtitles([turn], layoutOptions, { mediaDuration: options.mediaDuration, labelSpeakers: true });
+    const translated = translatedByStart.get(turn.start)?.shift();
+    const words = translated ? translated.text.split(' ').filter(Boolean) : [];
+    const totalChars = cues.reduce((sum, cue) => sum + cue.lines.join(' ').length, 0) || 1;
+    let usedChars = 0;
+    let wordIndex = 0;
+    return cues.map((cue, i): SubtitleCue & { translatedLines: string[] } => {
+      usedChars += cue.lines.join(' ').length;
+      const until = i === cues.length - 1 ? words.length : Math.round((words.length * usedChars) / totalChars);
+      const text = words.slice(wordIndex, until).join(' ');
+      wordIndex = Math.max(wordIndex, until);
+      return { ...cue, translatedLines: text ? breakIntoLines(text, layoutOptions.maxCharsPerLine, layoutOptions.maxLines) : [] };
+    });
+  });
+};
+
+/**
+ * Builds SRT content with the original and translated lines in every cue.
  */
-export const generateSrt = (text: string, filename: string) => {
-  const srtContent = createSrtString(text);
+export const createBilingualSrtString = (original: string, translation: string, options: SubtitleExportOptions = {}) =>
+  layoutBilingualCues(original, translation, options)
+    .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start)} --> ${formatCueTime(cue.end)}\n${[...cue.lines, ...cue.translatedLines].join('\n')}\n\n`)
+    .join('');
+
+/**
+ * Generates a bilingual SRT file from a transcript and its translation.
+ * Returns whether a file was downloaded.
+ */
+export const generateBilingualSrt = (original: string, translation: string, filename: string, options: SubtitleExportOptions = {}) => {
+  const srtContent = createBilingualSrtString(original, translation, options);
 
   if (srtContent === '') {
     alert("No timestamps found in the format [MM:SS] to generate subtitles.");
-    return;
+    return false;
   }
 
   const blob = new Blob([srtContent], { type: 'text/srt' });
   downloadBlob(blob, `${filename}.srt`);
+  return true;
+};
+
+/**
+ * Builds WebVTT content with the original and translated lines in every cue.
+ */
+export const createBilingualVttString = (original: string, translation: string, options: SubtitleExportOptions = {}) => {
+  const cues = layoutBilingualCues(original, translation, options);
+  if (cues.length === 0) return '';
+
+  const blocks = cues.map(cue =>
+    `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${[...cue.lines, ...cue.translatedLines].map(escapeVtt).join('\n')}`
+  );
+  return `WEBVTT\n\n${blocks.join('\n\n')}\n`;
+};
+
+/**
+ * Generates a bilingual WebVTT file from a transcript and its translation.
+ * Returns whether a file was downloaded.
+ */
+export const generateBilingualVtt = (original: string, translation: string, filename: string, options: SubtitleExportOptions = {}) => {
+  const vttContent = createBilingualVttString(original, translation, options);
+
+  if (vttContent === '') {
+    alert("No timestamps found in the format [MM:SS] to generate subtitles.");
+    return false;
+  }
+
+  const blob = new Blob([vttContent], { type: 'text/vtt' });
+  downloadBlob(blob, `${filename}.vtt`);
+  return true;
 };
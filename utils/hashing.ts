@@ -0,0 +1,41 @@
+/**
+ * SHA-256 helpers for the content-addressed caches (transcripts, Gemini uploads).
+ * Web Crypto is only available in secure contexts; callers treat a failure as a cache miss.
+ */
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const sha256Hex = async (data: ArrayBuffer | string) =>
+  toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? new TextEncoder().encode(data) : data));
+
+// Web Crypto hashes a buffer in one piece, so larger media is hashed a slice at a time
+const HASH_SLICE_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Media that fits one slice is hashed directly; larger media is keyed by the
+ * hash of its slice hashes, so at most one slice is held in memory.
+ */
+const hashSlices = async (blob: Blob) => {
+  if (blob.size <= HASH_SLICE_BYTES) return sha256Hex(await blob.arrayBuffer());
+  const digests: string[] = [];
+  for (let offset = 0; offset < blob.size; offset += HASH_SLICE_BYTES) {
+    digests.push(await sha256Hex(await blob.slice(offset, offset + HASH_SLICE_BYTES).arrayBuffer()));
+  }
+  return sha256Hex(digests.join(''));
+};
+
+const blobHashes = new WeakMap<Blob, Promise<string>>();
+
+/**
+ * SHA-256 of a blob's bytes, computed once per Blob object.
+ */
+export const hashBlob = (blob: Blob): Promise<string> => {
+  let hash = blobHashes.get(blob);
+  if (!hash) {
+    hash = hashSlices(blob);
+    blobHashes.set(blob, hash);
+    hash.catch(() => blobHashes.delete(blob));
+  }
+  return hash;
+};
@@ -0,0 +1,25 @@
+/**
+ * Narrowing helpers for JSON returned by the AI engines. Responses are parsed
+ * to `unknown` and each field is only trusted once its type has been checked.
+ */
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** The field as an array, or an empty array when it is missing or not one. */
+export const getArrayField = (value: unknown, key: string): unknown[] => {
+  const field = isRecord(value) ? value[key] : undefined;
+  return Array.isArray(field) ? field : [];
+};
+
+/** The field when it is a finite number. */
+export const getNumberField = (value: unknown, key: string): number | undefined => {
+  const field = isRecord(value) ? value[key] : undefined;
+  return typeof field === 'number' && Number.isFinite(field) ? field : undefined;
+};
+
+/** The field when it is a string. */
+export const getStringField = (value: unknown, key: string): string | undefined => {
+  const field = isRecord(value) ? value[key] : undefined;
+  return typeof field === 'string' ? field : undefined;
+};
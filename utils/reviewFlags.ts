@@ -0,0 +1,132 @@
+import { SuggestedEdits, TranscriptWord } from '../types';
+import { locateChange } from './trackedChanges';
+import { getTurnOffsets, isLowConfidence, parseTranscript } from './transcriptModel';
+import { findDialectTerms } from './transcriptionUtils';
+
+/**
+ * Spans of a transcript worth a second look in review mode: words the engine
+ * was unsure of, [inaudible]/[crosstalk] markers, Pidgin terms, and the AI
+ * edits still waiting to be accepted or rejected.
+ */
+
+export type ReviewFlagKind = 'low-confidence' | 'marker' | 'dialect' | 'suggestion';
+
+export interface ReviewFlag {
+  /** Stays the same while the text around the flag is edited */
+  key: string;
+  kind: ReviewFlagKind;
+  /** Offsets of the flagged span in the markdown */
+  start: number;
+  end: number;
+  /** The flagged words as they are in the text */
+  text: string;
+  /** Where to play from, in media seconds */
+  time: number | null;
+  /** Index of the segment the flag is in, or -1 before the first turn */
+  segmentIndex: number;
+  /** Engine confidence for low-confidence words */
+  confidence?: number;
+  /** For suggestions: the tracked change and the text it would put in place */
+  changeId?: string;
+  replacement?: string;
+}
+
+export const REVIEW_FLAG_LABELS: Record<ReviewFlagKind, string> = {
+  'low-confidence': 'Low confidence',
+  marker: 'Unclear audio',
+  dialect: 'Pidgin term',
+  suggestion: 'AI suggestion'
+};
+
+const MARKER = /\[(?:inaudible|crosstalk)[^\]\n]*\]/gi;
+
+export const findReviewFlags = (markdown: string, words?: TranscriptWord[], suggestions?: SuggestedEdits | null): ReviewFlag[] => {
+  const transcript = parseTranscript(markdown, { words });
+  const turns = getTurnOffsets(markdown);
+  const flags: ReviewFlag[] = [];
+  const occurrences = new Map<string, number>();
+
+  const segmentAt = (offset: number) => {
+    for (let i = turns.length - 1; i >= 0; i -= 1) if (offset >= turns[i].lineStart) return i;
+    return -1;
+  };
+  const inHeader = (offset: number) => {
+    const index = segmentAt(offset);
+    return index !== -1 && offset < turns[index].bodyStart;
+  };
+  const addFlag = (kind: ReviewFlagKind, start: number, end: number, text: string) => {
+    const id = `${kind}:${text.toLowerCase()}`;
+    const occurrence = occurrences.get(id) || 0;
+    occurrences.set(id, occurrence + 1);
+    const segmentIndex = segmentAt(start);
+    flags.push({ key: `${id}:${occurrence}`, kind, start, end, text, time: transcript.segments[segmentIndex]?.start ?? null, segmentIndex });
+  };
+
+  // Word timings are matched to the text of their turn in order. Turns edited
+  // since (a corrected word) keep the flags on the words still found there.
+  transcript.segments.forEach((segment, index) => {
+    if (!segment.words?.length || !turns[index]) return;
+    const body = markdown.slice(turns[index].bodyStart, turns[index].end);
+    let cursor = 0;
+    segment.words.forEach(word => {
+      const at = body.indexOf(word.text, cursor);
+      if (at === -1) return;
+      cursor = at + word.text.length;
+      if (!isLowConfidence(word)) return;
+      const start = turns[index].bodyStart + at;
+      flags.push({
+        key: `low-confidence:${word.start}`,
+        kind: 'low-confidence',
+        start,
+        end: start + word.text.length,
+        text: word.text,
+        time: word.start,
+        segmentIndex: index,
+        confidence: word.confidence
+      });
+    });
+  });
+
+  for (const match of markdown.matchAll(MARKER)) {
+    addFlag('marker', match.index ?? 0, (match.index ?? 0) + match[0].length, match[0]);
+  }
+  findDialectTerms(markdown).forEach(({ index, term }) => {
+    if (!inHeader(index)) addFlag('dialect', index, index + term.length, term);
+  });
+
+  const edits: ReviewFlag[] = [];
+  suggestions?.changes.forEach(change => {
+    if (change.status !== 'pending') return;
+    const start = locateChange(suggestions, change);
+    const end = start + change.end - change.start;
+    const segmentIndex = segmentAt(start);
+    edits.push({
+      key: `suggestion:${change.id}`,
+      kind: 'suggestion',
+      start,
+      end,
+      text: markdown.slice(start, end),
+      time: transcript.segments[segmentIndex]?.start ?? null,
+      segmentIndex,
+      changeId: change.id,
+      replacement: change.insert
+    });
+  });
+
+  // Words an AI edit would change are reviewed with the edit
+  return [...flags.filter(flag => !edits.some(edit => flag.start < edit.end && flag.end > edit.start)), ...edits]
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Puts the reviewer's correction in place of a flagged span. Returns null
+ * when the text stays as it is.
+ */
+export const applyCorrection = (markdown: string, flag: ReviewFlag, correction: string) => {
+  const replacement = correction.trim();
+  if (replacement === flag.text) return null;
+  const before = markdown.slice(0, flag.start);
+  const after = markdown.slice(flag.end);
+  // Removing a span leaves no double space behind
+  return replacement || !/ $/.test(before) || !/^ /.test(after) ? `${before}${replacement}${after}` : `${before}${after.slice(1)}`;
+};
@@ -0,0 +1,132 @@
+import { TranscriptWord } from '../types';
+import { FRAME_SECONDS, measureFrameLevels, percentile } from './audioLevels';
+import { formatTranscriptTimestamp, parseTimestamp } from './timestampUtils';
+
+/**
+ * Voice activity detection that shortens long silences (waiting rooms, breaks)
+ * before the audio is chunked and sent, so no tokens are spent on dead air.
+ * The kept stretches are recorded in a time map, which turns every time the
+ * engines report on the shortened audio back into original media time.
+ */
+
+export interface TimeMapSpan {
+  /** Where the kept stretch starts in the shortened audio */
+  processedStart: number;
+  /** Where it starts in the original media */
+  originalStart: number;
+  duration: number;
+}
+
+/** Kept stretches in order; the audio between them was removed */
+export type TimeMap = TimeMapSpan[];
+
+export interface SilenceRemovalOptions {
+  /** Silences at least this long are shortened */
+  minSilenceSeconds: number;
+  /** What is left of each shortened silence, so the engines still hear a pause */
+  keptSilenceSeconds: number;
+}
+
+// A frame counts as silent this close to the noise floor (the 10th percentile frame level)
+const NOISE_FLOOR_PERCENTILE = 0.1;
+const SILENCE_MARGIN_DB = 6;
+// Near digital silence counts as silent whatever the noise floor
+const ABSOLUTE_SILENCE_DB = -60;
+// Without this spread between quiet and loud frames, the floor is speech and only absolute silence is cut
+const MIN_DYNAMIC_RANGE_DB = 16;
+
+/**
+ * Returns the audio with every long silence shortened, and the time map back to
+ * the original. The map is null when nothing was removed.
+ */
+export const removeSilence = (buffer: AudioBuffer, options: SilenceRemovalOptions): { buffer: AudioBuffer; timeMap: TimeMap | null } => {
+  const { sampleRate } = buffer;
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  const levels = measureFrameLevels(buffer, frameSize);
+  if (!levels.length) return { buffer, timeMap: null };
+
+  const noiseFloor = percentile(levels, NOISE_FLOOR_PERCENTILE);
+  const hasPauses = percentile(levels, 0.9) - noiseFloor >= MIN_DYNAMIC_RANGE_DB;
+  const threshold = hasPauses ? Math.max(noiseFloor + SILENCE_MARGIN_DB, ABSOLUTE_SILENCE_DB) : ABSOLUTE_SILENCE_DB;
+
+  const minSilenceFrames = Math.max(1, Math.round(options.minSilenceSeconds / FRAME_SECONDS));
+  const keptSamples = Math.round((Math.min(options.keptSilenceSeconds, options.minSilenceSeconds) * sampleRate) / 2);
+
+  // Sample ranges to drop: the middle of each long silent run, a little of its edges kept
+  const removed: Array<[number, number]> = [];
+  let runStart = -1;
+  for (let frame = 0; frame <= levels.length; frame += 1) {
+    const silent = frame < levels.length && levels[frame] < threshold;
+    if (silent && runStart < 0) runStart = frame;
+    if (silent || runStart < 0) continue;
+    if (frame - runStart >= minSilenceFrames) {
+      const from = runStart * frameSize + keptSamples;
+      const to = Math.min(buffer.length, frame * frameSize) - keptSamples;
+      if (to > from) removed.push([from, to]);
+    }
+    runStart = -1;
+  }
+  if (!removed.length) return { buffer, timeMap: null };
+
+  const kept: Array<[number, number]> = [];
+  let cursor = 0;
+  removed.forEach(([from, to]) => {
+    if (from > cursor) kept.push([cursor, from]);
+    cursor = to;
+  });
+  if (cursor < buffer.length) kept.push([cursor, buffer.length]);
+
+  const keptLength = kept.reduce((sum, [from, to]) => sum + (to - from), 0);
+  const output = new AudioBuffer({ length: Math.max(1, keptLength), numberOfChannels: buffer.numberOfChannels, sampleRate });
+  const timeMap: TimeMap = [];
+  let offset = 0;
+  kept.forEach(([from, to]) => {
+    for (let channel = 0; channel < buffer.numberOfChannels; channel += 1) {
+      output.getChannelData(channel).set(buffer.getChannelData(channel).subarray(from, to), offset);
+    }
+    timeMap.push({ processedStart: offset / sampleRate, originalStart: from / sampleRate, duration: (to - from) / sampleRate });
+    offset += to - from;
+  });
+  return { buffer: output, timeMap };
+};
+
+/**
+ * Original media time of a time in the shortened audio.
+ */
+export const toOriginalSeconds = (timeMap: TimeMap, seconds: number) => {
+  let low = 0;
+  let high = timeMap.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (timeMap[middle].processedStart <= seconds) low = middle;
+    else high = middle - 1;
+  }
+  const span = timeMap[low];
+  return span ? span.originalStart + (seconds - span.processedStart) : seconds;
+};
+
+/**
+ * Moves the timestamps and word timings of a transcription of the shortened
+ * audio back to original media time. Only the [MM:SS] tokens are rewritten, so
+ * the rest of the text keeps its formatting.
+ */
+export const restoreOriginalTimes = <T extends { text: string; words?: TranscriptWord[] }>(result: T, timeMap: TimeMap): T => {
+  const text = result.text.replace(
+    /\[(\s*)(\d{1,2}:\d{2}(?::\d{2})?)(\s*)\]/g,
+    (_, before: string, timestamp: string, after: string) =>
+      `[${before}${formatTranscriptTimestamp(toOriginalSeconds(timeMap, parseTimestamp(timestamp)))}${after}]`
+  );
+  return {
+    ...result,
+    text,
+    ...(result.words
+      ? {
+          words: result.words.map(word => ({
+            ...word,
+            start: toOriginalSeconds(timeMap, word.start),
+            end: toOriginalSeconds(timeMap, word.end)
+          }))
+        }
+      : {})
+  };
+};
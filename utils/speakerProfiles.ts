@@ -0,0 +1,70 @@
+import { SpeakerProfile, Transcript, TranscriptSpeaker } from '../types';
+
+/**
+ * Per-speaker statistics and colours for the speaker panel. Profiles are keyed
+ * by label, so they follow a speaker through renames made in the panel.
+ */
+
+export const SPEAKER_COLORS = ['#6366f1', '#f59e0b', '#10b981', '#ef4444', '#0ea5e9', '#ec4899', '#8b5cf6', '#14b8a6'];
+
+export interface SpeakerStats {
+  speaker: TranscriptSpeaker;
+  turns: number;
+  /** Seconds, from the turn timestamps */
+  talkSeconds: number;
+}
+
+/**
+ * Turn counts and talk time per speaker, in order of first appearance. A turn
+ * lasts until the next timestamp; the last one until its final timed word or
+ * the end of the media, when either is known.
+ */
+export const getSpeakerStats = (transcript: Transcript, mediaDuration?: number | null): SpeakerStats[] => {
+  const stats = new Map<string, SpeakerStats>(
+    transcript.speakers.map(speaker => [speaker.id, { speaker, turns: 0, talkSeconds: 0 }])
+  );
+  transcript.segments.forEach(segment => {
+    const entry = segment.speakerId ? stats.get(segment.speakerId) : undefined;
+    if (!entry) return;
+    entry.turns += 1;
+    if (segment.start === null) return;
+    const end = segment.end ?? segment.words?.[segment.words.length - 1]?.end ?? mediaDuration ?? null;
+    if (end !== null && end > segment.start) entry.talkSeconds += end - segment.start;
+  });
+  return [...stats.values()];
+};
+
+export const getSpeakerColor = (profiles: Record<string, SpeakerProfile> | undefined, label: string, index: number) =>
+  profiles?.[label]?.color || SPEAKER_COLORS[index % SPEAKER_COLORS.length];
+
+/**
+ * Moves a speaker's profile to its new label, which the user has now confirmed.
+ * `color` is the one the speaker ends up with (the target's, when merging).
+ */
+export const renameSpeakerProfile = (
+  profiles: Record<string, SpeakerProfile>,
+  from: string,
+  to: string,
+  color: string
+): Record<string, SpeakerProfile> => {
+  const { [from]: _moved, ...rest } = profiles;
+  return { ...rest, [to]: { color, confirmed: true } };
+};
+
+/**
+ * Carries profiles across labels changed by a rewrite (see `mapSpeakerLabels`);
+ * labels the rewrite left alone keep their own.
+ */
+export const carrySpeakerProfiles = (profiles: Record<string, SpeakerProfile>, mapping: Map<string, string>) => {
+  const carried: Record<string, SpeakerProfile> = {};
+  const entries = Object.entries(profiles);
+  // A label that kept its name keeps its own profile over one merged into it
+  entries.forEach(([label, profile]) => {
+    if ((mapping.get(label) || label) === label) carried[label] = profile;
+  });
+  entries.forEach(([label, profile]) => {
+    const target = mapping.get(label) || label;
+    if (!carried[target]) carried[target] = profile;
+  });
+  return carried;
+};
@@ -0,0 +1,171 @@
+import { TranscriptWord } from '../types';
+
+/**
+ * Subtitle layout engine.
+ * Turns timestamped transcript turns into cues that respect line length,
+ * line count, duration and reading-speed limits.
+ */
+
+export interface SubtitleLayoutOptions {
+  maxCharsPerLine: number;
+  maxLines: number;
+  /** Seconds */
+  minDuration: number;
+  /** Seconds */
+  maxDuration: number;
+  /** Reading speed limit, in characters per second */
+  maxCharsPerSecond: number;
+}
+
+export type SubtitlePresetId = 'netflix' | 'youtube' | 'broadcast';
+
+export const SUBTITLE_PRESETS: Record<SubtitlePresetId, { label: string; options: SubtitleLayoutOptions }> = {
+  netflix: {
+    label: 'Netflix',
+    options: { maxCharsPerLine: 42, maxLines: 2, minDuration: 5 / 6, maxDuration: 7, maxCharsPerSecond: 20 }
+  },
+  youtube: {
+    label: 'YouTube',
+    options: { maxCharsPerLine: 40, maxLines: 2, minDuration: 1, maxDuration: 6, maxCharsPerSecond: 22 }
+  },
+  broadcast: {
+    label: 'Broadcast',
+    options: { maxCharsPerLine: 37, maxLines: 2, minDuration: 1.5, maxDuration: 6, maxCharsPerSecond: 17 }
+  }
+};
+
+export interface SubtitleTurn {
+  start: number;
+  /** Start of the next turn, or null for the last one */
+  end: number | null;
+  speaker: string | null;
+  /** Plain text, markdown already stripped */
+  text: string;
+  /** Word timings, only when they still match the text */
+  words?: TranscriptWord[];
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+  speaker: string | null;
+}
+
+/**
+ * Greedily packs items into cues of at most `maxChars`, preferring to break
+ * after sentence or clause punctuation once a cue is reasonably full.
+ */
+const packItems = <T>(items: T[], getText: (item: T) => string, maxChars: number) => {
+  const groups: T[][] = [];
+  let current: T[] = [];
+  let length = 0;
+
+  items.forEach(item => {
+    const itemText = getText(item);
+    if (current.length > 0 && length + 1 + itemText.length > maxChars) {
+      groups.push(current);
+      current = [];
+      length = 0;
+    }
+    length += (current.length ? 1 : 0) + itemText.length;
+    current.push(item);
+    if (length >= maxChars * 0.6 && /[.!?;:,]$/.test(itemText)) {
+      groups.push(current);
+      current = [];
+      length = 0;
+    }
+  });
+  if (current.length) groups.push(current);
+  return groups;
+};
+
+/**
+ * Breaks cue text into at most `maxLines` lines, choosing the most balanced break
+ * that keeps every line within the limit.
+ */
+export const breakIntoLines = (text: string, maxCharsPerLine: number, maxLines: number): string[] => {
+  if (text.length <= maxCharsPerLine || maxLines < 2) return [text];
+
+  const words = text.split(' ');
+  let best: string[] | null = null;
+  let bestScore = Infinity;
+  for (let i = 1; i < words.length; i += 1) {
+    const first = words.slice(0, i).join(' ');
+    const rest = words.slice(i).join(' ');
+    const lines = [first, ...breakIntoLines(rest, maxCharsPerLine, maxLines - 1)];
+    if (lines.length > maxLines) continue;
+    const overflow = lines.reduce((sum, line) => sum + Math.max(0, line.length - maxCharsPerLine), 0);
+    const score = overflow * 1000 + (Math.max(...lines.map(line => line.length)) - Math.min(...lines.map(line => line.length)));
+    if (score < bestScore) {
+      bestScore = score;
+      best = lines;
+    }
+  }
+  return best || [text];
+};
+
+/**
+ * Lays out turns as cues. Long turns are split and their span shared between
+ * the cues in proportion to their length; durations are then held between the
+ * minimum (or reading time) and the maximum without running into the next cue.
+ */
+export const layoutSubtitles = (
+  turns: SubtitleTurn[],
+  options: SubtitleLayoutOptions,
+  layout: { mediaDuration?: number | null; labelSpeakers?: boolean } = {}
+): SubtitleCue[] => {
+  const maxCueChars = options.maxCharsPerLine * options.maxLines;
+  const cues: SubtitleCue[] = [];
+
+  turns.forEach(turn => {
+    const readingTime = (chars: number) => Math.max(options.minDuration, chars / options.maxCharsPerSecond);
+    const turnEnd = turn.end !== null && turn.end > turn.start
+      ? turn.end
+      : layout.mediaDuration && layout.mediaDuration > turn.start
+        ? layout.mediaDuration
+        : turn.start + readingTime(turn.text.length);
+
+    const turnCues: Array<{ start: number; end: number; text: string }> = [];
+    // Inline "Speaker:" labels take up cue space, so they are packed like any other word
+    const label = layout.labelSpeakers && turn.speaker ? `${turn.speaker}:` : null;
+
+    if (turn.words?.length) {
+      const words = label ? [{ text: label, start: turn.words[0].start, end: turn.words[0].start }, ...turn.words] : turn.words;
+      packItems(words, word => word.text, maxCueChars).forEach(group => {
+        turnCues.push({
+          start: group[0].start,
+          end: group[group.length - 1].end,
+          text: group.map(word => word.text).join(' ')
+        });
+      });
+    } else {
+      const groups = packItems((label ? `${label} ${turn.text}` : turn.text).split(' '), word => word, maxCueChars).map(group => group.join(' '));
+      const totalChars = groups.reduce((sum, group) => sum + group.length, 0) || 1;
+      const span = turnEnd - turn.start;
+      let position = turn.start;
+      groups.forEach(group => {
+        const slot = (span * group.length) / totalChars;
+        turnCues.push({ start: position, end: position + slot, text: group });
+        position += slot;
+      });
+    }
+
+    turnCues.forEach((cue, i) => {
+      const limit = i < turnCues.length - 1 ? turnCues[i + 1].start : Math.max(turnEnd, cue.end);
+      const wanted = Math.max(cue.end - cue.start, readingTime(cue.text.length));
+      const end = Math.min(cue.start + Math.min(wanted, options.maxDuration), limit);
+      cues.push({
+        start: cue.start,
+        end: Math.max(end, cue.start + 0.001),
+        lines: breakIntoLines(cue.text, options.maxCharsPerLine, options.maxLines),
+        speaker: turn.speaker
+      });
+    });
+  });
+
+  return cues;
+};
+
+export const resolveSubtitleOptions = (preset: SubtitlePresetId | SubtitleLayoutOptions = 'netflix') =>
+  typeof preset === 'string' ? SUBTITLE_PRESETS[preset].options : preset;
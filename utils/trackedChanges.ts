@@ -0,0 +1,166 @@
+import { SuggestedEdits, TrackedChange } from '../types';
+
+/**
+ * Tracked changes for AI edits. The AI returns a revised transcript; comparing
+ * it with the original word by word gives change records the user can accept
+ * or reject one at a time, without any markup in the text itself.
+ */
+
+// Above this many comparisons a block of lines is split up and compared line by line
+const MAX_DIFF_CELLS = 4_000_000;
+
+// A line's text without its "[00:12] Speaker 1:" header, so relabelled turns still pair up
+const lineBody = (line: string) => line.replace(/^[^:\n]{0,60}:\s*/, '').trim();
+
+/** Index pairs of the items the two lists have in common, in order (a longest common subsequence). */
+const matchSequences = (a: string[], b: string[]): Array<[number, number]> => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix += 1;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix += 1;
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < prefix; i += 1) pairs.push([i, i]);
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  if (n > 0 && m > 0 && n * m <= MAX_DIFF_CELLS) {
+    const width = m + 1;
+    const lengths = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i -= 1) {
+      for (let j = m - 1; j >= 0; j -= 1) {
+        lengths[i * width + j] = a[prefix + i] === b[prefix + j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[prefix + i] === b[prefix + j]) {
+        pairs.push([prefix + i, prefix + j]);
+        i += 1;
+        j += 1;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        i += 1;
+      } else {
+        j += 1;
+      }
+    }
+  }
+
+  for (let i = suffix; i > 0; i -= 1) pairs.push([a.length - i, b.length - i]);
+  return pairs;
+};
+
+/** Runs of unmatched items between the matched pairs, as [aFrom, aTo, bFrom, bTo]. */
+const unmatchedRuns = (a: string[], b: string[]) => {
+  const runs: Array<[number, number, number, number]> = [];
+  let ai = 0;
+  let bi = 0;
+  [...matchSequences(a, b), [a.length, b.length] as [number, number]].forEach(([aj, bj]) => {
+    if (aj > ai || bj > bi) runs.push([ai, aj, bi, bj]);
+    ai = aj + 1;
+    bi = bj + 1;
+  });
+  return runs;
+};
+
+const offsetsOf = (parts: string[]) => {
+  const offsets = [0];
+  parts.forEach(part => offsets.push(offsets[offsets.length - 1] + part.length));
+  return offsets;
+};
+
+/**
+ * The changes that turn `original` into `revised`, word by word. Lines are
+ * compared first so long transcripts stay quick; changes separated only by
+ * spaces are merged into one.
+ */
+export const diffTexts = (original: string, revised: string): TrackedChange[] => {
+  const aLines = original.split(/(?<=\n)/);
+  const bLines = revised.split(/(?<=\n)/);
+  const aLineOffsets = offsetsOf(aLines);
+  const raw: Array<{ start: number; end: number; insert: string }> = [];
+
+  /**
+   * Word-level changes for a run of differing lines. A run too large to compare
+   * word by word (an AI pass that touched every turn) is split into line pairs:
+   * line for line when both sides have as many lines, else by matching line
+   * bodies, pairing what is left in order.
+   */
+  const diffRun = (aFrom: number, aTo: number, bFrom: number, bTo: number) => {
+    const base = aLineOffsets[aFrom];
+    const aTokens = aLines.slice(aFrom, aTo).join('').match(/\s+|\S+/g) || [];
+    const bTokens = bLines.slice(bFrom, bTo).join('').match(/\s+|\S+/g) || [];
+    const aCount = aTo - aFrom;
+    const bCount = bTo - bFrom;
+    if (aTokens.length * bTokens.length > MAX_DIFF_CELLS && aCount > 1 && bCount > 1) {
+      if (aCount === bCount) {
+        for (let i = 0; i < aCount; i += 1) diffRun(aFrom + i, aFrom + i + 1, bFrom + i, bFrom + i + 1);
+        return;
+      }
+      const pairs = matchSequences(aLines.slice(aFrom, aTo).map(lineBody), bLines.slice(bFrom, bTo).map(lineBody));
+      if (pairs.length) {
+        let ai = aFrom;
+        let bi = bFrom;
+        [...pairs.map(([a, b]): [number, number] => [aFrom + a, bFrom + b]), [aTo, bTo] as [number, number]].forEach(([aj, bj], index) => {
+          if (aj > ai || bj > bi) diffRun(ai, aj, bi, bj);
+          if (index < pairs.length) diffRun(aj, aj + 1, bj, bj + 1);
+          ai = aj + 1;
+          bi = bj + 1;
+        });
+        return;
+      }
+      // Nothing pairs up: line for line in order, the longer side's extra lines going with the last pair
+      const shared = Math.min(aCount, bCount);
+      for (let i = 0; i < shared - 1; i += 1) diffRun(aFrom + i, aFrom + i + 1, bFrom + i, bFrom + i + 1);
+      diffRun(aFrom + shared - 1, aTo, bFrom + shared - 1, bTo);
+      return;
+    }
+
+    const aOffsets = offsetsOf(aTokens);
+    unmatchedRuns(aTokens, bTokens).forEach(([aStart, aEnd, bStart, bEnd]) => {
+      raw.push({ start: base + aOffsets[aStart], end: base + aOffsets[aEnd], insert: bTokens.slice(bStart, bEnd).join('') });
+    });
+  };
+
+  unmatchedRuns(aLines, bLines).forEach(([aFrom, aTo, bFrom, bTo]) => diffRun(aFrom, aTo, bFrom, bTo));
+
+  const merged: typeof raw = [];
+  raw.forEach(change => {
+    const previous = merged[merged.length - 1];
+    const gap = previous ? original.slice(previous.end, change.start) : '';
+    if (previous && /^[ \t]*$/.test(gap)) {
+      previous.insert += gap + change.insert;
+      previous.end = change.end;
+    } else {
+      merged.push({ ...change });
+    }
+  });
+  return merged.map((change, index) => ({ id: `change-${index}`, ...change, status: 'pending' }));
+};
+
+/** The transcript with the accepted changes applied and the rest left as they were. */
+export const applyAcceptedChanges = (suggestions: SuggestedEdits) => {
+  let text = '';
+  let cursor = 0;
+  suggestions.changes.forEach(change => {
+    text += suggestions.baseText.slice(cursor, change.start) + (change.status === 'accepted' ? change.insert : suggestions.baseText.slice(change.start, change.end));
+    cursor = change.end;
+  });
+  return text + suggestions.baseText.slice(cursor);
+};
+
+/** Where a change's original text starts in the transcript with the accepted changes applied. */
+export const locateChange = (suggestions: SuggestedEdits, change: TrackedChange) =>
+  suggestions.changes.reduce(
+    (offset, other) =>
+      other.start < change.start && other.status === 'accepted' ? offset + other.insert.length - (other.end - other.start) : offset,
+    change.start
+  );
+
+export const setChangeStatus = (suggestions: SuggestedEdits, ids: string[], status: TrackedChange['status']): SuggestedEdits => ({
+  ...suggestions,
+  changes: suggestions.changes.map(change => (ids.includes(change.id) ? { ...change, status } : change))
+});
@@ -0,0 +1,174 @@
+import { Transcript, TranscriptSegment, TranscriptSpeaker, TranscriptWord } from '../types';
+import { isValidSpeakerLabel, serializeTranscript } from './transcriptModel';
+
+/**
+ * Importers for caption and transcript files (SRT, WebVTT, timestamped TXT).
+ * Everything is converted to the app's "[MM:SS] Speaker: text" markdown.
+ */
+
+export interface ImportedCue {
+  start: number;
+  end: number | null;
+  speaker: string | null;
+  text: string;
+}
+
+export type TranscriptImportFormat = 'srt' | 'vtt' | 'txt';
+
+const CUE_TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+const parseCueTime = (value: string) => {
+  const [clock, ms = '0'] = value.trim().split(/[.,]/);
+  const parts = clock.split(':').map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(`0.${ms}`);
+};
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+/**
+ * Pulls a speaker out of a cue: WebVTT `<v Name>`, or a leading "NAME:" / "[Name]" / "- " marker.
+ * A "Name:" marker must be a label the transcript can read back ("So what I mean: ..." is speech).
+ */
+const extractSpeaker = (raw: string): { speaker: string | null; text: string } => {
+  const voice = raw.match(/<v(?:\.[\w.-]+)?\s+([^>]+)>/);
+  const withoutTags = decodeEntities(raw.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+  if (voice) return { speaker: voice[1].trim(), text: withoutTags };
+
+  const bracketed = withoutTags.match(/^\[([^\]]{1,40})\]\s+(.*)$/);
+  if (bracketed) return { speaker: bracketed[1].trim(), text: bracketed[2] };
+
+  const labelled = withoutTags.match(/^([^:]{1,40}):\s+(.*)$/);
+  if (labelled && isValidSpeakerLabel(labelled[1].trim())) return { speaker: labelled[1].trim(), text: labelled[2] };
+
+  return { speaker: null, text: withoutTags.replace(/^-\s+/, '') };
+};
+
+/**
+ * Parses the cue blocks shared by SRT and WebVTT (timing line followed by text lines).
+ */
+const parseCueBlocks = (content: string): ImportedCue[] => {
+  const cues: ImportedCue[] = [];
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+
+  blocks.forEach(block => {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex === -1) return; // Header, NOTE, STYLE or REGION blocks
+
+    const timing = lines[timingIndex].match(CUE_TIMING)!;
+    const body = lines.slice(timingIndex + 1).join(' ').trim();
+    if (!body) return;
+
+    const { speaker, text } = extractSpeaker(body);
+    if (!text) return;
+    cues.push({ start: parseCueTime(timing[1]), end: parseCueTime(timing[2]), speaker, text });
+  });
+
+  return cues;
+};
+
+export const parseSrt = (content: string) => parseCueBlocks(content);
+
+export const parseVtt = (content: string) => {
+  if (!/^\uFEFF?WEBVTT/.test(content.trimStart())) {
+    throw new Error('Not a WebVTT file (missing WEBVTT header).');
+  }
+  return parseCueBlocks(content);
+};
+
+/**
+ * Normalizes plain-text transcripts whose lines start with "00:12", "(00:12)" or
+ * "00:00:12.345" into the bracketed form, leaving everything else as written.
+ */
+export const parseTimestampedTxt = (content: string) =>
+  content
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => {
+      const match = line.match(/^\s*[([]?\s*(\d{1,2}:\d{2}(?::\d{2})?)(?:[.,]\d+)?\s*[)\]]?\s*(?:[-–|]\s*)?(.*)$/);
+      return match ? `[${match[1]}] ${match[2]}`.trimEnd() : line;
+    })
+    .join('\n');
+
+/**
+ * Builds transcript markdown from cues. Consecutive cues from the same speaker
+ * are joined while a sentence is still running, so captions read as paragraphs.
+ */
+export const cuesToMarkdown = (cues: ImportedCue[]) => {
+  const speakers: TranscriptSpeaker[] = [];
+  const segments: TranscriptSegment[] = [];
+
+  const resolveSpeaker = (label: string | null) => {
+    if (!label) return null;
+    const existing = speakers.find(speaker => speaker.label === label);
+    if (existing) return existing.id;
+    const id = `spk-${speakers.length + 1}`;
+    speakers.push({ id, label });
+    return id;
+  };
+
+  cues.forEach(cue => {
+    const previous = segments[segments.length - 1];
+    const midSentence = !!previous && !/[.!?…]["')\]]?$/.test(previous.text);
+    // Unlabelled cues that pick up a running sentence belong to the same speaker
+    const speakerId = cue.speaker ? resolveSpeaker(cue.speaker) : midSentence ? previous.speakerId : null;
+    const continues = midSentence && previous.speakerId === speakerId;
+    if (continues) {
+      previous.text = `${previous.text} ${cue.text}`;
+      previous.end = cue.end;
+      return;
+    }
+    segments.push({ id: `seg-${segments.length + 1}`, start: cue.start, end: cue.end, speakerId, text: cue.text });
+  });
+
+  const transcript: Transcript = { preamble: '', segments, speakers };
+  return serializeTranscript(transcript);
+};
+
+/**
+ * Word timings that keep each cue's exact start and end, which the whole-second
+ * [MM:SS] markdown cannot hold. Words are spread evenly across their cue.
+ */
+export const cuesToWords = (cues: ImportedCue[]): TranscriptWord[] =>
+  cues.flatMap(cue => {
+    const texts = cue.text.split(/\s+/).filter(Boolean);
+    const end = cue.end !== null && cue.end > cue.start ? cue.end : cue.start;
+    const step = (end - cue.start) / texts.length;
+    return texts.map((text, i) => ({ text, start: cue.start + i * step, end: cue.start + (i + 1) * step }));
+  });
+
+export const detectImportFormat = (fileName: string, content: string): TranscriptImportFormat | null => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'srt' || ext === 'vtt' || ext === 'txt' || ext === 'md') return ext === 'md' ? 'txt' : ext;
+  if (/^\uFEFF?WEBVTT/.test(content.trimStart())) return 'vtt';
+  if (CUE_TIMING.test(content)) return 'srt';
+  return null;
+};
+
+export const isTranscriptFile = (file: File) => /\.(srt|vtt|txt|md)$/i.test(file.name);
+
+/**
+ * Reads a caption or transcript file and returns editor markdown.
+ */
+export const importTranscriptFile = async (file: File) => {
+  const content = await file.text();
+  const format = detectImportFormat(file.name, content);
+  if (!format) {
+    throw new Error(`Unsupported transcript file: ${file.name}. Use .srt, .vtt or .txt.`);
+  }
+
+  const cues = format === 'txt' ? null : format === 'vtt' ? parseVtt(content) : parseSrt(content);
+  const text = cues ? cuesToMarkdown(cues) : parseTimestampedTxt(content).trim();
+
+  if (!text) {
+    throw new Error(`No transcript text found in ${file.name}.`);
+  }
+
+  return { text, ...(cues ? { words: cuesToWords(cues) } : {}), format, title: file.name.replace(/\.[^.]+$/, '') };
+};
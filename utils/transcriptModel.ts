@@ -0,0 +1,472 @@
+import { Transcript, TranscriptSegment, TranscriptSpeaker, TranscriptWord } from '../types';
+import { formatTranscriptTimestamp, parseTimestamp } from './timestampUtils';
+
+/**
+ * Structured transcript model.
+ * Converts the markdown produced by the AI engines ("[MM:SS] Speaker 1: text")
+ * into typed segments and back, so features stop re-parsing the raw string.
+ */
+
+const TIMESTAMP = '\\d{1,2}:\\d{2}(?::\\d{2})?';
+const SPEAKER = "Speaker\\s+\\w+|[A-Z][\\w'.-]*(?:\\s+[A-Z(][\\w'().-]*){0,3}";
+const EMPHASIS = '(?:\\*\\*|__)?';
+
+// "[00:12] Speaker 1: text", "[00:12] **Speaker 1:** text", "[00:12] text"
+const TIMESTAMP_FIRST = new RegExp(
+  `^\\s*${EMPHASIS}\\[\\s*(${TIMESTAMP})\\s*\\]${EMPHASIS}\\s*(?:${EMPHASIS}(${SPEAKER})${EMPHASIS}\\s*:${EMPHASIS})?\\s*(.*)$`
+);
+
+// "Speaker 1: text", "**KOJO (Host)** [00:12]: text"
+const SPEAKER_FIRST = new RegExp(
+  `^\\s*${EMPHASIS}(${SPEAKER})${EMPHASIS}\\s*(?:\\[\\s*(${TIMESTAMP})\\s*\\])?\\s*${EMPHASIS}:${EMPHASIS}\\s*(.*)$`
+);
+
+const MAX_SPEAKER_LABEL_LENGTH = 40;
+
+// Document labels ("Note: ...") that open a plain line without being a speaker
+const NON_SPEAKER_LABELS = new Set([
+  'action items', 'agenda', 'answer', 'background', 'caution', 'conclusion', 'context', 'date', 'definition',
+  'duration', 'example', 'important', 'introduction', 'keywords', 'location', 'note', 'notes', 'question',
+  'source', 'subject', 'summary', 'tip', 'title', 'topic', 'translation', 'transcript', 'update', 'warning'
+]);
+
+const LEADING_EMPHASIS = /^\s*(?:\*\*|__)/;
+
+/** Words the engine is less sure of than this are flagged for review. */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+interface TurnHeader {
+  start: number | null;
+  speaker: string | null;
+  rest: string;
+}
+
+const matchTurnHeader = (line: string): TurnHeader | null => {
+  const timestampFirst = line.match(TIMESTAMP_FIRST);
+  if (timestampFirst) {
+    return {
+      start: parseTimestamp(timestampFirst[1]),
+      speaker: timestampFirst[2]?.trim() || null,
+      rest: timestampFirst[3]
+    };
+  }
+
+  const speakerFirst = line.match(SPEAKER_FIRST);
+  if (speakerFirst && speakerFirst[1].trim().length <= MAX_SPEAKER_LABEL_LENGTH) {
+    // A bold or timestamped label is always a turn; a plain one only if it is not a document label
+    const isPlain = !speakerFirst[2] && !LEADING_EMPHASIS.test(line);
+    if (isPlain && NON_SPEAKER_LABELS.has(speakerFirst[1].trim().toLowerCase())) return null;
+    return {
+      start: speakerFirst[2] ? parseTimestamp(speakerFirst[2]) : null,
+      speaker: speakerFirst[1].trim(),
+      rest: speakerFirst[3]
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Fills each segment's end with the start of the next timed segment.
+ */
+const withSegmentEnds = (segments: TranscriptSegment[]): TranscriptSegment[] => {
+  let nextStart: number | null = null;
+  const result = [...segments];
+  for (let i = result.length - 1; i >= 0; i -= 1) {
+    const segment = result[i];
+    const end = segment.end ?? (segment.start !== null && nextStart !== null && nextStart >= segment.start ? nextStart : null);
+    result[i] = { ...segment, end };
+    if (segment.start !== null) nextStart = segment.start;
+  }
+  return result;
+};
+
+/**
+ * Hands each timed segment the words that start inside it.
+ * Segment starts are whole seconds, so a word belongs to the last segment starting at or before its floor.
+ */
+const withSegmentWords = (segments: TranscriptSegment[], words: TranscriptWord[]): TranscriptSegment[] => {
+  if (words.length === 0) return segments;
+  return segments.map(segment => {
+    if (segment.start === null) return segment;
+    const start = segment.start;
+    const segmentWords = words.filter(word =>
+      Math.floor(word.start) >= start && (segment.end === null || Math.floor(word.start) < segment.end)
+    );
+    if (segmentWords.length === 0) return segment;
+    const scored = segmentWords.filter(word => word.confidence !== undefined);
+    const confidence = scored.length
+      ? scored.reduce((sum, word) => sum + (word.confidence as number), 0) / scored.length
+      : undefined;
+    return { ...segment, words: segmentWords, ...(confidence !== undefined ? { confidence } : {}) };
+  });
+};
+
+/**
+ * Parses transcript markdown into segments.
+ * Every line that opens a speaker turn (timestamp and/or speaker label) starts
+ * a new segment; other lines are appended to the current one.
+ */
+export const parseTranscript = (
+  markdown: string,
+  options: { sourceChunk?: number; words?: TranscriptWord[] } = {}
+): Transcript => {
+  const speakers: TranscriptSpeaker[] = [];
+  const speakerIdsByLabel = new Map<string, string>();
+  const segments: TranscriptSegment[] = [];
+  const preambleLines: string[] = [];
+  let bodyLines: string[] | null = null;
+
+  const resolveSpeaker = (label: string | null) => {
+    if (!label) return null;
+    const existing = speakerIdsByLabel.get(label);
+    if (existing) return existing;
+    const id = `spk-${speakers.length + 1}`;
+    speakers.push({ id, label });
+    speakerIdsByLabel.set(label, id);
+    return id;
+  };
+
+  const closeSegment = () => {
+    if (!bodyLines) return;
+    const current = segments[segments.length - 1];
+    current.text = bodyLines.join('\n').trim();
+    bodyLines = null;
+  };
+
+  for (const line of (markdown || '').split('\n')) {
+    const header = matchTurnHeader(line);
+    if (header) {
+      closeSegment();
+      segments.push({
+        id: `seg-${segments.length + 1}`,
+        start: header.start,
+        end: null,
+        speakerId: resolveSpeaker(header.speaker),
+        text: '',
+        ...(options.sourceChunk !== undefined ? { sourceChunk: options.sourceChunk } : {})
+      });
+      bodyLines = [header.rest];
+    } else if (bodyLines) {
+      bodyLines.push(line);
+    } else {
+      preambleLines.push(line);
+    }
+  }
+  closeSegment();
+
+  return {
+    preamble: preambleLines.join('\n').trim(),
+    segments: withSegmentWords(withSegmentEnds(segments), options.words || []),
+    speakers
+  };
+};
+
+export const getSpeakerLabel = (transcript: Transcript, speakerId: string | null) => {
+  if (!speakerId) return null;
+  return transcript.speakers.find(speaker => speaker.id === speakerId)?.label || null;
+};
+
+/**
+ * Serializes a single segment back to its "[MM:SS] Speaker: text" line.
+ */
+export const serializeSegment = (transcript: Transcript, segment: TranscriptSegment) => {
+  const parts: string[] = [];
+  if (segment.start !== null) parts.push(`[${formatTranscriptTimestamp(segment.start)}]`);
+  const label = getSpeakerLabel(transcript, segment.speakerId);
+  if (label) parts.push(`${label}:`);
+  if (segment.text) parts.push(segment.text);
+  return parts.join(' ');
+};
+
+/**
+ * Serializes the model back to the markdown format the editor works with.
+ */
+export const serializeTranscript = (transcript: Transcript) => {
+  const blocks = transcript.segments.map(segment => serializeSegment(transcript, segment));
+  if (transcript.preamble) blocks.unshift(transcript.preamble);
+  return blocks.join('\n\n');
+};
+
+/**
+ * Moves every timed segment by a fixed offset (e.g. a chunk's position in the full media).
+ */
+export const shiftTranscript = (transcript: Transcript, offsetSeconds: number): Transcript => {
+  if (!offsetSeconds) return transcript;
+  return {
+    ...transcript,
+    segments: transcript.segments.map(segment => ({
+      ...segment,
+      start: segment.start !== null ? segment.start + offsetSeconds : null,
+      end: segment.end !== null ? segment.end + offsetSeconds : null
+    }))
+  };
+};
+
+/**
+ * Concatenates transcripts in order. Speakers with the same label are treated as one.
+ */
+export const mergeTranscripts = (parts: Transcript[]): Transcript => {
+  const speakers: TranscriptSpeaker[] = [];
+  const speakerIdsByLabel = new Map<string, string>();
+  const segments: TranscriptSegment[] = [];
+  let preamble = '';
+
+  parts.forEach((part, partIndex) => {
+    const idMap = new Map<string, string>();
+    part.speakers.forEach(speaker => {
+      let id = speakerIdsByLabel.get(speaker.label);
+      if (!id) {
+        id = `spk-${speakers.length + 1}`;
+        speakers.push({ id, label: speaker.label });
+        speakerIdsByLabel.set(speaker.label, id);
+      }
+      idMap.set(speaker.id, id);
+    });
+
+    if (part.preamble) {
+      if (partIndex === 0) {
+        preamble = part.preamble;
+      } else {
+        // Untagged text from later parts still belongs in reading order
+        segments.push({ id: '', start: null, end: null, speakerId: null, text: part.preamble });
+      }
+    }
+
+    part.segments.forEach(segment => {
+      segments.push({ ...segment, speakerId: segment.speakerId ? idMap.get(segment.speakerId) || null : null });
+    });
+  });
+
+  return {
+    preamble,
+    segments: withSegmentEnds(segments.map((segment, i) => ({ ...segment, id: `seg-${i + 1}`, end: null }))),
+    speakers
+  };
+};
+
+export const shiftWords = (words: TranscriptWord[], offsetSeconds: number) =>
+  offsetSeconds ? words.map(word => ({ ...word, start: word.start + offsetSeconds, end: word.end + offsetSeconds })) : words;
+
+export const isLowConfidence = (word: TranscriptWord) =>
+  word.confidence !== undefined && word.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+/**
+ * Builds "[MM:SS] Speaker: text" markdown from word-timed turns, so engines
+ * that return words still produce the transcript format everything else reads.
+ */
+export const buildTimedMarkdown = (turns: Array<{ speaker: string | null; words: TranscriptWord[] }>) =>
+  turns
+    .filter(turn => turn.words.length > 0)
+    .map(turn => {
+      const header = `[${formatTranscriptTimestamp(turn.words[0].start)}]`;
+      const body = turn.words.map(word => word.text.trim()).filter(Boolean).join(' ');
+      return turn.speaker ? `${header} ${turn.speaker}: ${body}` : `${header} ${body}`;
+    })
+    .join('\n\n');
+
+const normalizeForComparison = (value: string) =>
+  value.replace(/[*_~`#>]/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Whether a segment's word timings still describe its text (they go stale once the turn is edited).
+ */
+export const hasCurrentWordTimings = (segment: TranscriptSegment) =>
+  !!segment.words?.length &&
+  normalizeForComparison(segment.words.map(word => word.text).join(' ')) === normalizeForComparison(segment.text);
+
+/**
+ * Pairs each segment of a transcript with its segment in a translation made by
+ * `translateTranscript`, which keeps every segment's timestamp. Timed segments
+ * are matched by start time, so merging or splitting a turn of the original
+ * only unpairs that turn; untimed ones are paired in order, and only when both
+ * sides still have the same number of segments. Segments left over on either
+ * side are paired with null, translations after every original.
+ */
+export const alignTranslation = (original: Transcript, translation: Transcript) => {
+  const isTimed = [...original.segments, ...translation.segments].every(segment => segment.start !== null);
+  if (!isTimed && original.segments.length === translation.segments.length) {
+    return original.segments.map((segment, index) => ({ original: segment, translation: translation.segments[index] }));
+  }
+
+  const unmatched = new Map<number, TranscriptSegment[]>();
+  if (isTimed) {
+    translation.segments.forEach(segment => {
+      unmatched.set(segment.start!, [...(unmatched.get(segment.start!) || []), segment]);
+    });
+  }
+  const pairs: Array<{ original: TranscriptSegment | null; translation: TranscriptSegment | null }> = original.segments.map(segment => ({
+    original: segment,
+    translation: (segment.start !== null ? unmatched.get(segment.start)?.shift() : undefined) || null
+  }));
+  const paired = new Set(pairs.map(pair => pair.translation));
+  translation.segments.forEach(segment => {
+    if (!paired.has(segment)) pairs.push({ original: null, translation: segment });
+  });
+  return pairs;
+};
+
+const TIMESTAMP_PREFIX = new RegExp(`^(\\s*${EMPHASIS}\\[\\s*${TIMESTAMP}\\s*\\]${EMPHASIS})\\s*`);
+
+/**
+ * Sets the speaker of the given segments (by index) by rewriting only their
+ * turn header lines, so every other line keeps its formatting.
+ */
+export const relabelSegments = (markdown: string, labels: Map<number, string>) => {
+  let segmentIndex = -1;
+  return (markdown || '')
+    .split('\n')
+    .map(line => {
+      const header = matchTurnHeader(line);
+      if (!header) return line;
+      segmentIndex += 1;
+      const label = labels.get(segmentIndex);
+      if (!label || label === header.speaker) return line;
+      if (header.speaker) {
+        const at = line.indexOf(header.speaker);
+        return `${line.slice(0, at)}${label}${line.slice(at + header.speaker.length)}`;
+      }
+      return line.replace(TIMESTAMP_PREFIX, (_, prefix: string) => `${prefix} ${label}: `);
+    })
+    .join('\n');
+};
+
+/**
+ * Drops the speaker label from every turn header, keeping its timestamp; lines
+ * without a label are left exactly as they are.
+ */
+export const removeSpeakerLabels = (markdown: string) =>
+  (markdown || '')
+    .split('\n')
+    .map(line => {
+      const header = matchTurnHeader(line);
+      if (!header?.speaker) return line;
+      const indent = line.match(/^\s*/)![0];
+      const timestamp = line.slice(0, line.length - header.rest.length).match(new RegExp(`\\[\\s*${TIMESTAMP}\\s*\\]`));
+      return `${indent}${[timestamp?.[0], header.rest].filter(Boolean).join(' ')}`;
+    })
+    .join('\n');
+
+/**
+ * Renames a speaker throughout the document. Renaming to a label that is already
+ * in use merges the two speakers.
+ */
+export const renameSpeaker = (markdown: string, from: string, to: string) => {
+  const transcript = parseTranscript(markdown);
+  const labels = new Map<number, string>();
+  transcript.segments.forEach((segment, index) => {
+    if (getSpeakerLabel(transcript, segment.speakerId) === from) labels.set(index, to);
+  });
+  return relabelSegments(markdown, labels);
+};
+
+/**
+ * Which label each speaker of `before` most often became in `after`, for
+ * carrying per-speaker settings across a rewrite that keeps the segment order.
+ */
+export const mapSpeakerLabels = (before: Transcript, after: Transcript) => {
+  const votes = new Map<string, Map<string, number>>();
+  before.segments.forEach((segment, index) => {
+    const from = getSpeakerLabel(before, segment.speakerId);
+    const to = after.segments[index] ? getSpeakerLabel(after, after.segments[index].speakerId) : null;
+    if (!from || !to) return;
+    const counts = votes.get(from) || new Map<string, number>();
+    counts.set(to, (counts.get(to) || 0) + 1);
+    votes.set(from, counts);
+  });
+
+  const mapping = new Map<string, string>();
+  votes.forEach((counts, from) => {
+    const [to] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    mapping.set(from, to);
+  });
+  return mapping;
+};
+
+const SPEAKER_LABEL = new RegExp(`^(?:${SPEAKER})$`);
+
+/**
+ * Whether a name can be used as a speaker label and still be read back as one
+ * (a capitalised name of up to four words, or "Speaker X", that is not a document label like "Note").
+ */
+export const isValidSpeakerLabel = (label: string) =>
+  label.length <= MAX_SPEAKER_LABEL_LENGTH && SPEAKER_LABEL.test(label) && !NON_SPEAKER_LABELS.has(label.toLowerCase());
+
+/**
+ * Where each segment's turn sits in the markdown, in segment order: the start of
+ * its header line, the start of its text after the header, and its end (the
+ * next header line, or the end of the markdown).
+ */
+export const getTurnOffsets = (markdown: string) => {
+  const turns: Array<{ lineStart: number; bodyStart: number; end: number }> = [];
+  let offset = 0;
+  markdown.split('\n').forEach(line => {
+    const header = matchTurnHeader(line);
+    if (header) {
+      if (turns.length) turns[turns.length - 1].end = offset;
+      turns.push({ lineStart: offset, bodyStart: offset + line.length - header.rest.length, end: markdown.length });
+    }
+    offset += line.length + 1;
+  });
+  return turns;
+};
+
+/**
+ * Moves the passage at [from, to) of the markdown into a turn of its own for
+ * `speaker`, splitting the turn it sits in; the rest of that turn continues
+ * under its original speaker. The new turn starts at the playback position
+ * when that falls inside the turn, else at the passage's first timed word,
+ * else at a time interpolated from where the passage sits in the turn.
+ */
+export const reassignPassage = (
+  markdown: string,
+  from: number,
+  to: number,
+  speaker: string,
+  options: { playbackTime?: number; words?: TranscriptWord[] } = {}
+) => {
+  const turns = getTurnOffsets(markdown);
+  const index = turns.findIndex(turn => from >= turn.bodyStart && to <= turn.end);
+  const turn = turns[index];
+  if (!turn) throw new Error("Select words inside a single turn to move them to another speaker.");
+
+  const before = markdown.slice(turn.bodyStart, from).trim();
+  const passage = markdown.slice(from, to).trim();
+  const after = markdown.slice(to, turn.end).trim();
+  if (!passage) throw new Error("Select the words to move first.");
+
+  const transcript = parseTranscript(markdown, { words: options.words });
+  const segment = transcript.segments[index];
+  const originalSpeaker = getSpeakerLabel(transcript, segment.speakerId);
+
+  const span = turn.end - turn.bodyStart || 1;
+  const interpolate = (position: number) =>
+    segment.start === null
+      ? null
+      : segment.end === null
+        ? segment.start
+        : segment.start + ((position - turn.bodyStart) / span) * (segment.end - segment.start);
+  const timedWords = hasCurrentWordTimings(segment) ? segment.words! : null;
+  const wordAt = (text: string) => timedWords?.[text.split(/\s+/).filter(Boolean).length]?.start ?? null;
+  const inTurn = (seconds: number | undefined): seconds is number =>
+    seconds !== undefined && segment.start !== null && seconds >= segment.start && (segment.end === null || seconds < segment.end);
+
+  const passageStart = !before
+    ? segment.start
+    : inTurn(options.playbackTime)
+      ? options.playbackTime
+      : wordAt(before) ?? interpolate(from);
+  const restStart = wordAt(`${before} ${passage}`) ?? interpolate(to);
+
+  const openTurn = (start: number | null, label: string | null) =>
+    [start !== null ? `[${formatTranscriptTimestamp(Math.floor(start))}]` : '', label ? `${label}:` : ''].filter(Boolean).join(' ');
+  const blocks = [
+    ...(before ? [`${markdown.slice(turn.lineStart, turn.bodyStart)}${before}`] : []),
+    `${openTurn(passageStart, speaker)} ${passage}`,
+    ...(after
+      ? [`${openTurn(restStart !== null && passageStart !== null ? Math.max(restStart, passageStart) : restStart, originalSpeaker)} ${after}`]
+      : [])
+  ];
+  const following = markdown.slice(turn.end);
+  return `${markdown.slice(0, turn.lineStart)}${blocks.join('\n\n')}${following ? `\n\n${following.replace(/^\n+/, '')}` : ''}`;
+};
@@ -0,0 +1,26 @@
+import { TranscriptSnapshot } from '../types';
+
+// Automatic snapshots beyond this are dropped oldest first; named ones and the first (the original transcript) are kept
+const MAX_AUTOMATIC_SNAPSHOTS = 30;
+
+/**
+ * Adds a snapshot of the text. An automatic snapshot is skipped when the
+ * latest one already holds the same text.
+ */
+export const takeSnapshot = (
+  snapshots: TranscriptSnapshot[] = [],
+  text: string,
+  name: string,
+  automatic: boolean = true
+): TranscriptSnapshot[] => {
+  if (automatic && snapshots[snapshots.length - 1]?.text === text) return snapshots;
+  const next = [
+    ...snapshots,
+    { id: Math.random().toString(36).substring(7), name, text, createdAt: new Date().toISOString(), automatic }
+  ];
+  const prunable = next.slice(1).filter(snapshot => snapshot.automatic);
+  const excess = prunable.length - MAX_AUTOMATIC_SNAPSHOTS;
+  if (excess <= 0) return next;
+  const dropped = new Set(prunable.slice(0, excess).map(snapshot => snapshot.id));
+  return next.filter(snapshot => !dropped.has(snapshot.id));
+};
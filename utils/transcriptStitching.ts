@@ -0,0 +1,258 @@
+import { Transcript, TranscriptSegment, TranscriptSpeaker, TranscriptWord } from '../types';
+import { getSpeakerLabel, mergeTranscripts } from './transcriptModel';
+
+/**
+ * Stitches the transcripts of overlapping audio chunks back into one.
+ * Neighbouring chunks transcribe the same few seconds of audio: the words
+ * both produced for it are aligned, kept once, and the speakers heard there
+ * tie each chunk's speaker labels to the ones used before it.
+ */
+
+export interface StitchPart {
+  /** Chunk transcript with its times already moved to the full media */
+  transcript: Transcript;
+  words?: TranscriptWord[];
+  /** Where the chunk's audio starts in the full media */
+  startSeconds: number;
+  /** Leading seconds the chunk shares with the previous one */
+  overlapSeconds: number;
+}
+
+interface Token {
+  norm: string;
+  segment: number;
+  /** Character offset of the word in its segment's text */
+  offset: number;
+}
+
+interface Alignment {
+  tailIndex: number;
+  headIndex: number;
+  length: number;
+}
+
+// Shorter runs match too easily on fillers ("you know", "and the")
+const MIN_ALIGNED_TOKENS = 3;
+// A fast speaker; sizes how far from the cut the shared words are looked for
+const WORDS_PER_SECOND = 4;
+const GENERIC_SPEAKER = /^Speaker\s+\w+$/i;
+
+const normalizeWord = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const tokenizeSegments = (segments: TranscriptSegment[]): Token[] => {
+  const tokens: Token[] = [];
+  segments.forEach((segment, index) => {
+    for (const match of segment.text.matchAll(/\S+/g)) {
+      const norm = normalizeWord(match[0]);
+      if (norm) tokens.push({ norm, segment: index, offset: match.index ?? 0 });
+    }
+  });
+  return tokens;
+};
+
+/**
+ * Index of the timed word that starts the aligned run, searching from the end
+ * of the list (`last`) or from its start; -1 when the words do not contain it.
+ */
+const findRunInWords = (words: TranscriptWord[], run: string[], last: boolean) => {
+  const norms = words.map(word => normalizeWord(word.text));
+  const matchesAt = (index: number) => {
+    let k = 0;
+    for (let i = index; i < norms.length && k < run.length; i += 1) {
+      if (!norms[i]) continue;
+      if (norms[i] !== run[k]) return false;
+      k += 1;
+    }
+    return k === run.length;
+  };
+  for (let n = 0; n < norms.length; n += 1) {
+    const index = last ? norms.length - 1 - n : n;
+    if (norms[index] === run[0] && matchesAt(index)) return index;
+  }
+  return -1;
+};
+
+/**
+ * Longest run of identical words between the end of one chunk and the start of the next.
+ */
+const findAlignment = (tail: Token[], head: Token[]): Alignment | null => {
+  let best: Alignment = { tailIndex: -1, headIndex: -1, length: 0 };
+  let previous = new Array<number>(head.length + 1).fill(0);
+  for (let i = 1; i <= tail.length; i += 1) {
+    const current = new Array<number>(head.length + 1).fill(0);
+    for (let j = 1; j <= head.length; j += 1) {
+      if (tail[i - 1].norm !== head[j - 1].norm) continue;
+      current[j] = previous[j - 1] + 1;
+      if (current[j] > best.length) {
+        best = { tailIndex: i - current[j], headIndex: j - current[j], length: current[j] };
+      }
+    }
+    previous = current;
+  }
+  return best.length >= MIN_ALIGNED_TOKENS ? best : null;
+};
+
+/**
+ * Pairs the next chunk's speakers with the previous chunk's by who said the
+ * aligned words. Returns next speaker id -> previous speaker label.
+ */
+const matchSpeakers = (
+  previous: Transcript,
+  tail: Token[],
+  next: Transcript,
+  head: Token[],
+  alignment: Alignment
+) => {
+  const votes = new Map<string, { nextId: string; previousId: string; count: number }>();
+  for (let k = 0; k < alignment.length; k += 1) {
+    const previousId = previous.segments[tail[alignment.tailIndex + k].segment].speakerId;
+    const nextId = next.segments[head[alignment.headIndex + k].segment].speakerId;
+    if (!previousId || !nextId) continue;
+    const key = `${nextId}\u0000${previousId}`;
+    const vote = votes.get(key) || { nextId, previousId, count: 0 };
+    vote.count += 1;
+    votes.set(key, vote);
+  }
+
+  const labels = new Map<string, string>();
+  const taken = new Set<string>();
+  Array.from(votes.values())
+    .sort((a, b) => b.count - a.count)
+    .forEach(({ nextId, previousId }) => {
+      if (labels.has(nextId) || taken.has(previousId)) return;
+      const label = getSpeakerLabel(previous, previousId);
+      if (!label) return;
+      labels.set(nextId, label);
+      taken.add(previousId);
+    });
+  return labels;
+};
+
+/**
+ * Renames the next chunk's speakers to the labels they were matched to. An
+ * unmatched "Speaker N" whose label now belongs to someone else gets a free number.
+ */
+const relabelSpeakers = (transcript: Transcript, labels: Map<string, string>, usedLabels: Set<string>): TranscriptSpeaker[] => {
+  const claimed = new Set(labels.values());
+  return transcript.speakers.map(speaker => {
+    const matched = labels.get(speaker.id);
+    if (matched) return { ...speaker, label: matched };
+    if (!GENERIC_SPEAKER.test(speaker.label) || !claimed.has(speaker.label)) return speaker;
+
+    let n = 1;
+    while (usedLabels.has(`Speaker ${n}`)) n += 1;
+    const label = `Speaker ${n}`;
+    usedLabels.add(label);
+    return { ...speaker, label };
+  });
+};
+
+/** Drops everything from the given word on. */
+const cutBefore = (transcript: Transcript, token: Token): Transcript => {
+  const segments = transcript.segments.slice(0, token.segment);
+  const kept = transcript.segments[token.segment].text.slice(0, token.offset).trim();
+  if (kept) segments.push({ ...transcript.segments[token.segment], text: kept });
+  return { ...transcript, segments };
+};
+
+/** Drops everything before the given word; a turn cut in two starts no earlier than the word (`cutSeconds`). */
+const cutFrom = (transcript: Transcript, token: Token, cutSeconds: number): Transcript => {
+  const segment = transcript.segments[token.segment];
+  const trimmed = token.offset > 0
+    ? { ...segment, text: segment.text.slice(token.offset).trim(), start: segment.start !== null ? Math.max(segment.start, Math.floor(cutSeconds)) : null }
+    : segment;
+  return { ...transcript, segments: [trimmed, ...transcript.segments.slice(token.segment + 1)] };
+};
+
+/**
+ * Gives leading untagged text of the next chunk the speaker of the previous
+ * chunk's last turn, which it continues.
+ */
+const carrySpeaker = (previous: Transcript, next: Transcript): Transcript => {
+  const last = previous.segments[previous.segments.length - 1];
+  const first = next.segments[0];
+  const label = last ? getSpeakerLabel(previous, last.speakerId) : null;
+  if (!label || !first || first.speakerId) return next;
+  const existing = next.speakers.find(speaker => speaker.label === label);
+  const speaker = existing || { id: `spk-${next.speakers.length + 1}`, label };
+  return {
+    ...next,
+    speakers: existing ? next.speakers : [...next.speakers, speaker],
+    segments: [{ ...first, speakerId: speaker.id }, ...next.segments.slice(1)]
+  };
+};
+
+/**
+ * Joins transcripts of consecutive, possibly overlapping chunks.
+ * Parts whose shared words cannot be found are simply appended, words and all.
+ */
+export const stitchTranscripts = (parts: StitchPart[]): { transcript: Transcript; words: TranscriptWord[] } => {
+  const stitched: Transcript[] = [];
+  const words: TranscriptWord[] = [];
+  const usedLabels = new Set<string>();
+
+  parts.forEach((part, index) => {
+    let next = part.transcript;
+    let partWords = part.words || [];
+
+    if (index > 0 && next.preamble) {
+      // Untagged text at the start of a later chunk is still speech in the overlap
+      next = {
+        ...next,
+        preamble: '',
+        segments: [{ id: '', start: null, end: null, speakerId: null, text: next.preamble }, ...next.segments]
+      };
+    }
+
+    const previous = stitched[stitched.length - 1];
+    if (previous && part.overlapSeconds > 0) {
+      const window = Math.max(20, Math.ceil(part.overlapSeconds * WORDS_PER_SECOND * 1.5));
+      const tail = tokenizeSegments(previous.segments).slice(-window);
+      const head = tokenizeSegments(next.segments).slice(0, window);
+      const alignment = findAlignment(tail, head);
+
+      if (alignment) {
+        const labels = matchSpeakers(previous, tail, next, head, alignment);
+        next = { ...next, speakers: relabelSpeakers(next, labels, new Set([...usedLabels, ...next.speakers.map(speaker => speaker.label)])) };
+
+        // Keep the shared words from the later chunk, which heard them away from its cut.
+        // Text and word timings are both cut at the first aligned word, so they keep matching.
+        const tailToken = tail[alignment.tailIndex];
+        const headToken = head[alignment.headIndex];
+        const run = head.slice(alignment.headIndex, alignment.headIndex + alignment.length).map(token => token.norm);
+        const previousWordIndex = findRunInWords(words, run, true);
+        const nextWordIndex = findRunInWords(partWords, run, false);
+        const cutSeconds = nextWordIndex !== -1
+          ? partWords[nextWordIndex].start
+          : previousWordIndex !== -1
+            ? words[previousWordIndex].start
+            : part.startSeconds + part.overlapSeconds / 2;
+        if (previousWordIndex !== -1) words.splice(previousWordIndex);
+        else while (words.length && words[words.length - 1].start >= cutSeconds) words.pop();
+        partWords = nextWordIndex !== -1 ? partWords.slice(nextWordIndex) : partWords.filter(word => word.start >= cutSeconds);
+
+        const trimmedPrevious = cutBefore(previous, tailToken);
+        next = cutFrom(next, headToken, cutSeconds);
+
+        // A turn split by the cut continues in the previous chunk's last segment.
+        // Unlabelled text stays a separate paragraph so it keeps its own timestamp.
+        const last = trimmedPrevious.segments[trimmedPrevious.segments.length - 1];
+        const first = next.segments[0];
+        const lastLabel = last ? getSpeakerLabel(trimmedPrevious, last.speakerId) : null;
+        if (lastLabel && first && (tailToken.offset > 0 || headToken.offset > 0) && lastLabel === getSpeakerLabel(next, first.speakerId)) {
+          trimmedPrevious.segments[trimmedPrevious.segments.length - 1] = { ...last, text: `${last.text} ${first.text}` };
+          next = { ...next, segments: next.segments.slice(1) };
+        }
+        stitched[stitched.length - 1] = trimmedPrevious;
+      }
+    }
+
+    if (stitched.length) next = carrySpeaker(stitched[stitched.length - 1], next);
+
+    next.speakers.forEach(speaker => usedLabels.add(speaker.label));
+    stitched.push(next);
+    words.push(...partWords);
+  });
+
+  return { transcript: mergeTranscripts(stitched), words };
+};
@@ -1,27 +1,30 @@
 
+const DIALECT_KEYWORDS = [
+  'wahala', 'abeg', 'wetin', 'una', 'sabi', 'don', 'pikin', 'na', 'dey',
+  'abi', 'shebi', 'nna', 'kuku', 'sef', 'sha', 'ogini', 'ba', 'ni', 'ko',
+  'mumu', 'gbege', 'yawa', 'comot', 'waka', 'padi', 'omo', 'chook', 'dash',
+  'fit', 'go', 'make', 'say', 'we', 'am', 'dem' // careful with common words
+];
+
+// Also plain English; they add to the score but are not pointed out on their own
+const COMMON_ENGLISH_KEYWORDS = ['fit', 'make', 'say', 'dash', 'don'];
+
+// More specific pattern matching for "pidgin" structures
+const DIALECT_PATTERNS = [
+  /\b(i|we|you|dem) dey\b/i,
+  /\b(na) (im|we|me)\b/i,
+  /\b(no) (be|go)\b/i,
+  /\b(wetin) (dey|happen)\b/i,
+];
+
 export const detectDialect = (text: string): boolean => {
   if (!text) return false;
-  
-  const dialectKeywords = [
-    'wahala', 'abeg', 'wetin', 'una', 'sabi', 'don', 'pikin', 'na', 'dey', 
-    'abi', 'shebi', 'nna', 'kuku', 'sef', 'sha', 'ogini', 'ba', 'ni', 'ko',
-    'mumu', 'gbege', 'yawa', 'comot', 'waka', 'padi', 'omo', 'chook', 'dash',
-    'fit', 'go', 'make', 'say', 'we', 'am', 'dem' // careful with common words
-  ];
-
-  // More specific pattern matching for "pidgin" structures
-  const patterns = [
-    /\b(i|we|you|dem) dey\b/i,
-    /\b(na) (im|we|me)\b/i,
-    /\b(no) (be|go)\b/i,
-    /\b(wetin) (dey|happen)\b/i,
-  ];
 
   let score = 0;
   const lowerText = text.toLowerCase();
 
   // Keyword check
-  dialectKeywords.forEach(word => {
+  DIALECT_KEYWORDS.forEach(word => {
     // Only count if word is at least 3 chars or distinctive
     if (word.length > 2) {
        const regex = new RegExp(`\\b${word}\\b`, 'gi');
@@ -31,10 +34,34 @@ export const detectDialect = (text: string): boolean => {
   });
 
   // Pattern check (higher weight)
-  patterns.forEach(pattern => {
+  DIALECT_PATTERNS.forEach(pattern => {
     if (pattern.test(lowerText)) score += 3;
   });
 
   // Threshold: if score > 3, likely dialect/pidgin
   return score > 3;
 };
+
+/**
+ * Where the Pidgin terms and phrases that `detectDialect` scores appear in the
+ * text, in order. Empty unless the text as a whole reads as dialect.
+ */
+export const findDialectTerms = (text: string): Array<{ index: number; term: string }> => {
+  if (!detectDialect(text)) return [];
+
+  const found = new Map<number, string>();
+  DIALECT_PATTERNS.forEach(pattern => {
+    const regex = new RegExp(pattern.source, 'gi');
+    for (const match of text.matchAll(regex)) found.set(match.index ?? 0, match[0]);
+  });
+  DIALECT_KEYWORDS.forEach(word => {
+    if (word.length <= 2 || COMMON_ENGLISH_KEYWORDS.includes(word)) return;
+    for (const match of text.matchAll(new RegExp(`\\b${word}\\b`, 'gi'))) {
+      const index = match.index ?? 0;
+      // Inside a phrase found above
+      if ([...found.entries()].some(([start, term]) => index >= start && index < start + term.length)) continue;
+      found.set(index, match[0]);
+    }
+  });
+  return [...found.entries()].sort((a, b) => a[0] - b[0]).map(([index, term]) => ({ index, term }));
+};